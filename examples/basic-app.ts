@@ -7,6 +7,7 @@ import {
   createApp, 
   AuthService, 
   stripeService, 
+  planCatalog,
   keitaroService,
   prisma 
 } from 'trafficwork-framework';
@@ -67,13 +68,12 @@ async function startExampleApp() {
         let user = await prisma.user.findUnique({ where: { email } });
         
         if (!user) {
-          const { user: newUser } = await AuthService.register(
-            email,
-            Math.random().toString(36).substring(7), // Random password
-            email.split('@')[0], // Name from email
-            req.keitaroClickId // Tracking ID from middleware
-          );
-          user = newUser;
+          // Passwordless account; the user signs in with the emailed magic link
+          user = await AuthService.createPasswordlessUser(email, {
+            name: email.split('@')[0], // Name from email
+            keitaroSubId: req.keitaroClickId // Tracking ID from middleware
+          });
+          await AuthService.requestMagicLink(email);
           
           // Track registration
           await keitaroService.trackRegistration(user.id);
@@ -82,7 +82,7 @@ async function startExampleApp() {
         // Create subscription
         const subscription = await stripeService.createSubscription(
           user.id,
-          process.env.STRIPE_MONTHLY_PRICE_ID!,
+          planCatalog.resolveCheckoutPrice({ plan: 'monthly' }).price.priceId,
           paymentMethodId,
           req.keitaroClickId
         );
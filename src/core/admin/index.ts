@@ -1,7 +1,30 @@
-import { Router } from 'express';
-import { authenticate, AuthRequest } from '../auth';
+import { Router, Response } from 'express';
+import {
+  authenticate,
+  requirePermission,
+  AuthRequest,
+  AuthService,
+  Permission,
+  RbacService,
+  LoginProtectionService,
+  SecurityEventService,
+  ApiKeyService,
+  getActorId
+} from '../auth';
 import { prisma } from '../database';
-import { stripeService } from '../payment';
+import { config } from '../config';
+import {
+  stripeService,
+  planCatalog,
+  cancellationService,
+  webhookQueue,
+  reconciliationService,
+  dunningService,
+  WebhookEventStatus,
+  PAID_PAYMENT_STATUSES
+} from '../payment';
+import { AuditAction, AuditService } from '../audit';
+import { EntitlementService } from '../entitlements';
 import logger from '../../utils/logger';
 
 /**
@@ -9,37 +32,86 @@ import logger from '../../utils/logger';
  */
 
 /**
- * Check if user is admin
+ * Check if user is admin (has at least one admin permission)
  */
 export async function requireAdmin(req: AuthRequest, res: any, next: any) {
+  // API keys are limited to their scopes, checked by requirePermission on each route
+  if (req.apiKey) {
+    return next();
+  }
+
   if (!req.user) {
     return res.status(401).json({ error: 'Authentication required' });
   }
 
-  const user = await prisma.user.findUnique({
-    where: { id: req.user.userId }
-  });
+  // Impersonation sessions act as a regular user
+  if (req.user.impersonatorId) {
+    return res.status(403).json({ error: 'Admin access is not available while impersonating' });
+  }
 
-  // Check if user has admin role (you'll need to add 'role' field to User model)
-  if (!user || user.email !== process.env.ADMIN_EMAIL) {
+  const permissions = await RbacService.getUserPermissions(req.user.userId);
+  if (permissions.length === 0) {
     return res.status(403).json({ error: 'Admin access required' });
   }
 
+  // Optionally require admins to have signed in with 2FA
+  if (config.admin.requireTwoFactor && !req.user.twoFactorVerified) {
+    return res.status(403).json({
+      error: 'Two-factor authentication required for admin access',
+      twoFactorRequired: true
+    });
+  }
+
+  // Cache permissions for requirePermission checks on individual routes
+  req.permissions = permissions;
   next();
 }
 
+/**
+ * Permissions of a list the admin doesn't have: admins can't grant more access than they have
+ */
+function permissionsNotHeld(req: AuthRequest, permissions: string[]): string[] {
+  return permissions.filter(permission =>
+    RbacService.isPermission(permission) && !RbacService.hasPermission(req.permissions || [], permission)
+  );
+}
+
+/**
+ * Admins can only act on users whose permissions they all have (support staff can't act on full admins)
+ */
+async function requireTargetWithinPermissions(req: AuthRequest, res: any, next: any) {
+  try {
+    const notHeld = permissionsNotHeld(req, await RbacService.getUserPermissions(req.params.userId));
+    if (notHeld.length > 0) {
+      return res.status(403).json({ error: 'Cannot act on a user with permissions you do not have', permissions: notHeld });
+    }
+
+    next();
+  } catch (error) {
+    logger.error('Admin target permission check error', error);
+    res.status(500).json({ error: 'Failed to check permissions' });
+  }
+}
+
+/**
+ * Only full admins can change their own roles
+ */
+function isOwnRoleChange(req: AuthRequest, userId: string): boolean {
+  return req.user?.userId === userId && !(req.permissions || []).includes(Permission.ALL);
+}
+
 /**
  * Create admin routes
  */
 export function createAdminRoutes(): Router {
   const router = Router();
 
-  // All admin routes require authentication and admin role
-  router.use(authenticate());
+  // All admin routes require authentication and admin role (or a scoped API key)
+  router.use(authenticate(true, { allowApiKey: true }));
   router.use(requireAdmin);
 
   // Dashboard stats
-  router.get('/dashboard', async (req, res) => {
+  router.get('/dashboard', requirePermission(Permission.ANALYTICS_READ), async (req, res) => {
     try {
       const [
         totalUsers,
@@ -59,8 +131,8 @@ export function createAdminRoutes(): Router {
         
         // Total revenue
         prisma.payment.aggregate({
-          where: { status: 'succeeded' },
-          _sum: { amount: true }
+          where: { status: { in: PAID_PAYMENT_STATUSES } },
+          _sum: { amount: true, refundedAmount: true }
         }),
         
         // Recent payments
@@ -95,7 +167,8 @@ export function createAdminRoutes(): Router {
         stats: {
           totalUsers,
           activeSubscriptions,
-          totalRevenue: (totalRevenue._sum.amount || 0) / 100, // Convert from cents
+          // Net of refunds, converted from cents
+          totalRevenue: ((totalRevenue._sum.amount || 0) - (totalRevenue._sum.refundedAmount || 0)) / 100,
           conversionRate: totalUsers > 0 
             ? ((activeSubscriptions / totalUsers) * 100).toFixed(2) + '%'
             : '0%'
@@ -103,6 +176,7 @@ export function createAdminRoutes(): Router {
         recentPayments: recentPayments.map(p => ({
           ...p,
           amount: p.amount / 100, // Convert from cents
+          refundedAmount: p.refundedAmount / 100,
           user: {
             email: p.user.email,
             name: p.user.name
@@ -118,7 +192,7 @@ export function createAdminRoutes(): Router {
   });
 
   // User management
-  router.get('/users', async (req, res) => {
+  router.get('/users', requirePermission(Permission.USERS_READ), async (req, res) => {
     try {
       const page = parseInt(req.query.page as string) || 1;
       const limit = parseInt(req.query.limit as string) || 20;
@@ -172,7 +246,7 @@ export function createAdminRoutes(): Router {
   });
 
   // User details
-  router.get('/users/:userId', async (req, res) => {
+  router.get('/users/:userId', requirePermission(Permission.USERS_READ), async (req, res) => {
     try {
       const user = await prisma.user.findUnique({
         where: { id: req.params.userId },
@@ -180,6 +254,9 @@ export function createAdminRoutes(): Router {
           payments: {
             orderBy: { createdAt: 'desc' },
             take: 20
+          },
+          roles: {
+            include: { role: true }
           }
         }
       });
@@ -188,14 +265,17 @@ export function createAdminRoutes(): Router {
         return res.status(404).json({ error: 'User not found' });
       }
 
-      // Remove password from response
-      const { password, ...userWithoutPassword } = user;
+      // Remove password and 2FA secrets from response
+      const { roles, ...userWithoutRoles } = user;
 
       res.json({
-        user: userWithoutPassword,
+        user: AuthService.toPublicUser(userWithoutRoles),
+        roles: roles.map(r => r.role.name),
+        entitlements: await EntitlementService.resolve(user.id),
         payments: user.payments.map(p => ({
           ...p,
-          amount: p.amount / 100 // Convert from cents
+          amount: p.amount / 100, // Convert from cents
+          refundedAmount: p.refundedAmount / 100
         }))
       });
     } catch (error) {
@@ -204,33 +284,206 @@ export function createAdminRoutes(): Router {
     }
   });
 
+  // Compare a user's billing state with Stripe (dry run unless fix is true)
+  router.post('/users/:userId/reconcile', requirePermission(Permission.BILLING_WRITE), async (req: AuthRequest, res) => {
+    try {
+      const fix = req.body?.fix === true;
+      const report = await reconciliationService.run({
+        userId: req.params.userId,
+        dryRun: !fix,
+        since: req.body?.since ? new Date(req.body.since) : undefined
+      });
+
+      if (fix) {
+        await AuditService.record(AuditService.contextFromRequest(req), {
+          action: AuditAction.ADMIN_BILLING_RECONCILE,
+          targetType: 'user',
+          targetId: req.params.userId,
+          metadata: {
+            mismatches: report.mismatches.length,
+            fixed: report.mismatches.filter(mismatch => mismatch.fixed).length
+          }
+        });
+      }
+
+      return res.json(report);
+    } catch (error: any) {
+      logger.error('Admin reconcile error', error);
+      if (error.message === 'User not found') {
+        return res.status(404).json({ error: error.message });
+      }
+      return res.status(500).json({ error: 'Failed to reconcile billing state' });
+    }
+  });
+
+  // Impersonate user (returns tokens for a time-limited session as the user)
+  router.post('/users/:userId/impersonate',
+    requirePermission(Permission.USERS_IMPERSONATE),
+    async (req: AuthRequest, res) => {
+      try {
+        if (!req.user) {
+          return res.status(403).json({ error: 'Impersonation requires an admin session' });
+        }
+
+        const reason = req.body?.reason;
+        if (!reason) {
+          return res.status(400).json({ error: 'reason is required' });
+        }
+
+        const tokens = await AuthService.startImpersonation(
+          req.user.userId,
+          req.params.userId,
+          reason,
+          { userAgent: req.get('user-agent'), ipAddress: req.ip }
+        );
+
+        await AuditService.record(AuditService.contextFromRequest(req), {
+          action: AuditAction.ADMIN_USER_IMPERSONATE,
+          targetType: 'user',
+          targetId: req.params.userId,
+          metadata: { reason, expiresAt: tokens.refreshExpiresAt }
+        });
+
+        return res.status(201).json(tokens);
+      } catch (error: any) {
+        logger.error('Admin impersonation error', error);
+        return res.status(400).json({ error: error.message });
+      }
+    }
+  );
+
   // Update user subscription
-  router.put('/users/:userId/subscription', async (req, res) => {
+  router.put('/users/:userId/subscription', requirePermission(Permission.BILLING_WRITE), requireTargetWithinPermissions, async (req: AuthRequest, res) => {
     try {
       const { status, plan, endDate } = req.body;
 
+      if (plan && !planCatalog.getPlan(plan)) {
+        return res.status(400).json({ error: 'Unknown plan' });
+      }
+
+      const user = await prisma.user.findUnique({
+        where: { id: req.params.userId }
+      });
+
+      if (!user) {
+        return res.status(404).json({ error: 'User not found' });
+      }
+
       const updatedUser = await prisma.user.update({
         where: { id: req.params.userId },
         data: {
           subscriptionStatus: status,
           subscriptionPlan: plan,
-          subscriptionEndDate: endDate ? new Date(endDate) : undefined
+          subscriptionEndDate: endDate ? new Date(endDate) : undefined,
+          pastDueSince: status === undefined
+            ? undefined
+            : status === 'past_due' ? user.pastDueSince || new Date() : null
         }
       });
 
-      res.json({ 
+      await AuditService.record(AuditService.contextFromRequest(req), {
+        action: AuditAction.ADMIN_SUBSCRIPTION_UPDATE,
+        targetType: 'user',
+        targetId: user.id,
+        changes: AuditService.diff(user, updatedUser, [
+          'subscriptionStatus',
+          'subscriptionPlan',
+          'subscriptionEndDate'
+        ])
+      });
+
+      return res.json({ 
         message: 'Subscription updated',
-        user: updatedUser 
+        user: AuthService.toPublicUser(updatedUser)
       });
     } catch (error) {
       logger.error('Admin update subscription error', error);
-      res.status(500).json({ error: 'Failed to update subscription' });
+      return res.status(500).json({ error: 'Failed to update subscription' });
+    }
+  });
+
+  // Undo a scheduled cancellation
+  router.post('/users/:userId/subscription/reactivate', requirePermission(Permission.BILLING_WRITE), requireTargetWithinPermissions, async (req: AuthRequest, res) => {
+    try {
+      const subscription = await stripeService.reactivateSubscription(
+        req.params.userId,
+        AuditService.contextFromRequest(req)
+      );
+
+      return res.json({ message: 'Subscription reactivated', subscription });
+    } catch (error: any) {
+      logger.error('Admin reactivate subscription error', error);
+      if (error.message === 'No active subscription found') {
+        return res.status(404).json({ error: error.message });
+      }
+      return res.status(400).json({ error: error.message });
+    }
+  });
+
+  // Pause payment collection for a number of billing cycles
+  router.post('/users/:userId/subscription/pause', requirePermission(Permission.BILLING_WRITE), requireTargetWithinPermissions, async (req: AuthRequest, res) => {
+    try {
+      const subscription = await stripeService.pauseSubscription(
+        req.params.userId,
+        Number(req.body.cycles),
+        AuditService.contextFromRequest(req)
+      );
+
+      return res.json({ message: 'Subscription paused', subscription });
+    } catch (error: any) {
+      logger.error('Admin pause subscription error', error);
+      if (error.message === 'No active subscription found') {
+        return res.status(404).json({ error: error.message });
+      }
+      return res.status(400).json({ error: error.message });
+    }
+  });
+
+  // Resume a paused subscription
+  router.post('/users/:userId/subscription/resume', requirePermission(Permission.BILLING_WRITE), requireTargetWithinPermissions, async (req: AuthRequest, res) => {
+    try {
+      const subscription = await stripeService.resumeSubscription(
+        req.params.userId,
+        AuditService.contextFromRequest(req)
+      );
+
+      return res.json({ message: 'Subscription resumed', subscription });
+    } catch (error: any) {
+      logger.error('Admin resume subscription error', error);
+      if (error.message === 'No active subscription found') {
+        return res.status(404).json({ error: error.message });
+      }
+      return res.status(400).json({ error: error.message });
+    }
+  });
+
+  // Reset quota usage for the current period (all quotas, or ?quota=name)
+  router.delete('/users/:userId/usage', requirePermission(Permission.BILLING_WRITE), requireTargetWithinPermissions, async (req: AuthRequest, res) => {
+    try {
+      const quota = req.query.quota as string | undefined;
+      await EntitlementService.resetUsage(req.params.userId, quota, getActorId(req));
+
+      await AuditService.record(AuditService.contextFromRequest(req), {
+        action: AuditAction.ADMIN_USAGE_RESET,
+        targetType: 'user',
+        targetId: req.params.userId,
+        metadata: { quota: quota || null }
+      });
+
+      res.json({ message: 'Usage reset' });
+    } catch (error) {
+      logger.error('Admin reset usage error', error);
+      res.status(500).json({ error: 'Failed to reset usage' });
     }
   });
 
   // Delete user
-  router.delete('/users/:userId', async (req, res) => {
+  router.delete('/users/:userId', requirePermission(Permission.USERS_WRITE), requireTargetWithinPermissions, async (req: AuthRequest, res) => {
     try {
+      if (req.user?.userId === req.params.userId) {
+        return res.status(403).json({ error: 'Cannot delete your own account' });
+      }
+
       const user = await prisma.user.findUnique({
         where: { id: req.params.userId }
       });
@@ -253,6 +506,17 @@ export function createAdminRoutes(): Router {
         where: { id: req.params.userId }
       });
 
+      await AuditService.record(AuditService.contextFromRequest(req), {
+        action: AuditAction.ADMIN_USER_DELETE,
+        targetType: 'user',
+        targetId: user.id,
+        metadata: {
+          email: user.email,
+          subscriptionId: user.subscriptionId,
+          subscriptionStatus: user.subscriptionStatus
+        }
+      });
+
       res.json({ message: 'User deleted successfully' });
     } catch (error) {
       logger.error('Admin delete user error', error);
@@ -261,7 +525,7 @@ export function createAdminRoutes(): Router {
   });
 
   // Payment analytics
-  router.get('/analytics/payments', async (req, res) => {
+  router.get('/analytics/payments', requirePermission(Permission.BILLING_READ), async (req, res) => {
     try {
       const days = parseInt(req.query.days as string) || 30;
       const startDate = new Date();
@@ -270,16 +534,20 @@ export function createAdminRoutes(): Router {
       const payments = await prisma.payment.findMany({
         where: {
           createdAt: { gte: startDate },
-          status: 'succeeded'
+          status: { in: PAID_PAYMENT_STATUSES }
         },
         orderBy: { createdAt: 'asc' }
       });
 
+      // Revenue is net of refunds
+      const netAmount = (payment: { amount: number; refundedAmount: number }) =>
+        payment.amount - payment.refundedAmount;
+
       // Group by date
       const dailyRevenue: { [key: string]: number } = {};
       payments.forEach(payment => {
         const date = payment.createdAt.toISOString().split('T')[0];
-        dailyRevenue[date] = (dailyRevenue[date] || 0) + payment.amount;
+        dailyRevenue[date] = (dailyRevenue[date] || 0) + netAmount(payment);
       });
 
       // Calculate totals by payment method
@@ -287,7 +555,17 @@ export function createAdminRoutes(): Router {
         by: ['paymentMethod'],
         where: {
           createdAt: { gte: startDate },
-          status: 'succeeded'
+          status: { in: PAID_PAYMENT_STATUSES }
+        },
+        _sum: { amount: true, refundedAmount: true },
+        _count: true
+      });
+
+      // Lost disputes
+      const chargebacks = await prisma.payment.aggregate({
+        where: {
+          createdAt: { gte: startDate },
+          status: 'chargeback'
         },
         _sum: { amount: true },
         _count: true
@@ -300,14 +578,18 @@ export function createAdminRoutes(): Router {
         })),
         paymentMethods: paymentMethods.map(pm => ({
           method: pm.paymentMethod || 'unknown',
-          total: (pm._sum.amount || 0) / 100,
+          total: ((pm._sum.amount || 0) - (pm._sum.refundedAmount || 0)) / 100,
           count: pm._count
         })),
         summary: {
-          totalRevenue: payments.reduce((sum, p) => sum + p.amount, 0) / 100,
+          totalRevenue: payments.reduce((sum, p) => sum + netAmount(p), 0) / 100,
+          totalRefunded: payments.reduce((sum, p) => sum + p.refundedAmount, 0) / 100,
+          totalDiscounts: payments.reduce((sum, p) => sum + p.discountAmount, 0) / 100,
+          totalChargebacks: (chargebacks._sum.amount || 0) / 100,
+          chargebackCount: chargebacks._count,
           totalTransactions: payments.length,
           averageTransaction: payments.length > 0 
-            ? (payments.reduce((sum, p) => sum + p.amount, 0) / payments.length / 100)
+            ? (payments.reduce((sum, p) => sum + netAmount(p), 0) / payments.length / 100)
             : 0
         }
       });
@@ -317,8 +599,49 @@ export function createAdminRoutes(): Router {
     }
   });
 
+  // Refund a payment (amount in cents; full remaining amount if omitted)
+  router.post('/payments/:paymentId/refund', requirePermission(Permission.BILLING_REFUND), async (req: AuthRequest, res) => {
+    try {
+      const { amount, reason } = req.body;
+
+      if (amount !== undefined && (!Number.isInteger(amount) || amount <= 0)) {
+        return res.status(400).json({ error: 'Amount must be a positive integer (cents)' });
+      }
+
+      if (reason !== undefined && !['duplicate', 'fraudulent', 'requested_by_customer'].includes(reason)) {
+        return res.status(400).json({ error: 'Invalid reason' });
+      }
+
+      const refund = await stripeService.refundPayment(
+        req.params.paymentId,
+        { amount, reason },
+        AuditService.contextFromRequest(req)
+      );
+
+      const payment = await prisma.payment.findUnique({
+        where: { id: req.params.paymentId }
+      });
+
+      return res.json({
+        message: 'Payment refunded',
+        refund: { id: refund.id, amount: refund.amount / 100, status: refund.status },
+        payment: payment && {
+          ...payment,
+          amount: payment.amount / 100, // Convert from cents
+          refundedAmount: payment.refundedAmount / 100
+        }
+      });
+    } catch (error: any) {
+      logger.error('Admin refund error', error);
+      if (error.message === 'Payment not found') {
+        return res.status(404).json({ error: error.message });
+      }
+      return res.status(400).json({ error: error.message });
+    }
+  });
+
   // Conversion analytics
-  router.get('/analytics/conversions', async (req, res) => {
+  router.get('/analytics/conversions', requirePermission(Permission.ANALYTICS_READ), async (req, res) => {
     try {
       const days = parseInt(req.query.days as string) || 30;
       const startDate = new Date();
@@ -365,8 +688,80 @@ export function createAdminRoutes(): Router {
     }
   });
 
+  // Churn reasons and retention offer outcomes
+  router.get('/analytics/churn', requirePermission(Permission.ANALYTICS_READ), async (req, res) => {
+    try {
+      const days = parseInt(req.query.days as string) || 30;
+      const startDate = new Date();
+      startDate.setDate(startDate.getDate() - days);
+
+      const report = await cancellationService.getChurnReport(startDate);
+
+      res.json({
+        ...report,
+        retentionRate: (report.retentionRate * 100).toFixed(2) + '%'
+      });
+    } catch (error) {
+      logger.error('Admin churn analytics error', error);
+      res.status(500).json({ error: 'Failed to load churn analytics' });
+    }
+  });
+
+  // Failed renewal payments: recovered versus lost revenue
+  router.get('/analytics/dunning', requirePermission(Permission.BILLING_READ), async (req, res) => {
+    try {
+      const days = parseInt(req.query.days as string) || 30;
+      const startDate = new Date();
+      startDate.setDate(startDate.getDate() - days);
+
+      const report = await dunningService.getRecoveryReport(startDate);
+
+      res.json({
+        ...report,
+        recoveryRate: (report.recoveryRate * 100).toFixed(2) + '%',
+        revenue: report.revenue.map(stats => ({
+          currency: stats.currency,
+          atRisk: stats.atRisk / 100, // Convert from cents
+          recovered: stats.recovered / 100,
+          lost: stats.lost / 100
+        }))
+      });
+    } catch (error) {
+      logger.error('Admin dunning analytics error', error);
+      res.status(500).json({ error: 'Failed to load dunning analytics' });
+    }
+  });
+
+  // Dunning cases (failed renewal invoices), newest first
+  router.get('/dunning', requirePermission(Permission.BILLING_READ), async (req, res) => {
+    try {
+      const page = parseInt(req.query.page as string) || 1;
+      const limit = Math.min(parseInt(req.query.limit as string) || 50, 500);
+
+      const { cases, total } = await dunningService.list({
+        status: req.query.status as string,
+        userId: req.query.userId as string,
+        page,
+        limit
+      });
+
+      res.json({
+        cases,
+        pagination: {
+          page,
+          limit,
+          total,
+          pages: Math.ceil(total / limit)
+        }
+      });
+    } catch (error) {
+      logger.error('Admin dunning list error', error);
+      res.status(500).json({ error: 'Failed to load dunning cases' });
+    }
+  });
+
   // System logs
-  router.get('/logs', async (req, res) => {
+  router.get('/logs', requirePermission(Permission.LOGS_READ), async (req, res) => {
     try {
       const limit = parseInt(req.query.limit as string) || 100;
       const level = req.query.level as string;
@@ -390,10 +785,14 @@ export function createAdminRoutes(): Router {
   });
 
   // Retry failed tracking events
-  router.post('/tracking/retry', async (req, res) => {
+  router.post('/tracking/retry', requirePermission(Permission.TRACKING_RETRY), async (req: AuthRequest, res) => {
     try {
       const { keitaroService } = await import('../analytics');
       await keitaroService.retryFailedPostbacks();
+
+      await AuditService.record(AuditService.contextFromRequest(req), {
+        action: AuditAction.ADMIN_TRACKING_RETRY
+      });
       
       res.json({ message: 'Retry process started' });
     } catch (error) {
@@ -402,8 +801,95 @@ export function createAdminRoutes(): Router {
     }
   });
 
+  // ===== Webhooks =====
+
+  // Stored webhook events and their processing status
+  router.get('/webhooks', requirePermission(Permission.LOGS_READ), async (req, res) => {
+    try {
+      const page = parseInt(req.query.page as string) || 1;
+      const limit = Math.min(parseInt(req.query.limit as string) || 50, 500);
+
+      const { events, total, counts } = await webhookQueue.list({
+        status: req.query.status as string,
+        eventType: req.query.eventType as string,
+        page,
+        limit
+      });
+
+      res.json({
+        events,
+        counts,
+        pagination: {
+          page,
+          limit,
+          total,
+          pages: Math.ceil(total / limit)
+        }
+      });
+    } catch (error) {
+      logger.error('Admin webhooks list error', error);
+      res.status(500).json({ error: 'Failed to load webhook events' });
+    }
+  });
+
+  // Replay a batch of events (dead events by default); the worker processes them
+  router.post('/webhooks/replay', requirePermission(Permission.WEBHOOKS_REPLAY), async (req: AuthRequest, res) => {
+    try {
+      const { status, eventType, from, to, limit } = req.body;
+
+      if (status && !Object.values(WebhookEventStatus).includes(status)) {
+        return res.status(400).json({ error: 'Unknown webhook event status' });
+      }
+
+      const filters = {
+        status,
+        eventType,
+        from: from ? new Date(from) : undefined,
+        to: to ? new Date(to) : undefined,
+        limit: limit ? parseInt(limit) : undefined
+      };
+      const queued = await webhookQueue.replayBatch(filters);
+
+      await AuditService.record(AuditService.contextFromRequest(req), {
+        action: AuditAction.ADMIN_WEBHOOK_REPLAY,
+        targetType: 'webhook_event',
+        metadata: { filters, queued }
+      });
+
+      return res.json({ queued });
+    } catch (error) {
+      logger.error('Admin webhook batch replay error', error);
+      return res.status(500).json({ error: 'Failed to replay webhook events' });
+    }
+  });
+
+  // Replay one event now
+  router.post('/webhooks/:eventId/replay', requirePermission(Permission.WEBHOOKS_REPLAY), async (req: AuthRequest, res) => {
+    try {
+      const event = await webhookQueue.replay(req.params.eventId);
+
+      await AuditService.record(AuditService.contextFromRequest(req), {
+        action: AuditAction.ADMIN_WEBHOOK_REPLAY,
+        targetType: 'webhook_event',
+        targetId: event.id,
+        metadata: { eventId: event.eventId, eventType: event.eventType, status: event.status }
+      });
+
+      return res.json({ event });
+    } catch (error: any) {
+      logger.error('Admin webhook replay error', error);
+      if (error.message === 'Webhook event not found') {
+        return res.status(404).json({ error: error.message });
+      }
+      if (error.message === 'Webhook event is being processed') {
+        return res.status(409).json({ error: error.message });
+      }
+      return res.status(500).json({ error: 'Failed to replay webhook event' });
+    }
+  });
+
   // Export data
-  router.get('/export/users', async (req, res) => {
+  router.get('/export/users', requirePermission(Permission.USERS_READ), async (req, res) => {
     try {
       const users = await prisma.user.findMany({
         select: {
@@ -433,6 +919,560 @@ export function createAdminRoutes(): Router {
     }
   });
 
+  // ===== Security =====
+
+  // Locked accounts and blocked IPs
+  router.get('/security/lockouts', requirePermission(Permission.USERS_READ), async (_req, res) => {
+    try {
+      const lockouts = await LoginProtectionService.listLockouts();
+      res.json(lockouts);
+    } catch (error) {
+      logger.error('Admin lockouts list error', error);
+      res.status(500).json({ error: 'Failed to load lockouts' });
+    }
+  });
+
+  // Unlock account
+  router.delete('/security/lockouts/users/:userId',
+    requirePermission(Permission.USERS_WRITE),
+    requireTargetWithinPermissions,
+    async (req: AuthRequest, res) => {
+      try {
+        await LoginProtectionService.unlockAccount(req.params.userId, getActorId(req));
+
+        await AuditService.record(AuditService.contextFromRequest(req), {
+          action: AuditAction.ADMIN_ACCOUNT_UNLOCK,
+          targetType: 'user',
+          targetId: req.params.userId
+        });
+        res.json({ message: 'Account unlocked' });
+      } catch (error) {
+        logger.error('Admin unlock account error', error);
+        res.status(500).json({ error: 'Failed to unlock account' });
+      }
+    }
+  );
+
+  // Unblock IP
+  router.delete('/security/lockouts/ips/:ipAddress',
+    requirePermission(Permission.USERS_WRITE),
+    async (req: AuthRequest, res) => {
+      try {
+        await LoginProtectionService.unblockIp(req.params.ipAddress, getActorId(req));
+
+        await AuditService.record(AuditService.contextFromRequest(req), {
+          action: AuditAction.ADMIN_IP_UNBLOCK,
+          targetType: 'ip',
+          targetId: req.params.ipAddress
+        });
+        res.json({ message: 'IP unblocked' });
+      } catch (error) {
+        logger.error('Admin unblock IP error', error);
+        res.status(500).json({ error: 'Failed to unblock IP' });
+      }
+    }
+  );
+
+  // Security audit trail
+  router.get('/security/events', requirePermission(Permission.USERS_READ), async (req, res) => {
+    try {
+      const page = parseInt(req.query.page as string) || 1;
+      const limit = parseInt(req.query.limit as string) || 50;
+
+      const { events, total } = await SecurityEventService.list({
+        type: req.query.type as string,
+        userId: req.query.userId as string,
+        ipAddress: req.query.ipAddress as string,
+        page,
+        limit
+      });
+
+      res.json({
+        events,
+        pagination: {
+          page,
+          limit,
+          total,
+          pages: Math.ceil(total / limit)
+        }
+      });
+    } catch (error) {
+      logger.error('Admin security events error', error);
+      res.status(500).json({ error: 'Failed to load security events' });
+    }
+  });
+
+  // ===== Audit Log =====
+
+  // Query audit log
+  router.get('/audit', requirePermission(Permission.AUDIT_READ), async (req, res) => {
+    try {
+      const page = parseInt(req.query.page as string) || 1;
+      const limit = Math.min(parseInt(req.query.limit as string) || 50, 500);
+
+      const { entries, total } = await AuditService.list({
+        actorId: req.query.actorId as string,
+        action: req.query.action as string,
+        targetType: req.query.targetType as string,
+        targetId: req.query.targetId as string,
+        requestId: req.query.requestId as string,
+        from: req.query.from ? new Date(req.query.from as string) : undefined,
+        to: req.query.to ? new Date(req.query.to as string) : undefined,
+        page,
+        limit
+      });
+
+      res.json({
+        entries,
+        pagination: {
+          page,
+          limit,
+          total,
+          pages: Math.ceil(total / limit)
+        }
+      });
+    } catch (error) {
+      logger.error('Admin audit log error', error);
+      res.status(500).json({ error: 'Failed to load audit log' });
+    }
+  });
+
+  // ===== Promo Codes =====
+
+  // List promo codes
+  router.get('/promo-codes', requirePermission(Permission.BILLING_READ), async (req, res) => {
+    try {
+      const promoCodes = await prisma.promoCode.findMany({
+        where: req.query.includeInactive === 'true' ? {} : { active: true },
+        orderBy: { createdAt: 'desc' }
+      });
+
+      // Redemptions and discount given, from recorded payments
+      const usage = await prisma.payment.groupBy({
+        by: ['promoCode'],
+        where: { promoCode: { in: promoCodes.map(p => p.code) } },
+        _sum: { discountAmount: true },
+        _count: true
+      });
+
+      res.json({
+        promoCodes: promoCodes.map(p => {
+          const stats = usage.find(u => u.promoCode === p.code);
+          return {
+            ...p,
+            amountOff: p.amountOff !== null ? p.amountOff / 100 : null, // Convert from cents
+            payments: stats?._count || 0,
+            totalDiscount: (stats?._sum.discountAmount || 0) / 100
+          };
+        })
+      });
+    } catch (error) {
+      logger.error('Admin promo codes list error', error);
+      res.status(500).json({ error: 'Failed to load promo codes' });
+    }
+  });
+
+  // Create promo code (amountOff in cents)
+  router.post('/promo-codes', requirePermission(Permission.BILLING_WRITE), async (req: AuthRequest, res) => {
+    try {
+      const {
+        code,
+        percentOff,
+        amountOff,
+        currency,
+        duration,
+        durationInMonths,
+        plans,
+        maxRedemptions,
+        firstTimeOnly,
+        expiresAt
+      } = req.body;
+
+      if (!code || !['once', 'repeating', 'forever'].includes(duration)) {
+        return res.status(400).json({ error: 'code and duration (once, repeating or forever) are required' });
+      }
+
+      const promoCode = await stripeService.createPromoCode({
+        code,
+        percentOff,
+        amountOff,
+        currency,
+        duration,
+        durationInMonths,
+        plans,
+        maxRedemptions,
+        firstTimeOnly,
+        expiresAt: expiresAt ? new Date(expiresAt) : undefined,
+        createdBy: getActorId(req)
+      });
+
+      await AuditService.record(AuditService.contextFromRequest(req), {
+        action: AuditAction.ADMIN_PROMO_CODE_CREATE,
+        targetType: 'promo_code',
+        targetId: promoCode.id,
+        metadata: {
+          code: promoCode.code,
+          percentOff: promoCode.percentOff,
+          amountOff: promoCode.amountOff,
+          currency: promoCode.currency,
+          duration: promoCode.duration,
+          plans: promoCode.plans
+        }
+      });
+
+      return res.status(201).json({ promoCode });
+    } catch (error: any) {
+      logger.error('Admin promo code create error', error);
+      return res.status(400).json({ error: error.message });
+    }
+  });
+
+  // Update promo code (active flag and plans)
+  router.put('/promo-codes/:promoCodeId', requirePermission(Permission.BILLING_WRITE), async (req: AuthRequest, res) => {
+    try {
+      const { active, plans } = req.body;
+
+      const before = await prisma.promoCode.findUnique({
+        where: { id: req.params.promoCodeId }
+      });
+
+      const promoCode = await stripeService.updatePromoCode(req.params.promoCodeId, { active, plans });
+
+      await AuditService.record(AuditService.contextFromRequest(req), {
+        action: AuditAction.ADMIN_PROMO_CODE_UPDATE,
+        targetType: 'promo_code',
+        targetId: promoCode.id,
+        changes: AuditService.diff(before, promoCode, ['active', 'plans'])
+      });
+
+      return res.json({ promoCode });
+    } catch (error: any) {
+      logger.error('Admin promo code update error', error);
+      if (error.message === 'Promo code not found') {
+        return res.status(404).json({ error: error.message });
+      }
+      return res.status(400).json({ error: error.message });
+    }
+  });
+
+  // Delete promo code (deactivated in Stripe; kept locally for payment history)
+  router.delete('/promo-codes/:promoCodeId', requirePermission(Permission.BILLING_WRITE), async (req: AuthRequest, res) => {
+    try {
+      const promoCode = await stripeService.deletePromoCode(req.params.promoCodeId);
+
+      await AuditService.record(AuditService.contextFromRequest(req), {
+        action: AuditAction.ADMIN_PROMO_CODE_DELETE,
+        targetType: 'promo_code',
+        targetId: promoCode.id,
+        metadata: { code: promoCode.code }
+      });
+
+      return res.json({ message: 'Promo code deleted' });
+    } catch (error: any) {
+      logger.error('Admin promo code delete error', error);
+      if (error.message === 'Promo code not found') {
+        return res.status(404).json({ error: error.message });
+      }
+      return res.status(500).json({ error: 'Failed to delete promo code' });
+    }
+  });
+
+  // ===== API Keys =====
+
+  // List API keys
+  router.get('/api-keys', requirePermission(Permission.API_KEYS_MANAGE), async (req, res) => {
+    try {
+      const apiKeys = await ApiKeyService.list(req.query.includeRevoked === 'true');
+      res.json({ apiKeys });
+    } catch (error) {
+      logger.error('Admin API keys list error', error);
+      res.status(500).json({ error: 'Failed to load API keys' });
+    }
+  });
+
+  // Create API key (the key is only shown in this response)
+  router.post('/api-keys', requirePermission(Permission.API_KEYS_MANAGE), async (req: AuthRequest, res) => {
+    try {
+      const { name, scopes, expiresAt } = req.body;
+
+      if (!name || !Array.isArray(scopes)) {
+        return res.status(400).json({ error: 'name and scopes are required' });
+      }
+
+      // Keys can't be given more access than their creator has
+      const notGranted = scopes.filter((scope: string) =>
+        RbacService.isPermission(scope) && !RbacService.hasPermission(req.permissions!, scope)
+      );
+      if (notGranted.length > 0) {
+        return res.status(403).json({ error: 'Cannot grant scopes you do not have', scopes: notGranted });
+      }
+
+      const { apiKey, key } = await ApiKeyService.create({
+        name,
+        scopes,
+        createdBy: getActorId(req),
+        expiresAt: expiresAt ? new Date(expiresAt) : undefined
+      });
+
+      await AuditService.record(AuditService.contextFromRequest(req), {
+        action: AuditAction.ADMIN_API_KEY_CREATE,
+        targetType: 'api_key',
+        targetId: apiKey.id,
+        metadata: { name, prefix: apiKey.prefix, scopes, expiresAt: apiKey.expiresAt }
+      });
+
+      return res.status(201).json({ apiKey, key });
+    } catch (error: any) {
+      logger.error('Admin API key create error', error);
+      return res.status(400).json({ error: error.message });
+    }
+  });
+
+  // Revoke API key
+  router.delete('/api-keys/:keyId', requirePermission(Permission.API_KEYS_MANAGE), async (req: AuthRequest, res) => {
+    try {
+      const revoked = await ApiKeyService.revoke(req.params.keyId, getActorId(req));
+      if (!revoked) {
+        return res.status(404).json({ error: 'API key not found' });
+      }
+
+      await AuditService.record(AuditService.contextFromRequest(req), {
+        action: AuditAction.ADMIN_API_KEY_REVOKE,
+        targetType: 'api_key',
+        targetId: req.params.keyId
+      });
+
+      return res.json({ message: 'API key revoked' });
+    } catch (error) {
+      logger.error('Admin API key revoke error', error);
+      return res.status(500).json({ error: 'Failed to revoke API key' });
+    }
+  });
+
+  // ===== Roles & Permissions =====
+
+  // List roles
+  router.get('/roles', requirePermission(Permission.ROLES_MANAGE), async (_req, res) => {
+    try {
+      const roles = await prisma.role.findMany({
+        orderBy: { name: 'asc' },
+        include: {
+          _count: {
+            select: { users: true }
+          }
+        }
+      });
+
+      res.json({
+        roles,
+        permissions: Object.values(Permission)
+      });
+    } catch (error) {
+      logger.error('Admin roles list error', error);
+      res.status(500).json({ error: 'Failed to load roles' });
+    }
+  });
+
+  // Create role
+  router.post('/roles', requirePermission(Permission.ROLES_MANAGE), async (req: AuthRequest, res) => {
+    try {
+      const { name, description, permissions } = req.body;
+
+      if (!name || !Array.isArray(permissions)) {
+        return res.status(400).json({ error: 'Name and permissions are required' });
+      }
+
+      const invalid = permissions.filter((p: string) => !RbacService.isPermission(p));
+      if (invalid.length > 0) {
+        return res.status(400).json({ error: 'Unknown permissions', invalid });
+      }
+
+      const notGranted = permissionsNotHeld(req, permissions);
+      if (notGranted.length > 0) {
+        return res.status(403).json({ error: 'Cannot grant permissions you do not have', permissions: notGranted });
+      }
+
+      const role = await prisma.role.create({
+        data: { name, description, permissions }
+      });
+
+      await AuditService.record(AuditService.contextFromRequest(req), {
+        action: AuditAction.ADMIN_ROLE_CREATE,
+        targetType: 'role',
+        targetId: role.id,
+        changes: AuditService.diff(null, role, ['name', 'description', 'permissions'])
+      });
+
+      return res.status(201).json({ role });
+    } catch (error) {
+      logger.error('Admin create role error', error);
+      return res.status(500).json({ error: 'Failed to create role' });
+    }
+  });
+
+  // Update role
+  router.put('/roles/:roleId', requirePermission(Permission.ROLES_MANAGE), async (req: AuthRequest, res) => {
+    try {
+      const { description, permissions } = req.body;
+
+      if (permissions !== undefined) {
+        if (!Array.isArray(permissions)) {
+          return res.status(400).json({ error: 'Permissions must be an array' });
+        }
+
+        const invalid = permissions.filter((p: string) => !RbacService.isPermission(p));
+        if (invalid.length > 0) {
+          return res.status(400).json({ error: 'Unknown permissions', invalid });
+        }
+      }
+
+      const before = await prisma.role.findUnique({
+        where: { id: req.params.roleId }
+      });
+
+      if (!before) {
+        return res.status(404).json({ error: 'Role not found' });
+      }
+
+      // Neither a role with more access than the admin's nor the access it grants can be changed
+      const notGranted = permissionsNotHeld(req, [...before.permissions, ...(permissions || [])]);
+      if (notGranted.length > 0) {
+        return res.status(403).json({ error: 'Cannot grant permissions you do not have', permissions: notGranted });
+      }
+
+      const role = await prisma.role.update({
+        where: { id: req.params.roleId },
+        data: {
+          description,
+          permissions
+        }
+      });
+
+      await AuditService.record(AuditService.contextFromRequest(req), {
+        action: AuditAction.ADMIN_ROLE_UPDATE,
+        targetType: 'role',
+        targetId: role.id,
+        changes: AuditService.diff(before, role, ['description', 'permissions']),
+        metadata: { name: role.name }
+      });
+
+      return res.json({ role });
+    } catch (error) {
+      logger.error('Admin update role error', error);
+      return res.status(500).json({ error: 'Failed to update role' });
+    }
+  });
+
+  // Delete role
+  router.delete('/roles/:roleId', requirePermission(Permission.ROLES_MANAGE), async (req: AuthRequest, res: Response) => {
+    try {
+      const existing = await prisma.role.findUnique({
+        where: { id: req.params.roleId }
+      });
+
+      if (!existing) {
+        return res.status(404).json({ error: 'Role not found' });
+      }
+
+      const notGranted = permissionsNotHeld(req, existing.permissions);
+      if (notGranted.length > 0) {
+        return res.status(403).json({ error: 'Cannot change a role with permissions you do not have', permissions: notGranted });
+      }
+
+      const role = await prisma.role.delete({
+        where: { id: req.params.roleId }
+      });
+
+      await AuditService.record(AuditService.contextFromRequest(req), {
+        action: AuditAction.ADMIN_ROLE_DELETE,
+        targetType: 'role',
+        targetId: role.id,
+        changes: AuditService.diff(role, null, ['name', 'description', 'permissions'])
+      });
+
+      return res.json({ message: 'Role deleted successfully' });
+    } catch (error) {
+      logger.error('Admin delete role error', error);
+      return res.status(500).json({ error: 'Failed to delete role' });
+    }
+  });
+
+  // Assign role to user
+  router.post('/users/:userId/roles',
+    requirePermission(Permission.ROLES_MANAGE),
+    async (req: AuthRequest, res) => {
+      try {
+        const { role } = req.body;
+
+        if (!role) {
+          return res.status(400).json({ error: 'Role is required' });
+        }
+
+        if (isOwnRoleChange(req, req.params.userId)) {
+          return res.status(403).json({ error: 'Cannot change your own roles' });
+        }
+
+        const existing = await prisma.role.findUnique({ where: { name: role } });
+        if (!existing) {
+          return res.status(404).json({ error: 'Role not found' });
+        }
+
+        const notGranted = permissionsNotHeld(req, existing.permissions);
+        if (notGranted.length > 0) {
+          return res.status(403).json({ error: 'Cannot grant permissions you do not have', permissions: notGranted });
+        }
+
+        await RbacService.assignRole(req.params.userId, role, getActorId(req));
+
+        await AuditService.record(AuditService.contextFromRequest(req), {
+          action: AuditAction.ADMIN_ROLE_ASSIGN,
+          targetType: 'user',
+          targetId: req.params.userId,
+          metadata: { role }
+        });
+
+        return res.json({ message: 'Role assigned' });
+      } catch (error: any) {
+        logger.error('Admin assign role error', error);
+        const status = error.message === 'Role not found' ? 404 : 500;
+        return res.status(status).json({ error: error.message || 'Failed to assign role' });
+      }
+    }
+  );
+
+  // Remove role from user
+  router.delete('/users/:userId/roles/:role',
+    requirePermission(Permission.ROLES_MANAGE),
+    async (req: AuthRequest, res: Response) => {
+      try {
+        if (isOwnRoleChange(req, req.params.userId)) {
+          return res.status(403).json({ error: 'Cannot change your own roles' });
+        }
+
+        // Admins with less access can't demote admins with more
+        const existing = await prisma.role.findUnique({ where: { name: req.params.role } });
+        const notGranted = permissionsNotHeld(req, existing?.permissions || []);
+        if (notGranted.length > 0) {
+          return res.status(403).json({ error: 'Cannot change a role with permissions you do not have', permissions: notGranted });
+        }
+
+        await RbacService.removeRole(req.params.userId, req.params.role);
+
+        await AuditService.record(AuditService.contextFromRequest(req), {
+          action: AuditAction.ADMIN_ROLE_REMOVE,
+          targetType: 'user',
+          targetId: req.params.userId,
+          metadata: { role: req.params.role }
+        });
+        return res.json({ message: 'Role removed' });
+      } catch (error: any) {
+        logger.error('Admin remove role error', error);
+        const status = error.message === 'Role not found' ? 404 : 500;
+        return res.status(status).json({ error: error.message || 'Failed to remove role' });
+      }
+    }
+  );
+
   return router;
 }
 
@@ -36,8 +36,14 @@ export enum TrackingEventType {
   REGISTRATION = 'registration',
   PURCHASE = 'purchase',
   SUBSCRIPTION_START = 'subscription_start',
+  TRIAL_CONVERSION = 'trial_conversion',
+  REFUND = 'refund',
+  UPSELL = 'upsell',
   SUBSCRIPTION_RENEWAL = 'subscription_renewal',
   SUBSCRIPTION_CANCEL = 'subscription_cancel',
+  SUBSCRIPTION_REACTIVATE = 'subscription_reactivate',
+  SUBSCRIPTION_PAUSE = 'subscription_pause',
+  SUBSCRIPTION_RESUME = 'subscription_resume',
   CUSTOM = 'custom'
 }
 
@@ -67,6 +73,10 @@ export interface AnalyticsConfig {
     statuses: {
       registration: string;
       purchase: string;
+      trialConversion: string;
+      refund: string;
+      reject: string;
+      upsell: string;
     };
   };
 }
@@ -105,9 +105,16 @@ export class KeitaroService {
   }
 
   /**
-   * Track registration event
+   * Track a conversion: store the tracking event and send the postback.
+   * Amounts are in cents (sent to Keitaro in dollars). Failed postbacks are retried by retryFailedPostbacks.
    */
-  async trackRegistration(userId: string, clickId?: string): Promise<void> {
+  async trackConversion(
+    userId: string,
+    eventType: string,
+    status: string,
+    options: { amount?: number; currency?: string; clickId?: string; metadata?: any } = {}
+  ): Promise<void> {
+    let clickId = options.clickId;
     if (!clickId) {
       // Try to get click ID from user record
       const user = await prisma.user.findUnique({
@@ -118,27 +125,32 @@ export class KeitaroService {
     }
 
     if (!clickId) {
-      logger.info('No click ID for registration tracking', { userId });
+      logger.info(`No click ID for ${eventType} tracking`, { userId, amount: options.amount });
       return;
     }
 
     // Log the tracking event
-    logKeitaroEvent('registration', { userId, clickId });
+    logKeitaroEvent(eventType, { userId, clickId, amount: options.amount, currency: options.currency });
 
     // Store tracking event in database
     const trackingEvent = await prisma.trackingEvent.create({
       data: {
         userId,
-        eventType: 'registration',
+        eventType,
         subId: clickId,
-        status: config.keitaro.statuses.registration
+        status,
+        amount: options.amount !== undefined ? Math.round(options.amount) : undefined, // Amount in cents
+        currency: options.currency,
+        metadata: options.metadata
       }
     });
 
     // Send postback
     const success = await this.sendPostback(
       clickId,
-      config.keitaro.statuses.registration
+      status,
+      options.amount !== undefined ? options.amount / 100 : undefined, // Convert cents to dollars
+      options.currency
     );
 
     // Update tracking event
@@ -151,6 +163,13 @@ export class KeitaroService {
     });
   }
 
+  /**
+   * Track registration event
+   */
+  async trackRegistration(userId: string, clickId?: string): Promise<void> {
+    await this.trackConversion(userId, 'registration', config.keitaro.statuses.registration, { clickId });
+  }
+
   /**
    * Track purchase/subscription event
    */
@@ -160,52 +179,83 @@ export class KeitaroService {
     currency: string = 'USD',
     clickId?: string
   ): Promise<void> {
-    if (!clickId) {
-      // Try to get click ID from user record
-      const user = await prisma.user.findUnique({
-        where: { id: userId },
-        select: { keitaroSubId: true }
-      });
-      clickId = user?.keitaroSubId || undefined;
-    }
+    await this.trackConversion(userId, 'purchase', config.keitaro.statuses.purchase, {
+      amount,
+      currency,
+      clickId
+    });
+  }
 
-    if (!clickId) {
-      logger.info('No click ID for purchase tracking', { userId, amount });
-      return;
-    }
+  /**
+   * Track the first payment after a free trial (distinct status from the initial sale)
+   */
+  async trackTrialConversion(
+    userId: string,
+    amount: number,
+    currency: string = 'USD',
+    metadata?: any
+  ): Promise<void> {
+    await this.trackConversion(userId, 'trial_conversion', config.keitaro.statuses.trialConversion, {
+      amount,
+      currency,
+      metadata
+    });
+  }
 
-    // Log the tracking event
-    logKeitaroEvent('purchase', { userId, clickId, amount, currency });
+  /**
+   * Track a move to a more expensive plan (amount in cents: what the change adds)
+   */
+  async trackUpsell(
+    userId: string,
+    amount: number,
+    currency: string = 'USD',
+    metadata?: any
+  ): Promise<void> {
+    await this.trackConversion(userId, 'upsell', config.keitaro.statuses.upsell, {
+      amount,
+      currency,
+      metadata
+    });
+  }
 
-    // Store tracking event in database
-    const trackingEvent = await prisma.trackingEvent.create({
-      data: {
-        userId,
-        eventType: 'purchase',
-        subId: clickId,
-        status: config.keitaro.statuses.purchase,
-        amount: Math.round(amount), // Amount in cents
-        currency
-      }
+  /**
+   * Track a refund or lost chargeback as a negative payout (amount in cents).
+   * Once the whole purchase is gone the reject status is sent instead of the refund status.
+   */
+  async trackRefund(
+    userId: string,
+    amount: number,
+    currency: string = 'USD',
+    options: { fullRefund: boolean; clickId?: string; metadata?: any }
+  ): Promise<void> {
+    const status = options.fullRefund ? config.keitaro.statuses.reject : config.keitaro.statuses.refund;
+
+    await this.trackConversion(userId, 'refund', status, {
+      amount: -amount,
+      currency,
+      clickId: options.clickId,
+      metadata: options.metadata
     });
+  }
 
-    // Convert amount to dollars for Keitaro (from cents)
-    const amountInDollars = amount / 100;
+  /**
+   * Record a subscription lifecycle event (cancel, reactivate, pause, resume).
+   * These are stored for analytics only; no postback is sent.
+   */
+  async trackSubscriptionEvent(userId: string, eventType: string, metadata?: any): Promise<void> {
+    const user = await prisma.user.findUnique({
+      where: { id: userId },
+      select: { keitaroSubId: true }
+    });
 
-    // Send postback
-    const success = await this.sendPostback(
-      clickId,
-      config.keitaro.statuses.purchase,
-      amountInDollars,
-      currency
-    );
+    logKeitaroEvent(eventType, { userId, clickId: user?.keitaroSubId, metadata });
 
-    // Update tracking event
-    await prisma.trackingEvent.update({
-      where: { id: trackingEvent.id },
+    await prisma.trackingEvent.create({
       data: {
-        sentToTracker: success,
-        sentAt: success ? new Date() : null
+        userId,
+        eventType,
+        subId: user?.keitaroSubId,
+        metadata: metadata || {}
       }
     });
   }
@@ -242,33 +292,28 @@ export class KeitaroService {
     const failedEvents = await prisma.trackingEvent.findMany({
       where: {
         sentToTracker: false,
+        // Events without a postback status or click ID (subscription and custom events) are only stored
+        subId: { not: null },
+        status: { not: null },
         createdAt: {
           gte: new Date(Date.now() - 24 * 60 * 60 * 1000) // Last 24 hours
         }
       },
+      orderBy: { createdAt: 'asc' },
       take: 100 // Process 100 at a time
     });
 
     logger.info(`Retrying ${failedEvents.length} failed postbacks`);
 
     for (const event of failedEvents) {
-      if (!event.subId) continue;
-
-      let success = false;
-
-      if (event.eventType === 'registration') {
-        success = await this.sendPostback(
-          event.subId,
-          event.status || config.keitaro.statuses.registration
-        );
-      } else if (event.eventType === 'purchase' && event.amount) {
-        success = await this.sendPostback(
-          event.subId,
-          event.status || config.keitaro.statuses.purchase,
-          event.amount / 100, // Convert cents to dollars
-          event.currency || 'USD'
-        );
-      }
+      if (!event.subId || !event.status) continue;
+
+      const success = await this.sendPostback(
+        event.subId,
+        event.status,
+        event.amount !== null ? event.amount / 100 : undefined, // Convert cents to dollars
+        event.currency || undefined
+      );
 
       if (success) {
         await prisma.trackingEvent.update({
@@ -4,6 +4,8 @@ import { Express, Request, Response, NextFunction } from 'express';
 import { createApiRoutes } from './routes';
 import { createAdminRoutes } from '../admin';
 import { KeitaroService } from '../analytics';
+import { config } from '../config';
+import { stripeEmulator } from '../payment';
 
 /**
  * Setup API routes and middleware for the application
@@ -12,6 +14,24 @@ export function setupApi(app: Express): void {
   // Add Keitaro tracking middleware
   app.use(KeitaroService.trackingMiddleware());
 
+  // Checkout page of the Stripe emulator: pays the session, then goes to success_url
+  // (or cancel_url if the payment failed). ?paymentMethod= picks a test card.
+  if (config.stripe.emulator) {
+    app.get('/stripe-emulator/checkout/:sessionId', async (req: Request, res: Response) => {
+      try {
+        const session = await stripeEmulator.completeCheckoutSession(
+          req.params.sessionId,
+          req.query.paymentMethod as string | undefined
+        );
+
+        const url = session.status === 'complete' ? session.success_url : session.cancel_url;
+        res.redirect((url || config.app.url).replace('{CHECKOUT_SESSION_ID}', session.id));
+      } catch (error: any) {
+        res.status(error.code === 'resource_missing' ? 404 : 409).send(error.message);
+      }
+    });
+  }
+
   // Mount API routes
   app.use('/api', createApiRoutes());
 
@@ -132,20 +152,74 @@ export const apiDocs = {
       register: 'POST /auth/register',
       login: 'POST /auth/login',
       logout: 'POST /auth/logout',
-      me: 'GET /auth/me'
+      refresh: 'POST /auth/refresh',
+      me: 'GET /auth/me',
+      twoFactor: {
+        verify: 'POST /auth/2fa/verify',
+        setup: 'POST /auth/2fa/setup',
+        enable: 'POST /auth/2fa/enable',
+        disable: 'POST /auth/2fa/disable',
+        recoveryCodes: 'POST /auth/2fa/recovery-codes'
+      },
+      sessions: {
+        list: 'GET /auth/sessions',
+        revokeOthers: 'DELETE /auth/sessions',
+        revoke: 'DELETE /auth/sessions/:sessionId'
+      },
+      magicLink: {
+        request: 'POST /auth/magic-link',
+        verify: 'POST /auth/magic-link/verify'
+      },
+      setPassword: 'POST /auth/password',
+      oauth: {
+        providers: 'GET /auth/oauth/providers',
+        start: 'GET /auth/oauth/:provider',
+        callback: 'GET|POST /auth/oauth/:provider/callback',
+        accounts: 'GET /auth/accounts',
+        unlink: 'DELETE /auth/accounts/:provider'
+      },
+      forgotPassword: 'POST /auth/forgot-password',
+      resetPassword: 'POST /auth/reset-password',
+      verifyEmail: 'POST /auth/verify-email',
+      confirmEmailChange: 'POST /auth/confirm-email',
+      resendVerification: 'POST /auth/verify-email/resend'
+    },
+    plans: {
+      list: 'GET /plans'
+    },
+    products: {
+      list: 'GET /products'
+    },
+    upsells: {
+      list: 'GET /upsells',
+      charge: 'POST /upsells/:product'
+    },
+    promo: {
+      validate: 'POST /promo/validate'
     },
     subscription: {
       checkout: 'POST /subscription/checkout',
       create: 'POST /subscription/create',
+      change: 'POST /subscription/change',
+      cancelChange: 'DELETE /subscription/change',
       cancel: 'POST /subscription/cancel',
+      cancelStart: 'POST /subscription/cancel/start',
+      cancelAccept: 'POST /subscription/cancel/:cancellationId/accept',
+      cancelConfirm: 'POST /subscription/cancel/:cancellationId/confirm',
+      reactivate: 'POST /subscription/reactivate',
+      pause: 'POST /subscription/pause',
+      resume: 'POST /subscription/resume',
       status: 'GET /subscription/status',
-      portal: 'POST /subscription/portal'
+      portal: 'POST /subscription/portal',
+      updatePaymentMethod: 'POST /subscription/payment-method/update'
     },
     payment: {
       intent: 'POST /payment/intent',
-      history: 'GET /payment/history'
+      history: 'GET /payment/history',
+      orders: 'GET /orders'
     },
     user: {
+      entitlements: 'GET /me/entitlements',
       profile: 'PUT /user/profile',
       delete: 'DELETE /user/account'
     },
@@ -158,18 +232,61 @@ export const apiDocs = {
         list: 'GET /admin/users',
         details: 'GET /admin/users/:userId',
         updateSubscription: 'PUT /admin/users/:userId/subscription',
+        reactivateSubscription: 'POST /admin/users/:userId/subscription/reactivate',
+        pauseSubscription: 'POST /admin/users/:userId/subscription/pause',
+        resumeSubscription: 'POST /admin/users/:userId/subscription/resume',
+        reconcile: 'POST /admin/users/:userId/reconcile',
+        resetUsage: 'DELETE /admin/users/:userId/usage',
+        impersonate: 'POST /admin/users/:userId/impersonate',
         delete: 'DELETE /admin/users/:userId'
       },
       analytics: {
         payments: 'GET /admin/analytics/payments',
-        conversions: 'GET /admin/analytics/conversions'
+        conversions: 'GET /admin/analytics/conversions',
+        churn: 'GET /admin/analytics/churn',
+        dunning: 'GET /admin/analytics/dunning'
+      },
+      dunning: 'GET /admin/dunning',
+      payments: {
+        refund: 'POST /admin/payments/:paymentId/refund'
+      },
+      promoCodes: {
+        list: 'GET /admin/promo-codes',
+        create: 'POST /admin/promo-codes',
+        update: 'PUT /admin/promo-codes/:promoCodeId',
+        delete: 'DELETE /admin/promo-codes/:promoCodeId'
       },
       logs: 'GET /admin/logs',
       tracking: {
         retry: 'POST /admin/tracking/retry'
       },
+      webhooks: {
+        list: 'GET /admin/webhooks',
+        replay: 'POST /admin/webhooks/:eventId/replay',
+        replayBatch: 'POST /admin/webhooks/replay'
+      },
       export: {
         users: 'GET /admin/export/users'
+      },
+      audit: 'GET /admin/audit',
+      apiKeys: {
+        list: 'GET /admin/api-keys',
+        create: 'POST /admin/api-keys',
+        revoke: 'DELETE /admin/api-keys/:keyId'
+      },
+      security: {
+        lockouts: 'GET /admin/security/lockouts',
+        unlockUser: 'DELETE /admin/security/lockouts/users/:userId',
+        unblockIp: 'DELETE /admin/security/lockouts/ips/:ipAddress',
+        events: 'GET /admin/security/events'
+      },
+      roles: {
+        list: 'GET /admin/roles',
+        create: 'POST /admin/roles',
+        update: 'PUT /admin/roles/:roleId',
+        delete: 'DELETE /admin/roles/:roleId',
+        assign: 'POST /admin/users/:userId/roles',
+        remove: 'DELETE /admin/users/:userId/roles/:role'
       }
     }
   }
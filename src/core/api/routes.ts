@@ -1,8 +1,30 @@
-import { Router } from 'express';
+import { Router, Response } from 'express';
 import { body, validationResult } from 'express-validator';
-import { AuthService, authenticate, requireSubscription, AuthRequest } from '../auth';
-import { stripeService } from '../payment';
+import {
+  AuthService,
+  authenticate,
+  requireSubscription,
+  AuthRequest,
+  AuthTokens,
+  SessionContext,
+  TwoFactorService,
+  LoginProtectionService,
+  OAuthService,
+  blockImpersonation
+} from '../auth';
+import {
+  stripeService,
+  planCatalog,
+  productCatalog,
+  orderService,
+  cancellationService,
+  webhookQueue,
+  dunningService,
+  CancellationReason
+} from '../payment';
 import { keitaroService } from '../analytics';
+import { AuditAction, AuditService } from '../audit';
+import { EntitlementService } from '../entitlements';
 import { prisma } from '../database';
 import { config, getPublicConfig } from '../config';
 import logger from '../../utils/logger';
@@ -22,6 +44,36 @@ export function createApiRoutes(): Router {
     next();
   };
 
+  // Auth cookies: short-lived access token, refresh token only sent to auth routes
+  const setAuthCookies = (res: Response, tokens: AuthTokens) => {
+    const cookieOptions = {
+      httpOnly: true,
+      secure: config.app.env === 'production',
+      sameSite: 'lax' as const
+    };
+
+    res.cookie('token', tokens.token, {
+      ...cookieOptions,
+      maxAge: tokens.expiresAt.getTime() - Date.now()
+    });
+    res.cookie('refresh_token', tokens.refreshToken, {
+      ...cookieOptions,
+      path: '/api/auth',
+      maxAge: tokens.refreshExpiresAt.getTime() - Date.now()
+    });
+  };
+
+  const clearAuthCookies = (res: Response) => {
+    res.clearCookie('token');
+    res.clearCookie('refresh_token', { path: '/api/auth' });
+  };
+
+  // Device info for the session list
+  const getSessionContext = (req: AuthRequest): SessionContext => ({
+    userAgent: req.get('user-agent'),
+    ipAddress: req.ip
+  });
+
   // ===== Public Routes =====
 
   // Get public configuration
@@ -42,6 +94,76 @@ export function createApiRoutes(): Router {
     });
   });
 
+  // Plans for pricing pages (?region=IN or ?currency=eur picks regional prices)
+  router.get('/plans', (req, res) => {
+    res.json({
+      plans: planCatalog.getPublicPlans({
+        region: req.query.region as string,
+        currency: req.query.currency as string
+      })
+    });
+  });
+
+  // Products for one-time purchases (same region/currency options as /plans)
+  router.get('/products', (req, res) => {
+    res.json({
+      products: productCatalog.getPublicProducts({
+        region: req.query.region as string,
+        currency: req.query.currency as string
+      })
+    });
+  });
+
+  // Check a promo code for a plan (signed-in users also get first-purchase checks)
+  router.post('/promo/validate',
+    authenticate(false),
+    [
+      body('code').isString().notEmpty(),
+      body('plan').optional().isString(),
+      body('priceId').optional().isString()
+    ],
+    handleValidationErrors,
+    async (req: AuthRequest, res: Response) => {
+      try {
+        let priceId: string;
+        try {
+          priceId = planCatalog.resolveCheckoutPrice(req.body).price.priceId;
+        } catch (error: any) {
+          return res.status(400).json({ error: error.message });
+        }
+
+        const { promoCode, amount, discountAmount, currency } = await stripeService.validatePromoCode(
+          req.body.code,
+          { priceId, userId: req.user?.userId }
+        );
+
+        return res.json({
+          valid: true,
+          code: promoCode.code,
+          discount: {
+            percentOff: promoCode.percentOff,
+            amountOff: promoCode.amountOff ? promoCode.amountOff / 100 : null, // Convert from cents
+            duration: promoCode.duration,
+            durationInMonths: promoCode.durationInMonths
+          },
+          price: {
+            priceId,
+            currency,
+            amount: amount / 100,
+            discountAmount: discountAmount / 100,
+            total: (amount - discountAmount) / 100
+          }
+        });
+      } catch (error: any) {
+        if (error.message.startsWith('Promo code')) {
+          return res.status(400).json({ valid: false, error: error.message });
+        }
+        logger.error('Validate promo code error', error);
+        return res.status(500).json({ error: 'Failed to validate promo code' });
+      }
+    }
+  );
+
   // ===== Authentication Routes =====
 
   // Register
@@ -59,15 +181,16 @@ export function createApiRoutes(): Router {
         // Get click ID from request or body
         const clickId = req.keitaroClickId || keitaroSubId;
 
-        const result = await AuthService.register(email, password, name, clickId);
+        const result = await AuthService.register(
+          email,
+          password,
+          name,
+          clickId,
+          getSessionContext(req)
+        );
         
-        // Set cookie
-        res.cookie('token', result.token, {
-          httpOnly: true,
-          secure: config.app.env === 'production',
-          sameSite: 'lax',
-          maxAge: 7 * 24 * 60 * 60 * 1000 // 7 days
-        });
+        // Set cookies
+        setAuthCookies(res, result);
 
         // Track registration
         await keitaroService.trackRegistration(result.user.id, clickId);
@@ -87,29 +210,334 @@ export function createApiRoutes(): Router {
       body('password').notEmpty()
     ],
     handleValidationErrors,
-    async (req, res) => {
+    async (req: AuthRequest, res: Response) => {
       try {
         const { email, password } = req.body;
-        const result = await AuthService.login(email, password);
+
+        // Brute-force protection (same response for locked accounts and blocked IPs)
+        const check = await LoginProtectionService.check(email, req.ip);
+        if (!check.allowed) {
+          res.setHeader('Retry-After', String(check.retryAfterSeconds));
+          return res.status(429).json({
+            error: 'Too many login attempts, please try again later',
+            retryAfter: check.retryAfterSeconds
+          });
+        }
+
+        const result = await AuthService.login(email, password, getSessionContext(req));
+
+        // 2FA accounts finish login at /auth/2fa/verify
+        if ('challengeToken' in result) {
+          return res.json(result);
+        }
         
-        // Set cookie
-        res.cookie('token', result.token, {
-          httpOnly: true,
-          secure: config.app.env === 'production',
-          sameSite: 'lax',
-          maxAge: 7 * 24 * 60 * 60 * 1000 // 7 days
+        // Set cookies
+        setAuthCookies(res, result);
+
+        return res.json(result);
+      } catch (error: any) {
+        logger.error('Login error', error);
+        return res.status(401).json({ error: error.message });
+      }
+    }
+  );
+
+  // ===== Magic Link Routes =====
+
+  // Request sign-in link (also signs up unknown emails)
+  router.post('/auth/magic-link',
+    [
+      body('email').isEmail().normalizeEmail(),
+      body('name').optional().trim()
+    ],
+    handleValidationErrors,
+    async (req: AuthRequest & { keitaroClickId?: string }, res: Response) => {
+      try {
+        const { email, name, keitaroSubId } = req.body;
+
+        await AuthService.requestMagicLink(email, {
+          name,
+          keitaroSubId: req.keitaroClickId || keitaroSubId
         });
+      } catch (error: any) {
+        // Don't reveal failures, the response is the same for every email
+        logger.error('Magic link request error', error);
+      }
 
+      res.json({ message: 'Check your email for a sign-in link' });
+    }
+  );
+
+  // Sign in with magic-link token
+  router.post('/auth/magic-link/verify',
+    [
+      body('token').notEmpty()
+    ],
+    handleValidationErrors,
+    async (req: AuthRequest, res: Response) => {
+      try {
+        const result = await AuthService.consumeMagicLink(req.body.token, getSessionContext(req));
+
+        // 2FA accounts finish login at /auth/2fa/verify
+        if ('challengeToken' in result) {
+          return res.json(result);
+        }
+
+        setAuthCookies(res, result);
+
+        if (result.isNewUser) {
+          await keitaroService.trackRegistration(result.user.id);
+        }
+
+        return res.status(result.isNewUser ? 201 : 200).json(result);
+      } catch (error: any) {
+        logger.warn('Magic link sign-in failed', { error: error.message });
+        return res.status(400).json({ error: error.message });
+      }
+    }
+  );
+
+  // ===== Social Login Routes =====
+
+  // State cookie for the provider round-trip. Apple posts the callback cross-site,
+  // which only carries SameSite=None cookies (these require HTTPS).
+  const oauthStateCookieOptions = {
+    httpOnly: true,
+    secure: config.app.env === 'production',
+    sameSite: config.app.env === 'production' ? 'none' as const : 'lax' as const,
+    path: '/api/auth/oauth'
+  };
+
+  // Enabled providers
+  router.get('/auth/oauth/providers', (_req, res) => {
+    res.json({ providers: OAuthService.getEnabledProviders() });
+  });
+
+  // Start social login (redirects to the provider)
+  router.get('/auth/oauth/:provider', async (req: AuthRequest & { keitaroClickId?: string }, res) => {
+    try {
+      const { url, stateToken } = await OAuthService.createAuthorization(
+        req.params.provider,
+        req.keitaroClickId
+      );
+
+      res.cookie('oauth_state', stateToken, {
+        ...oauthStateCookieOptions,
+        maxAge: OAuthService.getStateTtlSeconds() * 1000
+      });
+      res.redirect(url);
+    } catch (error: any) {
+      logger.error('OAuth start error', { provider: req.params.provider, error: error.message });
+      res.status(400).json({ error: error.message });
+    }
+  });
+
+  // Provider callback (GET, or form POST for Apple)
+  const handleOAuthCallback = async (req: AuthRequest, res: Response) => {
+    const params = req.method === 'POST' ? req.body : req.query;
+    const { provider } = req.params;
+    res.clearCookie('oauth_state', oauthStateCookieOptions);
+
+    try {
+      if (params.error) {
+        throw new Error(`Provider error: ${params.error}`);
+      }
+
+      const oauthState = OAuthService.verifyState(req.cookies?.oauth_state, provider, params.state);
+      const identity = await OAuthService.exchangeCode(oauthState, params.code);
+
+      // Apple only sends the name on the first authorization, outside the ID token
+      if (!identity.name && typeof params.user === 'string') {
+        try {
+          const { name } = JSON.parse(params.user);
+          identity.name = [name?.firstName, name?.lastName].filter(Boolean).join(' ') || undefined;
+        } catch (error) {
+          // Ignore malformed user data
+        }
+      }
+
+      const result = await AuthService.loginWithOAuth(
+        identity,
+        oauthState.clickId,
+        getSessionContext(req)
+      );
+
+      if ('challengeToken' in result) {
+        return res.redirect(
+          `${config.oauth.loginUrl}?challengeToken=${encodeURIComponent(result.challengeToken)}`
+        );
+      }
+
+      setAuthCookies(res, result);
+
+      if (result.isNewUser) {
+        await keitaroService.trackRegistration(result.user.id, oauthState.clickId);
+      }
+
+      return res.redirect(config.oauth.successUrl);
+    } catch (error: any) {
+      logger.warn('OAuth callback failed', { provider, error: error.message });
+      return res.redirect(
+        `${config.oauth.loginUrl}?error=${encodeURIComponent(error.message)}`
+      );
+    }
+  };
+
+  router.get('/auth/oauth/:provider/callback', handleOAuthCallback);
+  router.post('/auth/oauth/:provider/callback', handleOAuthCallback);
+
+  // Linked provider accounts
+  router.get('/auth/accounts', authenticate(), async (req: AuthRequest, res) => {
+    try {
+      const accounts = await OAuthService.listAccounts(req.user!.userId);
+      res.json({ accounts });
+    } catch (error) {
+      logger.error('Get accounts error', error);
+      res.status(500).json({ error: 'Failed to get linked accounts' });
+    }
+  });
+
+  // Unlink provider account
+  router.delete('/auth/accounts/:provider', authenticate(), blockImpersonation, async (req: AuthRequest, res) => {
+    try {
+      await OAuthService.unlinkAccount(req.user!.userId, req.params.provider);
+      res.json({ message: 'Account unlinked' });
+    } catch (error: any) {
+      logger.error('Unlink account error', error);
+      res.status(400).json({ error: error.message });
+    }
+  });
+
+  // ===== Two-Factor Authentication Routes =====
+
+  // Complete login with TOTP or recovery code
+  router.post('/auth/2fa/verify',
+    [
+      body('challengeToken').notEmpty(),
+      body('code').notEmpty().trim()
+    ],
+    handleValidationErrors,
+    async (req: AuthRequest, res: Response) => {
+      try {
+        const { challengeToken, code } = req.body;
+        const result = await AuthService.completeTwoFactorLogin(
+          challengeToken,
+          code,
+          getSessionContext(req)
+        );
+
+        setAuthCookies(res, result);
         res.json(result);
       } catch (error: any) {
-        logger.error('Login error', error);
-        res.status(401).json({ error: error.message });
+        logger.warn('Two-factor verification failed', { error: error.message });
+        const status = error.message === 'Too many login attempts, please try again later' ? 429 : 401;
+        res.status(status).json({ error: error.message });
+      }
+    }
+  );
+
+  // Start 2FA enrollment
+  router.post('/auth/2fa/setup', authenticate(), blockImpersonation, async (req: AuthRequest, res) => {
+    try {
+      const { secret, otpauthUri } = await TwoFactorService.setup(req.user!.userId);
+      res.json({ secret, otpauthUri });
+    } catch (error: any) {
+      logger.error('Two-factor setup error', error);
+      res.status(400).json({ error: error.message });
+    }
+  });
+
+  // Confirm 2FA enrollment
+  router.post('/auth/2fa/enable',
+    authenticate(),
+    blockImpersonation,
+    [
+      body('code').notEmpty().trim()
+    ],
+    handleValidationErrors,
+    async (req: AuthRequest, res: Response) => {
+      try {
+        const recoveryCodes = await TwoFactorService.enable(
+          req.user!.userId,
+          req.body.code,
+          req.user!.sessionId
+        );
+
+        res.json({
+          message: 'Two-factor authentication enabled',
+          recoveryCodes
+        });
+      } catch (error: any) {
+        logger.error('Two-factor enable error', error);
+        res.status(400).json({ error: error.message });
       }
     }
   );
 
-  // Logout
-  router.post('/auth/logout', authenticate(), async (req: AuthRequest, res) => {
+  // Disable 2FA
+  router.post('/auth/2fa/disable',
+    authenticate(),
+    blockImpersonation,
+    [
+      body('code').notEmpty().trim()
+    ],
+    handleValidationErrors,
+    async (req: AuthRequest, res: Response) => {
+      try {
+        await TwoFactorService.disable(req.user!.userId, req.body.code);
+        res.json({ message: 'Two-factor authentication disabled' });
+      } catch (error: any) {
+        logger.error('Two-factor disable error', error);
+        res.status(400).json({ error: error.message });
+      }
+    }
+  );
+
+  // Regenerate recovery codes
+  router.post('/auth/2fa/recovery-codes',
+    authenticate(),
+    blockImpersonation,
+    [
+      body('code').notEmpty().trim()
+    ],
+    handleValidationErrors,
+    async (req: AuthRequest, res: Response) => {
+      try {
+        const recoveryCodes = await TwoFactorService.regenerateRecoveryCodes(
+          req.user!.userId,
+          req.body.code
+        );
+
+        res.json({ recoveryCodes });
+      } catch (error: any) {
+        logger.error('Recovery codes error', error);
+        res.status(400).json({ error: error.message });
+      }
+    }
+  );
+
+  // Refresh access token (rotates the refresh token)
+  router.post('/auth/refresh', async (req: AuthRequest, res) => {
+    try {
+      const refreshToken = req.body?.refreshToken || req.cookies?.refresh_token;
+
+      if (!refreshToken) {
+        return res.status(401).json({ error: 'Refresh token required' });
+      }
+
+      const tokens = await AuthService.refreshSession(refreshToken, getSessionContext(req));
+      setAuthCookies(res, tokens);
+
+      return res.json(tokens);
+    } catch (error: any) {
+      logger.warn('Token refresh failed', { error: error.message });
+      clearAuthCookies(res);
+      return res.status(401).json({ error: error.message });
+    }
+  });
+
+  // Logout (an expired access token can still end its session)
+  router.post('/auth/logout', authenticate(false), async (req: AuthRequest, res) => {
     try {
       const token = req.headers.authorization?.replace('Bearer ', '') || 
                    req.cookies?.token;
@@ -118,7 +546,7 @@ export function createApiRoutes(): Router {
         await AuthService.logout(token);
       }
       
-      res.clearCookie('token');
+      clearAuthCookies(res);
       res.json({ message: 'Logged out successfully' });
     } catch (error: any) {
       logger.error('Logout error', error);
@@ -133,27 +561,217 @@ export function createApiRoutes(): Router {
       if (!user) {
         return res.status(404).json({ error: 'User not found' });
       }
-      res.json(user);
+      res.json({
+        ...user,
+        impersonating: !!req.user!.impersonatorId,
+        impersonatorId: req.user!.impersonatorId || null
+      });
     } catch (error: any) {
       logger.error('Get user error', error);
       res.status(500).json({ error: 'Failed to get user' });
     }
   });
 
+  // List active sessions (devices)
+  router.get('/auth/sessions', authenticate(), async (req: AuthRequest, res) => {
+    try {
+      const sessions = await AuthService.listSessions(req.user!.userId);
+
+      res.json({
+        sessions: sessions.map(session => ({
+          ...session,
+          current: session.id === req.user!.sessionId
+        }))
+      });
+    } catch (error: any) {
+      logger.error('List sessions error', error);
+      res.status(500).json({ error: 'Failed to list sessions' });
+    }
+  });
+
+  // Revoke all sessions except the current one
+  router.delete('/auth/sessions', authenticate(), blockImpersonation, async (req: AuthRequest, res) => {
+    try {
+      const count = await AuthService.revokeAllSessions(
+        req.user!.userId,
+        'user_revoked',
+        req.user!.sessionId
+      );
+
+      res.json({ message: 'Other sessions revoked', count });
+    } catch (error: any) {
+      logger.error('Revoke sessions error', error);
+      res.status(500).json({ error: 'Failed to revoke sessions' });
+    }
+  });
+
+  // Revoke a single session
+  router.delete('/auth/sessions/:sessionId', authenticate(), blockImpersonation, async (req: AuthRequest, res) => {
+    try {
+      const revoked = await AuthService.revokeSession(
+        req.user!.userId,
+        req.params.sessionId,
+        'user_revoked'
+      );
+
+      if (!revoked) {
+        return res.status(404).json({ error: 'Session not found' });
+      }
+
+      if (req.params.sessionId === req.user!.sessionId) {
+        clearAuthCookies(res);
+      }
+
+      return res.json({ message: 'Session revoked' });
+    } catch (error: any) {
+      logger.error('Revoke session error', error);
+      return res.status(500).json({ error: 'Failed to revoke session' });
+    }
+  });
+
+  // Set a password (passwordless accounts) or change it
+  router.post('/auth/password',
+    authenticate(),
+    blockImpersonation,
+    [
+      body('password').isLength({ min: 6 }),
+      body('currentPassword').optional()
+    ],
+    handleValidationErrors,
+    async (req: AuthRequest, res: Response) => {
+      try {
+        await AuthService.setPassword(
+          req.user!.userId,
+          req.body.password,
+          req.body.currentPassword,
+          req.user!.sessionId
+        );
+
+        res.json({ message: 'Password updated' });
+      } catch (error: any) {
+        logger.error('Set password error', error);
+        res.status(400).json({ error: error.message });
+      }
+    }
+  );
+
+  // Request password reset email
+  router.post('/auth/forgot-password',
+    [
+      body('email').isEmail().normalizeEmail()
+    ],
+    handleValidationErrors,
+    async (req: AuthRequest, res: Response) => {
+      try {
+        await AuthService.requestPasswordReset(req.body.email);
+      } catch (error: any) {
+        // Don't reveal failures, the response is the same for every email
+        logger.error('Forgot password error', error);
+      }
+
+      res.json({ message: 'If an account exists for this email, a reset link has been sent' });
+    }
+  );
+
+  // Reset password with token
+  router.post('/auth/reset-password',
+    [
+      body('token').notEmpty(),
+      body('password').isLength({ min: 6 })
+    ],
+    handleValidationErrors,
+    async (req: AuthRequest, res: Response) => {
+      try {
+        const { token, password } = req.body;
+        await AuthService.resetPassword(token, password);
+
+        clearAuthCookies(res);
+        res.json({ message: 'Password reset successfully' });
+      } catch (error: any) {
+        logger.error('Reset password error', error);
+        res.status(400).json({ error: error.message });
+      }
+    }
+  );
+
+  // Verify email with token
+  router.post('/auth/verify-email',
+    [
+      body('token').notEmpty()
+    ],
+    handleValidationErrors,
+    async (req: AuthRequest, res: Response) => {
+      try {
+        await AuthService.verifyEmail(req.body.token);
+        res.json({ message: 'Email verified successfully' });
+      } catch (error: any) {
+        logger.error('Verify email error', error);
+        res.status(400).json({ error: error.message });
+      }
+    }
+  );
+
+  // Confirm an email change with the token sent to the new address
+  router.post('/auth/confirm-email',
+    [
+      body('token').notEmpty()
+    ],
+    handleValidationErrors,
+    async (req: AuthRequest, res: Response) => {
+      try {
+        const { before, after } = await AuthService.confirmEmailChange(req.body.token);
+
+        // The link proves the user is acting, without a session
+        await AuditService.record({ ...AuditService.contextFromRequest(req), actorId: after.id, actorType: 'user' }, {
+          action: AuditAction.USER_PROFILE_UPDATE,
+          targetType: 'user',
+          targetId: after.id,
+          changes: AuditService.diff(before, after, ['email'])
+        });
+
+        res.json({ message: 'Email changed successfully' });
+      } catch (error: any) {
+        logger.warn('Confirm email change error', { error: error.message });
+        res.status(400).json({ error: error.message });
+      }
+    }
+  );
+
+  // Resend verification email
+  router.post('/auth/verify-email/resend', authenticate(), async (req: AuthRequest, res) => {
+    try {
+      await AuthService.sendVerificationEmail(req.user!.userId);
+      res.json({ message: 'Verification email sent' });
+    } catch (error: any) {
+      logger.error('Resend verification email error', error);
+      res.status(400).json({ error: error.message });
+    }
+  });
+
   // ===== Subscription Routes =====
 
   // Create checkout session
   router.post('/subscription/checkout',
     authenticate(),
+    blockImpersonation,
     [
-      body('priceId').notEmpty(),
+      body('plan').optional().isString(),
+      body('priceId').optional().isString(),
       body('successUrl').optional().isURL(),
-      body('cancelUrl').optional().isURL()
+      body('cancelUrl').optional().isURL(),
+      body('promoCode').optional().isString()
     ],
     handleValidationErrors,
-    async (req: AuthRequest, res) => {
+    async (req: AuthRequest, res: Response) => {
       try {
-        const { priceId, successUrl, cancelUrl } = req.body;
+        const { successUrl, cancelUrl, promoCode } = req.body;
+
+        let priceId: string;
+        try {
+          priceId = planCatalog.resolveCheckoutPrice(req.body).price.priceId;
+        } catch (error: any) {
+          return res.status(400).json({ error: error.message });
+        }
         
         // Get user's click ID for tracking
         const user = await prisma.user.findUnique({
@@ -166,16 +784,20 @@ export function createApiRoutes(): Router {
           priceId,
           successUrl || `${config.app.url}/subscription/success`,
           cancelUrl || `${config.app.url}/subscription/cancel`,
-          user?.keitaroSubId || undefined
+          user?.keitaroSubId || undefined,
+          promoCode
         );
 
-        res.json({ 
+        return res.json({ 
           sessionId: session.id,
           url: session.url 
         });
       } catch (error: any) {
         logger.error('Checkout session error', error);
-        res.status(500).json({ error: 'Failed to create checkout session' });
+        if (error.message.startsWith('Promo code')) {
+          return res.status(400).json({ error: error.message });
+        }
+        return res.status(500).json({ error: 'Failed to create checkout session' });
       }
     }
   );
@@ -183,14 +805,25 @@ export function createApiRoutes(): Router {
   // Create subscription with payment method
   router.post('/subscription/create',
     authenticate(),
+    blockImpersonation,
     [
-      body('paymentMethodId').notEmpty(),
-      body('priceId').notEmpty()
+      // Optional for plans with a trial that doesn't require a card
+      body('paymentMethodId').optional().isString(),
+      body('plan').optional().isString(),
+      body('priceId').optional().isString(),
+      body('promoCode').optional().isString()
     ],
     handleValidationErrors,
-    async (req: AuthRequest, res) => {
+    async (req: AuthRequest, res: Response) => {
       try {
-        const { paymentMethodId, priceId } = req.body;
+        const { paymentMethodId } = req.body;
+
+        let priceId: string;
+        try {
+          priceId = planCatalog.resolveCheckoutPrice(req.body).price.priceId;
+        } catch (error: any) {
+          return res.status(400).json({ error: error.message });
+        }
         
         // Get user's click ID for tracking
         const user = await prisma.user.findUnique({
@@ -202,11 +835,17 @@ export function createApiRoutes(): Router {
           req.user!.userId,
           priceId,
           paymentMethodId,
-          user?.keitaroSubId || undefined
+          user?.keitaroSubId || undefined,
+          AuditService.contextFromRequest(req),
+          { promoCode: req.body.promoCode }
         );
 
-        // Track purchase
-        if (subscription.latest_invoice && typeof subscription.latest_invoice !== 'string') {
+        // Track purchase (trials are tracked when they convert)
+        if (
+          subscription.status !== 'trialing' &&
+          subscription.latest_invoice &&
+          typeof subscription.latest_invoice !== 'string'
+        ) {
           await keitaroService.trackPurchase(
             req.user!.userId,
             subscription.latest_invoice.amount_paid,
@@ -214,34 +853,287 @@ export function createApiRoutes(): Router {
           );
         }
 
-        res.json({ subscription });
+        return res.json({ subscription });
       } catch (error: any) {
         logger.error('Create subscription error', error);
-        res.status(500).json({ error: error.message });
+        if (error.message === 'Payment method required' || error.message.startsWith('Promo code')) {
+          return res.status(400).json({ error: error.message });
+        }
+        return res.status(500).json({ error: error.message });
       }
     }
   );
 
-  // Cancel subscription
+  // Cancel subscription at the end of the period (reason and feedback are optional here)
   router.post('/subscription/cancel',
     authenticate(),
+    blockImpersonation,
+    requireSubscription,
+    [
+      body('reason').optional().isIn(Object.values(CancellationReason)),
+      body('feedback').optional().isString().isLength({ max: 2000 })
+    ],
+    handleValidationErrors,
+    async (req: AuthRequest, res: Response) => {
+      try {
+        const subscription = await cancellationService.cancelDirectly(
+          req.user!.userId,
+          { reason: req.body.reason, feedback: req.body.feedback },
+          AuditService.contextFromRequest(req)
+        );
+
+        return res.json({ subscription });
+      } catch (error: any) {
+        logger.error('Cancel subscription error', error);
+        if (error.message === 'No active subscription found') {
+          return res.status(404).json({ error: error.message });
+        }
+        if (error.message === 'Subscription is already canceling') {
+          return res.status(400).json({ error: error.message });
+        }
+        return res.status(500).json({ error: 'Failed to cancel subscription' });
+      }
+    }
+  );
+
+  // Cancellation flow, step 1: collect the reason and get retention offers
+  router.post('/subscription/cancel/start',
+    authenticate(),
+    blockImpersonation,
+    requireSubscription,
+    [
+      body('reason').isIn(Object.values(CancellationReason)),
+      body('feedback').optional().isString().isLength({ max: 2000 })
+    ],
+    handleValidationErrors,
+    async (req: AuthRequest, res: Response) => {
+      try {
+        const { request, offers } = await cancellationService.start(req.user!.userId, {
+          reason: req.body.reason,
+          feedback: req.body.feedback
+        });
+
+        return res.json({ cancellationId: request.id, offers });
+      } catch (error: any) {
+        logger.error('Start cancellation error', error);
+        if (error.message === 'No active subscription found') {
+          return res.status(404).json({ error: error.message });
+        }
+        if (error.message === 'Subscription is already canceling') {
+          return res.status(400).json({ error: error.message });
+        }
+        return res.status(500).json({ error: 'Failed to start cancellation' });
+      }
+    }
+  );
+
+  // Cancellation flow, step 2a: accept a retention offer and keep the subscription
+  router.post('/subscription/cancel/:cancellationId/accept',
+    authenticate(),
+    blockImpersonation,
+    [
+      body('offer').isIn(['discount', 'pause'])
+    ],
+    handleValidationErrors,
+    async (req: AuthRequest, res: Response) => {
+      try {
+        const subscription = await cancellationService.acceptOffer(
+          req.user!.userId,
+          req.params.cancellationId,
+          req.body.offer,
+          AuditService.contextFromRequest(req)
+        );
+
+        return res.json({ subscription });
+      } catch (error: any) {
+        logger.error('Accept retention offer error', error);
+        if (error.message === 'Cancellation request not found') {
+          return res.status(404).json({ error: error.message });
+        }
+        if (error.message === 'Offer not available') {
+          return res.status(400).json({ error: error.message });
+        }
+        return res.status(500).json({ error: 'Failed to apply offer' });
+      }
+    }
+  );
+
+  // Cancellation flow, step 2b: decline the offers and cancel at the end of the period
+  router.post('/subscription/cancel/:cancellationId/confirm',
+    authenticate(),
+    blockImpersonation,
+    async (req: AuthRequest, res: Response) => {
+      try {
+        const subscription = await cancellationService.confirm(
+          req.user!.userId,
+          req.params.cancellationId,
+          AuditService.contextFromRequest(req)
+        );
+
+        return res.json({ subscription });
+      } catch (error: any) {
+        logger.error('Confirm cancellation error', error);
+        if (error.message === 'Cancellation request not found') {
+          return res.status(404).json({ error: error.message });
+        }
+        return res.status(500).json({ error: 'Failed to cancel subscription' });
+      }
+    }
+  );
+
+  // Change plan (upgrade or downgrade); dryRun returns the proration preview
+  router.post('/subscription/change',
+    authenticate(),
+    blockImpersonation,
     requireSubscription,
+    [
+      body('plan').optional().isString(),
+      body('priceId').optional().isString(),
+      body('timing').optional().isIn(['immediate', 'period_end']),
+      body('dryRun').optional().isBoolean(),
+      body('prorationDate').optional().isInt({ min: 0 })
+    ],
+    handleValidationErrors,
+    async (req: AuthRequest, res: Response) => {
+      try {
+        const { timing = 'immediate', dryRun, prorationDate } = req.body;
+
+        let priceId: string;
+        try {
+          priceId = planCatalog.resolveCheckoutPrice(req.body).price.priceId;
+        } catch (error: any) {
+          return res.status(400).json({ error: error.message });
+        }
+
+        if (dryRun) {
+          const preview = await stripeService.previewPlanChange(req.user!.userId, priceId, timing);
+          return res.json({ preview });
+        }
+
+        const subscription = await stripeService.changePlan(req.user!.userId, priceId, {
+          timing,
+          prorationDate: prorationDate !== undefined ? Number(prorationDate) : undefined,
+          auditContext: AuditService.contextFromRequest(req)
+        });
+
+        return res.json({ subscription });
+      } catch (error: any) {
+        logger.error('Change plan error', error);
+        if (error.type === 'StripeCardError') {
+          return res.status(402).json({ error: error.message });
+        }
+        if (error.message === 'No active subscription found') {
+          return res.status(404).json({ error: error.message });
+        }
+        if ([
+          'Unknown plan',
+          'Lifetime plans must be purchased through checkout',
+          'Already on this plan',
+          'The new plan must be in the same currency',
+          'Resume the subscription before changing plans'
+        ].includes(error.message)) {
+          return res.status(400).json({ error: error.message });
+        }
+        return res.status(500).json({ error: 'Failed to change plan' });
+      }
+    }
+  );
+
+  // Cancel a plan change scheduled for the end of the period
+  router.delete('/subscription/change',
+    authenticate(),
+    blockImpersonation,
     async (req: AuthRequest, res) => {
       try {
-        const user = await prisma.user.findUnique({
-          where: { id: req.user!.userId },
-          select: { subscriptionId: true }
+        await stripeService.cancelScheduledPlanChange(req.user!.userId, AuditService.contextFromRequest(req));
+        res.json({ message: 'Scheduled plan change canceled' });
+      } catch (error: any) {
+        logger.error('Cancel plan change error', error);
+        res.status(error.message === 'No plan change scheduled' ? 404 : 500).json({
+          error: error.message === 'No plan change scheduled' ? error.message : 'Failed to cancel plan change'
         });
+      }
+    }
+  );
 
-        if (!user?.subscriptionId) {
-          return res.status(404).json({ error: 'No active subscription found' });
+  // Undo a scheduled cancellation
+  router.post('/subscription/reactivate',
+    authenticate(),
+    blockImpersonation,
+    async (req: AuthRequest, res: Response) => {
+      try {
+        const subscription = await stripeService.reactivateSubscription(
+          req.user!.userId,
+          AuditService.contextFromRequest(req)
+        );
+        return res.json({ subscription });
+      } catch (error: any) {
+        logger.error('Reactivate subscription error', error);
+        if (error.message === 'No active subscription found') {
+          return res.status(404).json({ error: error.message });
+        }
+        if (['Subscription has already ended', 'Subscription is not scheduled for cancellation'].includes(error.message)) {
+          return res.status(400).json({ error: error.message });
+        }
+        return res.status(500).json({ error: 'Failed to reactivate subscription' });
+      }
+    }
+  );
+
+  // Pause payment collection for a number of billing cycles
+  router.post('/subscription/pause',
+    authenticate(),
+    blockImpersonation,
+    requireSubscription,
+    [
+      body('cycles').isInt({ min: 1 })
+    ],
+    handleValidationErrors,
+    async (req: AuthRequest, res: Response) => {
+      try {
+        const subscription = await stripeService.pauseSubscription(
+          req.user!.userId,
+          Number(req.body.cycles),
+          AuditService.contextFromRequest(req)
+        );
+        return res.json({ subscription });
+      } catch (error: any) {
+        logger.error('Pause subscription error', error);
+        if (error.message === 'No active subscription found') {
+          return res.status(404).json({ error: error.message });
         }
+        if (error.message.startsWith('Pause must be') || [
+          'Only active subscriptions can be paused',
+          'Subscription is already paused',
+          'Cancel the scheduled plan change before pausing'
+        ].includes(error.message)) {
+          return res.status(400).json({ error: error.message });
+        }
+        return res.status(500).json({ error: 'Failed to pause subscription' });
+      }
+    }
+  );
 
-        const subscription = await stripeService.cancelSubscription(user.subscriptionId);
-        res.json({ subscription });
+  // Resume a paused subscription
+  router.post('/subscription/resume',
+    authenticate(),
+    blockImpersonation,
+    async (req: AuthRequest, res: Response) => {
+      try {
+        const subscription = await stripeService.resumeSubscription(
+          req.user!.userId,
+          AuditService.contextFromRequest(req)
+        );
+        return res.json({ subscription });
       } catch (error: any) {
-        logger.error('Cancel subscription error', error);
-        res.status(500).json({ error: 'Failed to cancel subscription' });
+        logger.error('Resume subscription error', error);
+        if (error.message === 'No active subscription found') {
+          return res.status(404).json({ error: error.message });
+        }
+        if (error.message === 'Subscription is not paused') {
+          return res.status(400).json({ error: error.message });
+        }
+        return res.status(500).json({ error: 'Failed to resume subscription' });
       }
     }
   );
@@ -255,7 +1147,11 @@ export function createApiRoutes(): Router {
           subscriptionId: true,
           subscriptionStatus: true,
           subscriptionPlan: true,
-          subscriptionEndDate: true
+          subscriptionEndDate: true,
+          cancelAtPeriodEnd: true,
+          pausedUntil: true,
+          scheduledPriceId: true,
+          scheduledChangeAt: true
         }
       });
 
@@ -263,7 +1159,16 @@ export function createApiRoutes(): Router {
         hasSubscription: !!user?.subscriptionId,
         status: user?.subscriptionStatus || 'inactive',
         plan: user?.subscriptionPlan,
-        endDate: user?.subscriptionEndDate
+        endDate: user?.subscriptionEndDate,
+        cancelAtPeriodEnd: user?.cancelAtPeriodEnd || false,
+        pausedUntil: user?.pausedUntil,
+        scheduledChange: user?.scheduledPriceId
+          ? {
+              plan: planCatalog.getPlanByPriceId(user.scheduledPriceId)?.key || null,
+              priceId: user.scheduledPriceId,
+              at: user.scheduledChangeAt
+            }
+          : null
       });
     } catch (error: any) {
       logger.error('Get subscription status error', error);
@@ -274,6 +1179,7 @@ export function createApiRoutes(): Router {
   // Create customer portal session
   router.post('/subscription/portal',
     authenticate(),
+    blockImpersonation,
     async (req: AuthRequest, res) => {
       try {
         const returnUrl = req.body.returnUrl || config.app.url;
@@ -290,44 +1196,146 @@ export function createApiRoutes(): Router {
     }
   );
 
+  // Update the payment method with the token of a failed payment reminder (no login needed).
+  // The link opens an app page that posts the token, so link scanners don't use it up.
+  router.post('/subscription/payment-method/update',
+    [
+      body('token').notEmpty()
+    ],
+    handleValidationErrors,
+    async (req: AuthRequest, res: Response) => {
+      try {
+        const url = await dunningService.createPaymentUpdateSession(req.body.token);
+        return res.json({ url });
+      } catch (error: any) {
+        logger.warn('Payment method update link failed', { error: error.message });
+        return error.message === 'Invalid or expired token'
+          ? res.status(400).json({ error: 'Invalid or expired link' })
+          : res.status(500).json({ error: 'Failed to open the payment page' });
+      }
+    }
+  );
+
   // ===== Payment Routes =====
 
   // Create payment intent (for one-time payments)
   router.post('/payment/intent',
     authenticate(),
+    blockImpersonation,
     [
-      body('amount').isInt({ min: 50 }), // Minimum 50 cents
+      body('product').isString(), // Priced on the server from the product catalog
+      body('region').optional().isLength({ min: 2, max: 2 }),
       body('currency').optional().isLength({ min: 3, max: 3 })
     ],
     handleValidationErrors,
-    async (req: AuthRequest, res) => {
+    async (req: AuthRequest, res: Response) => {
       try {
-        const { amount, currency } = req.body;
-        
-        // Get user's click ID for tracking
-        const user = await prisma.user.findUnique({
-          where: { id: req.user!.userId },
-          select: { keitaroSubId: true }
-        });
+        const { product, region, currency } = req.body;
 
-        const paymentIntent = await stripeService.createPaymentIntent(
-          amount,
-          currency || 'usd',
+        const { order, clientSecret } = await orderService.createOrder(
           req.user!.userId,
-          user?.keitaroSubId || undefined
+          product,
+          { region, currency }
         );
 
-        res.json({
-          clientSecret: paymentIntent.client_secret,
-          paymentIntentId: paymentIntent.id
+        return res.json({
+          clientSecret,
+          paymentIntentId: order.stripePaymentIntentId,
+          orderId: order.id,
+          amount: order.amount / 100, // Convert from cents
+          currency: order.currency
         });
       } catch (error: any) {
         logger.error('Payment intent error', error);
-        res.status(500).json({ error: 'Failed to create payment intent' });
+        if (error.message === 'Unknown product' || error.message === 'Product already purchased') {
+          return res.status(400).json({ error: error.message });
+        }
+        return res.status(500).json({ error: 'Failed to create payment intent' });
       }
     }
   );
 
+  // One-click upsells offered after the last payment
+  router.get('/upsells', authenticate(), async (req: AuthRequest, res) => {
+    try {
+      const { products, expiresAt } = await orderService.getUpsellOffers(req.user!.userId);
+      const keys = products.map(product => product.key);
+
+      res.json({
+        products: productCatalog.getPublicProducts({
+          region: req.query.region as string,
+          currency: req.query.currency as string
+        }).filter(product => keys.includes(product.key)),
+        expiresAt
+      });
+    } catch (error: any) {
+      logger.error('Get upsells error', error);
+      res.status(500).json({ error: 'Failed to get upsells' });
+    }
+  });
+
+  // Buy an upsell with the saved payment method (idempotencyKey: one per offer shown)
+  router.post('/upsells/:product',
+    authenticate(),
+    blockImpersonation,
+    [
+      body('idempotencyKey').isString().isLength({ min: 8, max: 100 }),
+      body('region').optional().isLength({ min: 2, max: 2 }),
+      body('currency').optional().isLength({ min: 3, max: 3 })
+    ],
+    handleValidationErrors,
+    async (req: AuthRequest, res: Response) => {
+      try {
+        const { status, order, clientSecret } = await orderService.chargeUpsell(
+          req.user!.userId,
+          req.params.product,
+          req.body.idempotencyKey,
+          { region: req.body.region, currency: req.body.currency }
+        );
+
+        return res.json({
+          status,
+          orderId: order.id,
+          amount: order.amount / 100, // Convert from cents
+          currency: order.currency,
+          // Confirm with stripe.confirmCardPayment when status is requires_action
+          ...(clientSecret && { clientSecret })
+        });
+      } catch (error: any) {
+        logger.error('Upsell error', error);
+        if (error.type === 'StripeCardError' || error.message === 'Upsell payment failed') {
+          return res.status(402).json({ error: error.message });
+        }
+        if ([
+          'Unknown product',
+          'Product already purchased',
+          'Upsell offer expired',
+          'No saved payment method'
+        ].includes(error.message)) {
+          return res.status(400).json({ error: error.message });
+        }
+        return res.status(500).json({ error: 'Failed to charge upsell' });
+      }
+    }
+  );
+
+  // Get orders
+  router.get('/orders', authenticate(), async (req: AuthRequest, res) => {
+    try {
+      const orders = await orderService.listOrders(req.user!.userId);
+
+      res.json({
+        orders: orders.map(order => ({
+          ...order,
+          amount: order.amount / 100 // Convert from cents
+        }))
+      });
+    } catch (error: any) {
+      logger.error('Get orders error', error);
+      res.status(500).json({ error: 'Failed to get orders' });
+    }
+  });
+
   // Get payment history
   router.get('/payment/history', authenticate(), async (req: AuthRequest, res) => {
     try {
@@ -362,6 +1370,9 @@ export function createApiRoutes(): Router {
         
         await stripeService.handleWebhook(signature, rawBody);
         res.json({ received: true });
+
+        // Process it right away instead of on the worker's next run
+        webhookQueue.wake();
       } catch (error: any) {
         logger.error('Stripe webhook error', error);
         res.status(400).json({ error: error.message });
@@ -371,9 +1382,21 @@ export function createApiRoutes(): Router {
 
   // ===== User Routes =====
 
+  // Features and quota usage granted by the current plan
+  router.get('/me/entitlements', authenticate(), async (req: AuthRequest, res) => {
+    try {
+      const entitlements = await EntitlementService.resolve(req.user!.userId);
+      res.json(entitlements);
+    } catch (error: any) {
+      logger.error('Get entitlements error', error);
+      res.status(500).json({ error: 'Failed to load entitlements' });
+    }
+  });
+
   // Update user profile
   router.put('/user/profile',
     authenticate(),
+    blockImpersonation,
     [
       body('name').optional().trim(),
       body('email').optional().isEmail().normalizeEmail()
@@ -382,20 +1405,44 @@ export function createApiRoutes(): Router {
     async (req: AuthRequest, res) => {
       try {
         const { name, email } = req.body;
+
+        const user = await prisma.user.findUnique({
+          where: { id: req.user!.userId }
+        });
+
+        // A new email is applied once the confirmation link sent to it is used
+        const pendingEmail = email && email !== user?.email ? email : undefined;
+        if (pendingEmail) {
+          await AuthService.requestEmailChange(req.user!.userId, pendingEmail);
+        }
         
         const updatedUser = await prisma.user.update({
           where: { id: req.user!.userId },
           data: {
-            ...(name && { name }),
-            ...(email && { email })
+            ...(name && { name })
           }
         });
 
-        const { password: _, ...userWithoutPassword } = updatedUser;
-        res.json(userWithoutPassword);
+        const changes = AuditService.diff(user, updatedUser, ['name']);
+        if (changes) {
+          await AuditService.record(AuditService.contextFromRequest(req), {
+            action: AuditAction.USER_PROFILE_UPDATE,
+            targetType: 'user',
+            targetId: updatedUser.id,
+            changes
+          });
+        }
+
+        return res.json({
+          ...AuthService.toPublicUser(updatedUser),
+          ...(pendingEmail && { pendingEmail })
+        });
       } catch (error: any) {
+        if (error.message === 'Email already in use') {
+          return res.status(409).json({ error: error.message });
+        }
         logger.error('Update profile error', error);
-        res.status(500).json({ error: 'Failed to update profile' });
+        return res.status(500).json({ error: 'Failed to update profile' });
       }
     }
   );
@@ -403,12 +1450,13 @@ export function createApiRoutes(): Router {
   // Delete user account
   router.delete('/user/account',
     authenticate(),
+    blockImpersonation,
     async (req: AuthRequest, res) => {
       try {
         // Cancel subscription if exists
         const user = await prisma.user.findUnique({
           where: { id: req.user!.userId },
-          select: { subscriptionId: true }
+          select: { email: true, subscriptionId: true }
         });
 
         if (user?.subscriptionId) {
@@ -420,7 +1468,14 @@ export function createApiRoutes(): Router {
           where: { id: req.user!.userId }
         });
 
-        res.clearCookie('token');
+        await AuditService.record(AuditService.contextFromRequest(req), {
+          action: AuditAction.USER_ACCOUNT_DELETE,
+          targetType: 'user',
+          targetId: req.user!.userId,
+          metadata: { email: user?.email, stripeSubscriptionId: user?.subscriptionId }
+        });
+
+        clearAuthCookies(res);
         res.json({ message: 'Account deleted successfully' });
       } catch (error: any) {
         logger.error('Delete account error', error);
@@ -0,0 +1,183 @@
+import { prisma } from '../database';
+import logger from '../../utils/logger';
+
+/**
+ * Audited actions
+ */
+export enum AuditAction {
+  // Admin actions
+  ADMIN_SUBSCRIPTION_UPDATE = 'admin.subscription.update',
+  ADMIN_USAGE_RESET = 'admin.usage.reset',
+  ADMIN_USER_DELETE = 'admin.user.delete',
+  ADMIN_USER_IMPERSONATE = 'admin.user.impersonate',
+  ADMIN_ROLE_CREATE = 'admin.role.create',
+  ADMIN_ROLE_UPDATE = 'admin.role.update',
+  ADMIN_ROLE_DELETE = 'admin.role.delete',
+  ADMIN_ROLE_ASSIGN = 'admin.role.assign',
+  ADMIN_ROLE_REMOVE = 'admin.role.remove',
+  ADMIN_PROMO_CODE_CREATE = 'admin.promo_code.create',
+  ADMIN_PROMO_CODE_UPDATE = 'admin.promo_code.update',
+  ADMIN_PROMO_CODE_DELETE = 'admin.promo_code.delete',
+  ADMIN_API_KEY_CREATE = 'admin.api_key.create',
+  ADMIN_API_KEY_REVOKE = 'admin.api_key.revoke',
+  ADMIN_ACCOUNT_UNLOCK = 'admin.account.unlock',
+  ADMIN_IP_UNBLOCK = 'admin.ip.unblock',
+  ADMIN_TRACKING_RETRY = 'admin.tracking.retry',
+  ADMIN_WEBHOOK_REPLAY = 'admin.webhook.replay',
+  ADMIN_BILLING_RECONCILE = 'admin.billing.reconcile',
+
+  // User actions
+  USER_ACCOUNT_DELETE = 'user.account.delete',
+  USER_PROFILE_UPDATE = 'user.profile.update',
+
+  // Subscription changes (user actions and Stripe sync)
+  SUBSCRIPTION_CREATE = 'subscription.create',
+  SUBSCRIPTION_CANCEL = 'subscription.cancel',
+  SUBSCRIPTION_UPDATE = 'subscription.update',
+  SUBSCRIPTION_PLAN_CHANGE = 'subscription.plan_change',
+  SUBSCRIPTION_RETENTION = 'subscription.retention',
+
+  // Refunds (admin actions and Stripe sync) and disputes
+  PAYMENT_REFUND = 'payment.refund',
+  PAYMENT_DISPUTE = 'payment.dispute'
+}
+
+/**
+ * Who performed an action and from where
+ */
+export interface AuditContext {
+  actorId?: string;
+  actorType: 'user' | 'api_key' | 'system';
+  impersonatorId?: string;
+  ipAddress?: string;
+  requestId?: string;
+}
+
+/**
+ * Audit log entry
+ */
+export interface AuditEntry {
+  action: AuditAction | string;
+  targetType?: string;
+  targetId?: string;
+  changes?: Record<string, { from: any; to: any }> | null;
+  metadata?: any;
+}
+
+/**
+ * Changes made by the system (webhooks, scheduled jobs)
+ */
+export const SYSTEM_AUDIT_CONTEXT: AuditContext = { actorType: 'system' };
+
+/**
+ * Append-only audit log of admin actions, account changes and billing mutations.
+ * Entries are never updated or deleted, and have no foreign keys so they outlive the users they mention.
+ */
+export class AuditService {
+  /**
+   * Build the audit context from an authenticated request
+   */
+  static contextFromRequest(req: {
+    user?: { userId: string; impersonatorId?: string };
+    apiKey?: { id: string };
+    ip?: string;
+    id?: string;
+  }): AuditContext {
+    return {
+      actorId: req.user?.userId || req.apiKey?.id,
+      actorType: req.user ? 'user' : req.apiKey ? 'api_key' : 'system',
+      impersonatorId: req.user?.impersonatorId,
+      ipAddress: req.ip,
+      requestId: req.id
+    };
+  }
+
+  /**
+   * Field-level diff between two records ({ field: { from, to } }), or null if nothing changed
+   */
+  static diff(
+    before: Record<string, any> | null | undefined,
+    after: Record<string, any> | null | undefined,
+    fields: string[]
+  ): Record<string, { from: any; to: any }> | null {
+    const normalize = (value: any) => value instanceof Date ? value.toISOString() : value ?? null;
+    const changes: Record<string, { from: any; to: any }> = {};
+
+    for (const field of fields) {
+      const from = normalize(before?.[field]);
+      const to = normalize(after?.[field]);
+
+      if (JSON.stringify(from) !== JSON.stringify(to)) {
+        changes[field] = { from, to };
+      }
+    }
+
+    return Object.keys(changes).length > 0 ? changes : null;
+  }
+
+  /**
+   * Record an entry. Failures are logged but don't fail the audited action.
+   */
+  static async record(context: AuditContext, entry: AuditEntry): Promise<void> {
+    try {
+      await prisma.auditLog.create({
+        data: {
+          actorId: context.actorId,
+          actorType: context.actorType,
+          impersonatorId: context.impersonatorId,
+          action: entry.action,
+          targetType: entry.targetType,
+          targetId: entry.targetId,
+          changes: entry.changes ?? undefined,
+          metadata: entry.metadata,
+          ipAddress: context.ipAddress,
+          requestId: context.requestId
+        }
+      });
+    } catch (error) {
+      logger.error('Failed to write audit log', { action: entry.action, error });
+    }
+  }
+
+  /**
+   * Query the audit log
+   */
+  static async list(filters: {
+    actorId?: string;
+    action?: string;
+    targetType?: string;
+    targetId?: string;
+    requestId?: string;
+    from?: Date;
+    to?: Date;
+    page: number;
+    limit: number;
+  }): Promise<{ entries: any[]; total: number }> {
+    const where = {
+      ...(filters.actorId && { actorId: filters.actorId }),
+      // "admin.role" matches every role action
+      ...(filters.action && { action: { startsWith: filters.action } }),
+      ...(filters.targetType && { targetType: filters.targetType }),
+      ...(filters.targetId && { targetId: filters.targetId }),
+      ...(filters.requestId && { requestId: filters.requestId }),
+      ...((filters.from || filters.to) && {
+        createdAt: {
+          ...(filters.from && { gte: filters.from }),
+          ...(filters.to && { lte: filters.to })
+        }
+      })
+    };
+
+    const [entries, total] = await Promise.all([
+      prisma.auditLog.findMany({
+        where,
+        skip: (filters.page - 1) * filters.limit,
+        take: filters.limit,
+        orderBy: { createdAt: 'desc' }
+      }),
+      prisma.auditLog.count({ where })
+    ]);
+
+    return { entries, total };
+  }
+}
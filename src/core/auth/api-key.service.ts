@@ -0,0 +1,143 @@
+import crypto from 'crypto';
+import { prisma } from '../database';
+import logger from '../../utils/logger';
+import { Permission, RbacService } from './rbac.service';
+import { TokenService } from './token.service';
+
+// Keys look like twk_<prefix>_<secret>; the prefix identifies the key in lists and logs
+export const API_KEY_PREFIX = 'twk_';
+
+// Avoid a database write on every request from busy integrations
+const LAST_USED_UPDATE_INTERVAL_MS = 60 * 1000;
+
+/**
+ * Authenticated API key attached to the request
+ */
+export interface ApiKeyPrincipal {
+  id: string;
+  name: string;
+  prefix: string;
+  scopes: string[];
+}
+
+/**
+ * Scoped API keys for server-to-server access.
+ * Scopes are admin permissions; only the SHA-256 hash of a key is stored.
+ */
+export class ApiKeyService {
+  /**
+   * Fields safe to return (never the hash)
+   */
+  private static publicFields = {
+    id: true,
+    name: true,
+    prefix: true,
+    scopes: true,
+    createdBy: true,
+    lastUsedAt: true,
+    lastUsedIp: true,
+    expiresAt: true,
+    revokedAt: true,
+    createdAt: true
+  };
+
+  /**
+   * Check if a bearer token looks like an API key (rather than a session JWT)
+   */
+  static isApiKey(token: string): boolean {
+    return token.startsWith(API_KEY_PREFIX);
+  }
+
+  /**
+   * Create a key. The plain key is returned only here and can't be recovered later.
+   */
+  static async create(data: {
+    name: string;
+    scopes: string[];
+    createdBy?: string;
+    expiresAt?: Date;
+  }): Promise<{ apiKey: any; key: string }> {
+    const invalid = data.scopes.filter(scope => !RbacService.isPermission(scope));
+    if (invalid.length > 0) {
+      throw new Error(`Unknown scopes: ${invalid.join(', ')}`);
+    }
+
+    // Keys must list what they can do
+    if (data.scopes.length === 0 || data.scopes.includes(Permission.ALL)) {
+      throw new Error('API keys need explicit scopes');
+    }
+
+    const prefix = crypto.randomBytes(4).toString('hex');
+    const key = `${API_KEY_PREFIX}${prefix}_${crypto.randomBytes(24).toString('hex')}`;
+
+    const apiKey = await prisma.apiKey.create({
+      data: {
+        name: data.name,
+        prefix,
+        keyHash: TokenService.hashToken(key),
+        scopes: data.scopes,
+        createdBy: data.createdBy,
+        expiresAt: data.expiresAt
+      },
+      select: this.publicFields
+    });
+
+    logger.info('API key created', { apiKeyId: apiKey.id, prefix, createdBy: data.createdBy });
+    return { apiKey, key };
+  }
+
+  /**
+   * List keys
+   */
+  static async list(includeRevoked: boolean = false): Promise<any[]> {
+    return prisma.apiKey.findMany({
+      where: includeRevoked ? {} : { revokedAt: null },
+      select: this.publicFields,
+      orderBy: { createdAt: 'desc' }
+    });
+  }
+
+  /**
+   * Revoke a key
+   */
+  static async revoke(apiKeyId: string, revokedBy?: string): Promise<boolean> {
+    const result = await prisma.apiKey.updateMany({
+      where: { id: apiKeyId, revokedAt: null },
+      data: { revokedAt: new Date() }
+    });
+
+    if (result.count > 0) {
+      logger.info('API key revoked', { apiKeyId, revokedBy });
+    }
+
+    return result.count > 0;
+  }
+
+  /**
+   * Verify a key and record its use. Returns null for unknown, revoked or expired keys.
+   */
+  static async verify(key: string, ipAddress?: string): Promise<ApiKeyPrincipal | null> {
+    const apiKey = await prisma.apiKey.findUnique({
+      where: { keyHash: TokenService.hashToken(key) }
+    });
+
+    if (!apiKey || apiKey.revokedAt || (apiKey.expiresAt && apiKey.expiresAt < new Date())) {
+      return null;
+    }
+
+    const now = Date.now();
+    if (!apiKey.lastUsedAt || now - apiKey.lastUsedAt.getTime() > LAST_USED_UPDATE_INTERVAL_MS) {
+      await prisma.apiKey.update({
+        where: { id: apiKey.id },
+        data: { lastUsedAt: new Date(now), lastUsedIp: ipAddress }
+      });
+    }
+
+    return {
+      id: apiKey.id,
+      name: apiKey.name,
+      prefix: apiKey.prefix,
+      scopes: apiKey.scopes
+    };
+  }
+}
@@ -1,9 +1,27 @@
+export * from './rbac.service';
+export * from './token.service';
+export * from './two-factor.service';
+export * from './security-event.service';
+export * from './login-protection.service';
+export * from './oauth.service';
+export * from './api-key.service';
+
+import crypto from 'crypto';
 import bcrypt from 'bcryptjs';
 import jwt from 'jsonwebtoken';
 import { Request, Response, NextFunction } from 'express';
 import { prisma } from '../database';
 import { config } from '../config';
+import { mailer } from '../mailer';
 import logger from '../../utils/logger';
+import { Permission, RbacService } from './rbac.service';
+import { TokenService, TokenType } from './token.service';
+import { TwoFactorService } from './two-factor.service';
+import { SecurityEventService, SecurityEventType } from './security-event.service';
+import { LoginProtectionService } from './login-protection.service';
+import { OAuthIdentity, OAuthService } from './oauth.service';
+import { ApiKeyPrincipal, ApiKeyService } from './api-key.service';
+import { EntitlementService, Entitlements } from '../entitlements';
 
 /**
  * User payload in JWT token
@@ -11,6 +29,46 @@ import logger from '../../utils/logger';
 export interface JWTPayload {
   userId: string;
   email: string;
+  sessionId: string;
+  twoFactorVerified?: boolean;
+  // Set when an admin is signed in as this user
+  impersonatorId?: string;
+}
+
+/**
+ * Device information captured when a session is created
+ */
+export interface SessionContext {
+  userAgent?: string;
+  ipAddress?: string;
+}
+
+/**
+ * Options for new sessions
+ */
+export interface CreateSessionOptions {
+  twoFactorVerified?: boolean;
+  impersonatorId?: string;
+  // Defaults to config.jwt.refreshTokenTtlDays from now
+  expiresAt?: Date;
+}
+
+/**
+ * Returned by login when the account has 2FA enabled
+ */
+export interface TwoFactorChallenge {
+  twoFactorRequired: true;
+  challengeToken: string;
+}
+
+/**
+ * Access and refresh tokens issued for a session
+ */
+export interface AuthTokens {
+  token: string;
+  expiresAt: Date;
+  refreshToken: string;
+  refreshExpiresAt: Date;
 }
 
 /**
@@ -18,12 +76,53 @@ export interface JWTPayload {
  */
 export interface AuthRequest extends Request {
   user?: JWTPayload;
+  apiKey?: ApiKeyPrincipal;
+  permissions?: string[];
+  entitlements?: Entitlements;
+}
+
+/**
+ * Options for the authentication middleware
+ */
+export interface AuthenticateOptions {
+  // Also accept API keys (Authorization: Bearer twk_... or X-API-Key)
+  allowApiKey?: boolean;
+}
+
+/**
+ * ID of who is making the request, for audit fields (user ID or api_key:<id>)
+ */
+export function getActorId(req: AuthRequest): string | undefined {
+  if (req.user) {
+    return req.user.userId;
+  }
+
+  return req.apiKey ? `api_key:${req.apiKey.id}` : undefined;
 }
 
 /**
  * Authentication service
  */
 export class AuthService {
+  /**
+   * Remove password and 2FA secrets from a user record
+   */
+  static toPublicUser(user: any): any {
+    const {
+      password: _password,
+      twoFactorSecret: _secret,
+      twoFactorRecoveryCodes: _codes,
+      twoFactorLastStep: _step,
+      ...publicUser
+    } = user;
+
+    return {
+      ...publicUser,
+      hasPassword: !!user.password,
+      twoFactorEnabled: !!user.twoFactorEnabledAt
+    };
+  }
+
   /**
    * Hash password using bcrypt
    */
@@ -56,41 +155,99 @@ export class AuthService {
   }
 
   /**
-   * Create user session
+   * Issue a new access token and refresh token for an existing session
    */
-  static async createSession(userId: string): Promise<string> {
-    const token = this.generateToken({ userId, email: '' }); // Email will be fetched when needed
-    const expiresAt = new Date();
-    expiresAt.setDate(expiresAt.getDate() + 7); // 7 days
+  private static async issueTokens(
+    sessionId: string,
+    user: { id: string; email: string },
+    refreshExpiresAt: Date
+  ): Promise<AuthTokens> {
+    const token = this.generateToken({ userId: user.id, email: user.email, sessionId });
+    const { exp } = jwt.decode(token) as { exp: number };
 
-    await prisma.session.create({
+    const refreshToken = crypto.randomBytes(32).toString('hex');
+    await prisma.refreshToken.create({
+      data: {
+        sessionId,
+        tokenHash: TokenService.hashToken(refreshToken),
+        expiresAt: refreshExpiresAt
+      }
+    });
+
+    return {
+      token,
+      expiresAt: new Date(exp * 1000),
+      refreshToken,
+      refreshExpiresAt
+    };
+  }
+
+  /**
+   * Create user session.
+   * The access token lifetime comes from config.jwt.expiresIn; the refresh token
+   * is rotated on every use and the session lives until config.jwt.refreshTokenTtlDays.
+   */
+  static async createSession(
+    userId: string,
+    context: SessionContext = {},
+    options: CreateSessionOptions = {}
+  ): Promise<AuthTokens> {
+    const user = await prisma.user.findUnique({
+      where: { id: userId }
+    });
+
+    if (!user) {
+      throw new Error('User not found');
+    }
+
+    const expiresAt = options.expiresAt || new Date();
+    if (!options.expiresAt) {
+      expiresAt.setDate(expiresAt.getDate() + config.jwt.refreshTokenTtlDays);
+    }
+
+    const session = await prisma.session.create({
       data: {
         userId,
-        token,
+        userAgent: context.userAgent,
+        ipAddress: context.ipAddress,
+        twoFactorVerified: options.twoFactorVerified || false,
+        impersonatorId: options.impersonatorId,
         expiresAt
       }
     });
 
-    return token;
+    return this.issueTokens(session.id, user, expiresAt);
   }
 
   /**
-   * Validate session
+   * Validate access token and its session
    */
   static async validateSession(token: string): Promise<JWTPayload | null> {
+    let payload: JWTPayload;
+
+    try {
+      payload = this.verifyToken(token);
+    } catch (error) {
+      // Expired or malformed token, the client should refresh
+      return null;
+    }
+
     try {
       const session = await prisma.session.findUnique({
-        where: { token },
+        where: { id: payload.sessionId },
         include: { user: true }
       });
 
-      if (!session || session.expiresAt < new Date()) {
+      if (!session || session.revokedAt || session.expiresAt < new Date()) {
         return null;
       }
 
       return {
         userId: session.user.id,
-        email: session.user.email
+        email: session.user.email,
+        sessionId: session.id,
+        twoFactorVerified: session.twoFactorVerified,
+        impersonatorId: session.impersonatorId || undefined
       };
     } catch (error) {
       logger.error('Session validation error', error);
@@ -98,6 +255,149 @@ export class AuthService {
     }
   }
 
+  /**
+   * Exchange a refresh token for new tokens (rotation).
+   * Presenting an already rotated refresh token revokes the whole session,
+   * since it means the token was stolen and used by someone else.
+   */
+  static async refreshSession(refreshToken: string, context: SessionContext = {}): Promise<AuthTokens> {
+    const record = await prisma.refreshToken.findUnique({
+      where: { tokenHash: TokenService.hashToken(refreshToken) },
+      include: { session: { include: { user: true } } }
+    });
+
+    if (!record) {
+      throw new Error('Invalid refresh token');
+    }
+
+    const { session } = record;
+
+    if (session.revokedAt || session.expiresAt < new Date() || record.expiresAt < new Date()) {
+      throw new Error('Session expired');
+    }
+
+    // Conditional update so two concurrent refreshes can't both succeed
+    const rotated = record.usedAt
+      ? { count: 0 }
+      : await prisma.refreshToken.updateMany({
+        where: { id: record.id, usedAt: null },
+        data: { usedAt: new Date() }
+      });
+
+    if (rotated.count !== 1) {
+      await this.revokeSession(session.userId, session.id, 'refresh_token_reuse');
+      await SecurityEventService.record(SecurityEventType.REFRESH_TOKEN_REUSE, {
+        userId: session.userId,
+        ipAddress: context.ipAddress,
+        metadata: { sessionId: session.id }
+      });
+      throw new Error('Invalid refresh token');
+    }
+
+    await prisma.session.update({
+      where: { id: session.id },
+      data: {
+        lastUsedAt: new Date(),
+        ...(context.userAgent && { userAgent: context.userAgent }),
+        ...(context.ipAddress && { ipAddress: context.ipAddress })
+      }
+    });
+
+    return this.issueTokens(session.id, session.user, session.expiresAt);
+  }
+
+  /**
+   * List active sessions of a user
+   */
+  static async listSessions(userId: string): Promise<any[]> {
+    return prisma.session.findMany({
+      where: {
+        userId,
+        impersonatorId: null,
+        revokedAt: null,
+        expiresAt: { gt: new Date() }
+      },
+      orderBy: { lastUsedAt: 'desc' },
+      select: {
+        id: true,
+        userAgent: true,
+        ipAddress: true,
+        createdAt: true,
+        lastUsedAt: true,
+        expiresAt: true
+      }
+    });
+  }
+
+  /**
+   * Revoke a single session
+   */
+  static async revokeSession(userId: string, sessionId: string, reason: string = 'logout'): Promise<boolean> {
+    const result = await prisma.session.updateMany({
+      where: { id: sessionId, userId, revokedAt: null },
+      data: { revokedAt: new Date(), revokedReason: reason }
+    });
+
+    return result.count > 0;
+  }
+
+  /**
+   * Revoke all sessions of a user, optionally keeping one (the current device)
+   */
+  static async revokeAllSessions(userId: string, reason: string, exceptSessionId?: string): Promise<number> {
+    const result = await prisma.session.updateMany({
+      where: {
+        userId,
+        revokedAt: null,
+        ...(exceptSessionId && { id: { not: exceptSessionId } })
+      },
+      data: { revokedAt: new Date(), revokedReason: reason }
+    });
+
+    return result.count;
+  }
+
+  /**
+   * Start a time-limited session as another user (admin support tool).
+   * Admins can't be impersonated, so impersonation can't be used to gain permissions.
+   */
+  static async startImpersonation(
+    impersonatorId: string,
+    userId: string,
+    reason: string,
+    context: SessionContext = {}
+  ): Promise<AuthTokens> {
+    if (impersonatorId === userId) {
+      throw new Error('Cannot impersonate yourself');
+    }
+
+    const user = await prisma.user.findUnique({
+      where: { id: userId }
+    });
+
+    if (!user) {
+      throw new Error('User not found');
+    }
+
+    const permissions = await RbacService.getUserPermissions(userId);
+    if (permissions.length > 0) {
+      throw new Error('Cannot impersonate admin users');
+    }
+
+    const expiresAt = new Date(Date.now() + config.admin.impersonationTtlMinutes * 60 * 1000);
+    const tokens = await this.createSession(userId, context, { impersonatorId, expiresAt });
+    const { sessionId } = jwt.decode(tokens.token) as JWTPayload;
+
+    await SecurityEventService.record(SecurityEventType.IMPERSONATION_STARTED, {
+      userId,
+      email: user.email,
+      ipAddress: context.ipAddress,
+      metadata: { impersonatorId, sessionId, reason, expiresAt }
+    });
+
+    return tokens;
+  }
+
   /**
    * Register new user
    */
@@ -105,8 +405,9 @@ export class AuthService {
     email: string,
     password: string,
     name?: string,
-    keitaroSubId?: string
-  ): Promise<{ user: any; token: string }> {
+    keitaroSubId?: string,
+    context: SessionContext = {}
+  ): Promise<{ user: any } & AuthTokens> {
     // Check if user already exists
     const existingUser = await prisma.user.findUnique({
       where: { email }
@@ -131,61 +432,511 @@ export class AuthService {
     });
 
     // Create session
-    const token = await this.createSession(user.id);
+    const tokens = await this.createSession(user.id, context);
 
-    // Remove password from response
-    const { password: _, ...userWithoutPassword } = user;
+    // Send verification email (registration shouldn't fail if mail is down)
+    try {
+      await this.sendVerificationEmail(user.id);
+    } catch (error) {
+      logger.warn('Failed to send verification email', { userId: user.id, error });
+    }
 
     return {
-      user: userWithoutPassword,
-      token
+      user: this.toPublicUser(user),
+      ...tokens
     };
   }
 
   /**
-   * Login user
+   * Create a user without a password (magic-link sign-up, checkout-first funnels).
+   * The user signs in with magic links and can set a password later.
+   */
+  static async createPasswordlessUser(
+    email: string,
+    options: { name?: string; keitaroSubId?: string; emailVerified?: boolean } = {}
+  ): Promise<any> {
+    const existingUser = await prisma.user.findUnique({
+      where: { email }
+    });
+
+    if (existingUser) {
+      throw new Error('User already exists');
+    }
+
+    const user = await prisma.user.create({
+      data: {
+        email,
+        name: options.name,
+        emailVerifiedAt: options.emailVerified ? new Date() : null,
+        keitaroSubId: options.keitaroSubId,
+        registrationSource: options.keitaroSubId ? 'paid_traffic' : 'organic'
+      }
+    });
+
+    return this.toPublicUser(user);
+  }
+
+  /**
+   * Login user.
+   * Accounts with 2FA get a challenge token instead of a session; the login is
+   * completed with completeTwoFactorLogin().
    */
-  static async login(email: string, password: string): Promise<{ user: any; token: string }> {
+  static async login(
+    email: string,
+    password: string,
+    context: SessionContext = {}
+  ): Promise<({ user: any } & AuthTokens) | TwoFactorChallenge> {
     // Find user
     const user = await prisma.user.findUnique({
       where: { email }
     });
 
     if (!user) {
+      await LoginProtectionService.recordFailure(email, context.ipAddress);
       throw new Error('Invalid credentials');
     }
 
-    // Verify password
-    const isValidPassword = await this.verifyPassword(password, user.password);
+    // Verify password (social login accounts may not have one)
+    const isValidPassword = !!user.password && await this.verifyPassword(password, user.password);
     if (!isValidPassword) {
+      await LoginProtectionService.recordFailure(email, context.ipAddress);
       throw new Error('Invalid credentials');
     }
 
+    // The failure counter is only reset once every factor passed (see completeTwoFactorLogin)
+    if (user.twoFactorEnabledAt) {
+      return {
+        twoFactorRequired: true,
+        challengeToken: await TwoFactorService.createChallenge(user.id)
+      };
+    }
+
+    await LoginProtectionService.recordSuccess(user.id, email, context.ipAddress);
+    return this.completeLogin(user.id, context, { twoFactorVerified: false });
+  }
+
+  /**
+   * Login or register with a verified provider identity.
+   * 2FA still applies to accounts that have it enabled.
+   */
+  static async loginWithOAuth(
+    identity: OAuthIdentity,
+    keitaroSubId?: string,
+    context: SessionContext = {}
+  ): Promise<({ user: any; isNewUser: boolean } & AuthTokens) | TwoFactorChallenge> {
+    const { user, isNewUser } = await OAuthService.findOrCreateUser(identity, keitaroSubId);
+
+    if (user.twoFactorEnabledAt) {
+      return {
+        twoFactorRequired: true,
+        challengeToken: await TwoFactorService.createChallenge(user.id)
+      };
+    }
+
+    const result = await this.completeLogin(user.id, context, { twoFactorVerified: false });
+    return { ...result, isNewUser };
+  }
+
+  /**
+   * Email a sign-in link. Unknown emails get a link too, which creates the
+   * account when used, so the response never reveals whether an account exists.
+   */
+  static async requestMagicLink(
+    email: string,
+    options: { name?: string; keitaroSubId?: string } = {}
+  ): Promise<void> {
+    const token = await TokenService.issueForEmail(
+      email,
+      TokenType.MAGIC_LINK,
+      config.auth.magicLinkTtlMinutes,
+      { name: options.name, keitaroSubId: options.keitaroSubId }
+    );
+    const loginUrl = `${config.app.url}/magic-link?token=${token}`;
+
+    await mailer.send({
+      to: email,
+      subject: `Sign in to ${config.app.name}`,
+      text: `Use this link to sign in:\n\n${loginUrl}\n\n` +
+        `The link expires in ${config.auth.magicLinkTtlMinutes} minutes and can be used once. ` +
+        'If you did not request it, you can ignore this email.'
+    });
+
+    logger.info('Magic link sent');
+  }
+
+  /**
+   * Sign in with a magic-link token, creating the account on first use.
+   * Using the link proves ownership of the email, so it is marked verified. An existing
+   * account whose email was never verified is claimed first (see claimUnverifiedAccount).
+   */
+  static async consumeMagicLink(
+    token: string,
+    context: SessionContext = {}
+  ): Promise<({ user: any; isNewUser: boolean } & AuthTokens) | TwoFactorChallenge> {
+    const record = await TokenService.consumeRecord(token, TokenType.MAGIC_LINK);
+    if (!record?.email) {
+      throw new Error('Invalid or expired token');
+    }
+
+    let user = await prisma.user.findUnique({
+      where: { email: record.email }
+    });
+    const isNewUser = !user;
+
+    if (!user) {
+      const created = await this.createPasswordlessUser(record.email, {
+        name: record.metadata?.name,
+        keitaroSubId: record.metadata?.keitaroSubId,
+        emailVerified: true
+      });
+      user = await prisma.user.findUniqueOrThrow({ where: { id: created.id } });
+
+      logger.info('User registered with magic link', { userId: user.id });
+    } else if (!user.emailVerifiedAt) {
+      user = await this.claimUnverifiedAccount(user.id, context);
+    }
+
+    if (user.twoFactorEnabledAt) {
+      return {
+        twoFactorRequired: true,
+        challengeToken: await TwoFactorService.createChallenge(user.id)
+      };
+    }
+
+    const result = await this.completeLogin(user.id, context, { twoFactorVerified: false });
+    return { ...result, isNewUser };
+  }
+
+  /**
+   * Hand an account whose email was never verified to whoever just proved they own the
+   * address. Whoever registered it with that address before loses access: the password,
+   * 2FA, linked social accounts and sessions (with their refresh tokens) are removed.
+   */
+  private static async claimUnverifiedAccount(userId: string, context: SessionContext) {
+    const now = new Date();
+    const [user] = await prisma.$transaction([
+      prisma.user.update({
+        where: { id: userId },
+        data: {
+          emailVerifiedAt: now,
+          password: null,
+          twoFactorSecret: null,
+          twoFactorEnabledAt: null,
+          twoFactorRecoveryCodes: [],
+          twoFactorLastStep: null
+        }
+      }),
+      prisma.account.deleteMany({
+        where: { userId }
+      }),
+      prisma.session.updateMany({
+        where: { userId, revokedAt: null },
+        data: { revokedAt: now, revokedReason: 'account_claimed' }
+      })
+    ]);
+
+    await SecurityEventService.record(SecurityEventType.ACCOUNT_CLAIMED, {
+      userId,
+      email: user.email,
+      ipAddress: context.ipAddress
+    });
+
+    return user;
+  }
+
+  /**
+   * Complete login with the challenge token and a TOTP or recovery code.
+   * A challenge allows one attempt; wrong codes count as failed logins (delay, then lockout).
+   */
+  static async completeTwoFactorLogin(
+    challengeToken: string,
+    code: string,
+    context: SessionContext = {}
+  ): Promise<{ user: any } & AuthTokens> {
+    const userId = await TwoFactorService.consumeChallenge(challengeToken);
+    if (!userId) {
+      throw new Error('Invalid or expired challenge');
+    }
+
+    const user = await prisma.user.findUniqueOrThrow({
+      where: { id: userId },
+      select: { email: true }
+    });
+
+    const check = await LoginProtectionService.check(user.email, context.ipAddress);
+    if (!check.allowed) {
+      throw new Error('Too many login attempts, please try again later');
+    }
+
+    const valid = await TwoFactorService.verify(userId, code);
+    if (!valid) {
+      await LoginProtectionService.recordFailure(user.email, context.ipAddress);
+      throw new Error('Invalid code');
+    }
+
+    await LoginProtectionService.recordSuccess(userId, user.email, context.ipAddress);
+    return this.completeLogin(userId, context, { twoFactorVerified: true });
+  }
+
+  /**
+   * Update last login and create session
+   */
+  private static async completeLogin(
+    userId: string,
+    context: SessionContext,
+    options: CreateSessionOptions
+  ): Promise<{ user: any } & AuthTokens> {
     // Update last login
-    await prisma.user.update({
-      where: { id: user.id },
+    const user = await prisma.user.update({
+      where: { id: userId },
       data: { lastLoginAt: new Date() }
     });
 
     // Create session
-    const token = await this.createSession(user.id);
-
-    // Remove password from response
-    const { password: _, ...userWithoutPassword } = user;
+    const tokens = await this.createSession(user.id, context, options);
 
     return {
-      user: userWithoutPassword,
-      token
+      user: this.toPublicUser(user),
+      ...tokens
     };
   }
 
   /**
-   * Logout user
+   * Logout user (revokes the session of the access token)
    */
   static async logout(token: string): Promise<void> {
-    await prisma.session.delete({
-      where: { token }
+    let payload: JWTPayload;
+
+    try {
+      // Expired access tokens can still be used to end their session
+      payload = jwt.verify(token, config.jwt.secret, { ignoreExpiration: true }) as JWTPayload;
+    } catch (error) {
+      return;
+    }
+
+    const revoked = await this.revokeSession(payload.userId, payload.sessionId, 'logout');
+
+    // Close the audit trail of impersonation sessions
+    if (revoked) {
+      const session = await prisma.session.findUnique({
+        where: { id: payload.sessionId },
+        select: { impersonatorId: true }
+      });
+
+      if (session?.impersonatorId) {
+        await SecurityEventService.record(SecurityEventType.IMPERSONATION_ENDED, {
+          userId: payload.userId,
+          metadata: { impersonatorId: session.impersonatorId, sessionId: payload.sessionId }
+        });
+      }
+    }
+  }
+
+  /**
+   * Send password reset email.
+   * Does nothing for unknown emails so the response can't be used to enumerate accounts.
+   */
+  static async requestPasswordReset(email: string): Promise<void> {
+    const user = await prisma.user.findUnique({
+      where: { email }
+    });
+
+    if (!user) {
+      logger.info('Password reset requested for unknown email');
+      return;
+    }
+
+    const token = await TokenService.issue(
+      user.id,
+      TokenType.PASSWORD_RESET,
+      config.auth.passwordResetTtlMinutes
+    );
+    const resetUrl = `${config.app.url}/reset-password?token=${token}`;
+
+    await mailer.send({
+      to: user.email,
+      subject: `Reset your ${config.app.name} password`,
+      text: `Use this link to reset your password:\n\n${resetUrl}\n\n` +
+        `The link expires in ${config.auth.passwordResetTtlMinutes} minutes. ` +
+        'If you did not request a password reset, you can ignore this email.'
+    });
+
+    logger.info('Password reset email sent', { userId: user.id });
+  }
+
+  /**
+   * Reset password using a token from the reset email
+   */
+  static async resetPassword(token: string, newPassword: string): Promise<void> {
+    const userId = await TokenService.consume(token, TokenType.PASSWORD_RESET);
+    if (!userId) {
+      throw new Error('Invalid or expired token');
+    }
+
+    const hashedPassword = await this.hashPassword(newPassword);
+
+    await prisma.user.update({
+      where: { id: userId },
+      data: { password: hashedPassword }
+    });
+
+    // Log out everywhere in case the old password was compromised
+    await this.revokeAllSessions(userId, 'password_reset');
+
+    logger.info('Password reset', { userId });
+  }
+
+  /**
+   * Set or change the password of a signed-in user.
+   * Accounts created without a password (magic link, social login) can set one
+   * directly; otherwise the current password is required.
+   */
+  static async setPassword(
+    userId: string,
+    newPassword: string,
+    currentPassword?: string,
+    currentSessionId?: string
+  ): Promise<void> {
+    const user = await prisma.user.findUnique({
+      where: { id: userId }
+    });
+
+    if (!user) {
+      throw new Error('User not found');
+    }
+
+    if (user.password) {
+      const isValid = !!currentPassword && await this.verifyPassword(currentPassword, user.password);
+      if (!isValid) {
+        throw new Error('Current password is incorrect');
+      }
+    }
+
+    await prisma.user.update({
+      where: { id: userId },
+      data: { password: await this.hashPassword(newPassword) }
+    });
+
+    // Other devices signed in with the old password are logged out
+    if (user.password) {
+      await this.revokeAllSessions(userId, 'password_changed', currentSessionId);
+    }
+
+    logger.info(user.password ? 'Password changed' : 'Password set', { userId });
+  }
+
+  /**
+   * Send email verification link
+   */
+  static async sendVerificationEmail(userId: string): Promise<void> {
+    const user = await prisma.user.findUnique({
+      where: { id: userId }
+    });
+
+    if (!user) {
+      throw new Error('User not found');
+    }
+
+    if (user.emailVerifiedAt) {
+      throw new Error('Email already verified');
+    }
+
+    const token = await TokenService.issue(
+      user.id,
+      TokenType.EMAIL_VERIFICATION,
+      config.auth.emailVerificationTtlMinutes
+    );
+    const verifyUrl = `${config.app.url}/verify-email?token=${token}`;
+
+    await mailer.send({
+      to: user.email,
+      subject: `Confirm your ${config.app.name} email`,
+      text: `Please confirm your email address:\n\n${verifyUrl}`
+    });
+
+    logger.info('Verification email sent', { userId: user.id });
+  }
+
+  /**
+   * Start an email change. The new address gets a confirmation link, and the account
+   * keeps its current email until the link is used.
+   */
+  static async requestEmailChange(userId: string, email: string): Promise<void> {
+    const existingUser = await prisma.user.findUnique({
+      where: { email }
+    });
+
+    if (existingUser) {
+      throw new Error('Email already in use');
+    }
+
+    const token = await TokenService.issue(
+      userId,
+      TokenType.EMAIL_CHANGE,
+      config.auth.emailVerificationTtlMinutes,
+      { email }
+    );
+    const confirmUrl = `${config.app.url}/confirm-email?token=${token}`;
+
+    await mailer.send({
+      to: email,
+      subject: `Confirm your new ${config.app.name} email`,
+      text: `Please confirm your new email address:\n\n${confirmUrl}`
+    });
+
+    logger.info('Email change requested', { userId });
+  }
+
+  /**
+   * Apply an email change using the token from the confirmation email.
+   * Returns the user before and after the change.
+   */
+  static async confirmEmailChange(token: string): Promise<{ before: any; after: any }> {
+    const record = await TokenService.consumeRecord(token, TokenType.EMAIL_CHANGE);
+    if (!record?.userId || !record.metadata?.email) {
+      throw new Error('Invalid or expired token');
+    }
+
+    const before = await prisma.user.findUnique({
+      where: { id: record.userId }
+    });
+
+    if (!before) {
+      throw new Error('User not found');
+    }
+
+    try {
+      const after = await prisma.user.update({
+        where: { id: record.userId },
+        data: { email: record.metadata.email, emailVerifiedAt: new Date() }
+      });
+
+      logger.info('Email changed', { userId: record.userId });
+      return { before, after };
+    } catch (error: any) {
+      // Taken by another account since the change was requested
+      if (error.code === 'P2002') {
+        throw new Error('Email already in use');
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Verify email using a token from the verification email
+   */
+  static async verifyEmail(token: string): Promise<void> {
+    const userId = await TokenService.consume(token, TokenType.EMAIL_VERIFICATION);
+    if (!userId) {
+      throw new Error('Invalid or expired token');
+    }
+
+    await prisma.user.update({
+      where: { id: userId },
+      data: { emailVerifiedAt: new Date() }
     });
+
+    logger.info('Email verified', { userId });
   }
 
   /**
@@ -200,20 +951,19 @@ export class AuthService {
       return null;
     }
 
-    // Remove password from response
-    const { password: _, ...userWithoutPassword } = user;
-    return userWithoutPassword;
+    return this.toPublicUser(user);
   }
 }
 
 /**
  * Authentication middleware
  */
-export function authenticate(required: boolean = true) {
+export function authenticate(required: boolean = true, options: AuthenticateOptions = {}) {
   return async (req: AuthRequest, res: Response, next: NextFunction) => {
     try {
       // Get token from header or cookie
       const token = req.headers.authorization?.replace('Bearer ', '') || 
+                   req.get('x-api-key') ||
                    req.cookies?.token;
 
       if (!token) {
@@ -223,6 +973,21 @@ export function authenticate(required: boolean = true) {
         return next();
       }
 
+      if (ApiKeyService.isApiKey(token)) {
+        if (!options.allowApiKey) {
+          return res.status(401).json({ error: 'API keys are not accepted for this endpoint' });
+        }
+
+        const apiKey = await ApiKeyService.verify(token, req.ip);
+        if (!apiKey) {
+          return res.status(401).json({ error: 'Invalid or revoked API key' });
+        }
+
+        req.apiKey = apiKey;
+        req.permissions = apiKey.scopes;
+        return next();
+      }
+
       // Validate session
       const payload = await AuthService.validateSession(token);
       if (!payload) {
@@ -246,7 +1011,70 @@ export function authenticate(required: boolean = true) {
 }
 
 /**
- * Check if user has active subscription
+ * Require the session to be verified with 2FA (use after authenticate)
+ */
+export function requireTwoFactor(req: AuthRequest, res: Response, next: NextFunction) {
+  if (!req.user) {
+    return res.status(401).json({ error: 'Authentication required' });
+  }
+
+  if (!req.user.twoFactorVerified) {
+    return res.status(403).json({
+      error: 'Two-factor authentication required',
+      twoFactorRequired: true
+    });
+  }
+
+  return next();
+}
+
+/**
+ * Block the route for impersonation sessions (use after authenticate).
+ * Protects destructive and payment actions from being taken on a user's behalf.
+ */
+export function blockImpersonation(req: AuthRequest, res: Response, next: NextFunction) {
+  if (req.user?.impersonatorId) {
+    return res.status(403).json({
+      error: 'This action is not allowed while impersonating a user',
+      impersonating: true
+    });
+  }
+
+  return next();
+}
+
+/**
+ * Permission check middleware (use after authenticate)
+ */
+export function requirePermission(...permissions: Permission[]) {
+  return async (req: AuthRequest, res: Response, next: NextFunction) => {
+    if (!req.user && !req.apiKey) {
+      return res.status(401).json({ error: 'Authentication required' });
+    }
+
+    try {
+      // Permissions may already be loaded by requireAdmin (or are the API key scopes)
+      if (!req.permissions) {
+        req.permissions = await RbacService.getUserPermissions(req.user!.userId);
+      }
+
+      const granted = req.permissions;
+      const missing = permissions.filter(p => !RbacService.hasPermission(granted, p));
+      if (missing.length > 0) {
+        return res.status(403).json({ error: 'Insufficient permissions', missing });
+      }
+
+      return next();
+    } catch (error) {
+      logger.error('Permission check error', error);
+      return res.status(500).json({ error: 'Failed to check permissions' });
+    }
+  };
+}
+
+/**
+ * Check if user has a subscription that grants access
+ * (active, trialing or within the past_due grace period; see EntitlementService.getAccess)
  */
 export async function requireSubscription(
   req: AuthRequest,
@@ -261,7 +1089,7 @@ export async function requireSubscription(
     where: { id: req.user.userId }
   });
 
-  if (!user || user.subscriptionStatus !== 'active') {
+  if (!user || !EntitlementService.getAccess(user).active) {
     return res.status(403).json({ error: 'Active subscription required' });
   }
 
@@ -0,0 +1,267 @@
+import { prisma } from '../database';
+import { config } from '../config';
+import logger from '../../utils/logger';
+import { SecurityEventService, SecurityEventType } from './security-event.service';
+
+/**
+ * Result of a login throttling check
+ */
+export interface LoginCheckResult {
+  allowed: boolean;
+  retryAfterSeconds?: number;
+}
+
+/**
+ * Brute-force protection for password login.
+ * Failures are tracked per account (progressive delay, then lockout) and per IP (block).
+ */
+export class LoginProtectionService {
+  /**
+   * Start of the per-IP counting window
+   */
+  private static ipWindowStart(): Date {
+    return new Date(Date.now() - config.security.loginProtection.ipWindowMinutes * 60 * 1000);
+  }
+
+  /**
+   * Delay required after N consecutive failures (doubles each time)
+   */
+  static getDelaySeconds(failedCount: number): number {
+    const { baseDelaySeconds, maxDelaySeconds } = config.security.loginProtection;
+    if (failedCount <= 0) {
+      return 0;
+    }
+
+    return Math.min(baseDelaySeconds * 2 ** (failedCount - 1), maxDelaySeconds);
+  }
+
+  /**
+   * Check if a login attempt may proceed
+   */
+  static async check(email: string, ipAddress?: string): Promise<LoginCheckResult> {
+    const now = Date.now();
+
+    // Per-IP block
+    if (ipAddress) {
+      const failures = await prisma.loginAttempt.findMany({
+        where: {
+          ipAddress,
+          success: false,
+          cleared: false,
+          createdAt: { gte: this.ipWindowStart() }
+        },
+        orderBy: { createdAt: 'asc' },
+        select: { createdAt: true }
+      });
+
+      if (failures.length >= config.security.loginProtection.maxIpFailures) {
+        const windowMs = config.security.loginProtection.ipWindowMinutes * 60 * 1000;
+        const unblockAt = failures[0].createdAt.getTime() + windowMs;
+        return { allowed: false, retryAfterSeconds: Math.ceil((unblockAt - now) / 1000) };
+      }
+    }
+
+    const user = await prisma.user.findUnique({
+      where: { email },
+      select: { failedLoginCount: true, lastFailedLoginAt: true, lockedUntil: true }
+    });
+
+    if (!user) {
+      return { allowed: true };
+    }
+
+    // Account lockout
+    if (user.lockedUntil && user.lockedUntil.getTime() > now) {
+      return {
+        allowed: false,
+        retryAfterSeconds: Math.ceil((user.lockedUntil.getTime() - now) / 1000)
+      };
+    }
+
+    // Progressive delay between failed attempts
+    if (user.lastFailedLoginAt && user.failedLoginCount > 0) {
+      const nextAllowedAt = user.lastFailedLoginAt.getTime() +
+        this.getDelaySeconds(user.failedLoginCount) * 1000;
+
+      if (nextAllowedAt > now) {
+        return { allowed: false, retryAfterSeconds: Math.ceil((nextAllowedAt - now) / 1000) };
+      }
+    }
+
+    return { allowed: true };
+  }
+
+  /**
+   * Record a failed login attempt
+   */
+  static async recordFailure(email: string, ipAddress?: string): Promise<void> {
+    const { maxAccountFailures, lockoutMinutes, maxIpFailures } = config.security.loginProtection;
+
+    const user = await prisma.user.findUnique({
+      where: { email },
+      select: { id: true }
+    });
+
+    await prisma.loginAttempt.create({
+      data: {
+        email,
+        userId: user?.id,
+        ipAddress,
+        success: false
+      }
+    });
+
+    if (user) {
+      // Atomic increment, so parallel attempts (checked before any of them failed) all count
+      await prisma.user.updateMany({
+        where: { id: user.id },
+        data: {
+          failedLoginCount: { increment: 1 },
+          lastFailedLoginAt: new Date()
+        }
+      });
+
+      // Lock once the count reaches the limit. The counter restarts after a lockout, so the
+      // next lockout needs a full new series; only one of parallel attempts gets to lock.
+      const locked = await prisma.user.updateMany({
+        where: { id: user.id, failedLoginCount: { gte: maxAccountFailures } },
+        data: {
+          failedLoginCount: 0,
+          lockedUntil: new Date(Date.now() + lockoutMinutes * 60 * 1000)
+        }
+      });
+
+      if (locked.count > 0) {
+        await SecurityEventService.record(SecurityEventType.ACCOUNT_LOCKED, {
+          userId: user.id,
+          email,
+          ipAddress,
+          metadata: { failedAttempts: maxAccountFailures, lockoutMinutes }
+        });
+      }
+    }
+
+    if (ipAddress) {
+      const ipFailures = await prisma.loginAttempt.count({
+        where: {
+          ipAddress,
+          success: false,
+          cleared: false,
+          createdAt: { gte: this.ipWindowStart() }
+        }
+      });
+
+      if (ipFailures === maxIpFailures) {
+        await SecurityEventService.record(SecurityEventType.IP_BLOCKED, {
+          email,
+          ipAddress,
+          metadata: {
+            failedAttempts: ipFailures,
+            windowMinutes: config.security.loginProtection.ipWindowMinutes
+          }
+        });
+      }
+    }
+  }
+
+  /**
+   * Record a successful password check (resets the account counter)
+   */
+  static async recordSuccess(userId: string, email: string, ipAddress?: string): Promise<void> {
+    await prisma.loginAttempt.create({
+      data: {
+        email,
+        userId,
+        ipAddress,
+        success: true
+      }
+    });
+
+    await prisma.user.update({
+      where: { id: userId },
+      data: {
+        failedLoginCount: 0,
+        lastFailedLoginAt: null,
+        lockedUntil: null
+      }
+    });
+  }
+
+  /**
+   * List locked accounts and blocked IPs
+   */
+  static async listLockouts(): Promise<{ accounts: any[]; ips: any[] }> {
+    const [accounts, ipGroups] = await Promise.all([
+      prisma.user.findMany({
+        where: { lockedUntil: { gt: new Date() } },
+        select: {
+          id: true,
+          email: true,
+          lockedUntil: true,
+          lastFailedLoginAt: true
+        },
+        orderBy: { lockedUntil: 'desc' }
+      }),
+      prisma.loginAttempt.groupBy({
+        by: ['ipAddress'],
+        where: {
+          success: false,
+          cleared: false,
+          ipAddress: { not: null },
+          createdAt: { gte: this.ipWindowStart() }
+        },
+        _count: true,
+        _max: { createdAt: true }
+      })
+    ]);
+
+    const ips = ipGroups
+      .filter(group => group._count >= config.security.loginProtection.maxIpFailures)
+      .map(group => ({
+        ipAddress: group.ipAddress,
+        failedAttempts: group._count,
+        lastAttemptAt: group._max.createdAt
+      }));
+
+    return { accounts, ips };
+  }
+
+  /**
+   * Clear account lockout (admin action)
+   */
+  static async unlockAccount(userId: string, clearedBy?: string): Promise<void> {
+    const user = await prisma.user.update({
+      where: { id: userId },
+      data: {
+        failedLoginCount: 0,
+        lastFailedLoginAt: null,
+        lockedUntil: null
+      }
+    });
+
+    await SecurityEventService.record(SecurityEventType.ACCOUNT_UNLOCKED, {
+      userId,
+      email: user.email,
+      metadata: { clearedBy }
+    });
+
+    logger.info('Account unlocked', { userId, clearedBy });
+  }
+
+  /**
+   * Clear IP block (admin action)
+   */
+  static async unblockIp(ipAddress: string, clearedBy?: string): Promise<void> {
+    await prisma.loginAttempt.updateMany({
+      where: { ipAddress, success: false, cleared: false },
+      data: { cleared: true }
+    });
+
+    await SecurityEventService.record(SecurityEventType.IP_UNBLOCKED, {
+      ipAddress,
+      metadata: { clearedBy }
+    });
+
+    logger.info('IP unblocked', { ipAddress, clearedBy });
+  }
+}
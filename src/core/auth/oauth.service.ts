@@ -0,0 +1,521 @@
+import crypto from 'crypto';
+import axios from 'axios';
+import jwt from 'jsonwebtoken';
+import { prisma } from '../database';
+import { config } from '../config';
+import logger from '../../utils/logger';
+
+const STATE_PURPOSE = 'oauth_state';
+const STATE_TTL_SECONDS = 600;
+
+/**
+ * Supported identity providers
+ */
+export enum OAuthProviderName {
+  GOOGLE = 'google',
+  APPLE = 'apple',
+  OIDC = 'oidc'
+}
+
+/**
+ * OpenID Connect endpoints of a provider
+ */
+export interface OidcEndpoints {
+  issuer: string | [string, ...string[]];
+  authorizationEndpoint: string;
+  tokenEndpoint: string;
+  jwksUri: string;
+}
+
+/**
+ * Identity provider used for the authorization-code flow
+ */
+export interface OAuthProvider {
+  name: OAuthProviderName;
+  clientId: string;
+  scopes: string[];
+  getEndpoints(): Promise<OidcEndpoints>;
+  getClientSecret(): string;
+  // Extra parameters for the authorization request
+  authorizationParams?: Record<string, string>;
+}
+
+/**
+ * State kept in a signed cookie during the redirect round-trip
+ */
+export interface OAuthState {
+  provider: OAuthProviderName;
+  state: string;
+  codeVerifier: string;
+  nonce: string;
+  clickId?: string;
+}
+
+/**
+ * Identity returned by a provider
+ */
+export interface OAuthIdentity {
+  provider: OAuthProviderName;
+  providerAccountId: string;
+  email?: string;
+  emailVerified: boolean;
+  name?: string;
+}
+
+/**
+ * Provider built from discovery, for generic OIDC issuers
+ */
+function createDiscoveryProvider(
+  name: OAuthProviderName,
+  issuer: string,
+  clientId: string,
+  clientSecret: string,
+  scopes: string[]
+): OAuthProvider {
+  let endpoints: OidcEndpoints | null = null;
+
+  return {
+    name,
+    clientId,
+    scopes,
+    getClientSecret: () => clientSecret,
+    async getEndpoints() {
+      if (!endpoints) {
+        const url = `${issuer.replace(/\/$/, '')}/.well-known/openid-configuration`;
+        const { data } = await axios.get(url, { timeout: 10000 });
+
+        endpoints = {
+          issuer: data.issuer,
+          authorizationEndpoint: data.authorization_endpoint,
+          tokenEndpoint: data.token_endpoint,
+          jwksUri: data.jwks_uri
+        };
+      }
+
+      return endpoints;
+    }
+  };
+}
+
+/**
+ * Google (static endpoints, no discovery request needed)
+ */
+function createGoogleProvider(): OAuthProvider {
+  return {
+    name: OAuthProviderName.GOOGLE,
+    clientId: config.oauth.google.clientId,
+    scopes: ['openid', 'email', 'profile'],
+    getClientSecret: () => config.oauth.google.clientSecret,
+    authorizationParams: { prompt: 'select_account' },
+    getEndpoints: async () => ({
+      // Google ID tokens use either form of the issuer
+      issuer: ['https://accounts.google.com', 'accounts.google.com'],
+      authorizationEndpoint: 'https://accounts.google.com/o/oauth2/v2/auth',
+      tokenEndpoint: 'https://oauth2.googleapis.com/token',
+      jwksUri: 'https://www.googleapis.com/oauth2/v3/certs'
+    })
+  };
+}
+
+/**
+ * Sign in with Apple.
+ * The client secret is a short-lived ES256 JWT signed with the key from the developer account,
+ * and the callback is a form POST because name/email scopes are requested.
+ */
+function createAppleProvider(): OAuthProvider {
+  const { clientId, teamId, keyId, privateKey } = config.oauth.apple;
+
+  return {
+    name: OAuthProviderName.APPLE,
+    clientId,
+    scopes: ['name', 'email'],
+    authorizationParams: { response_mode: 'form_post' },
+    getClientSecret: () => jwt.sign({}, privateKey.replace(/\\n/g, '\n'), {
+      algorithm: 'ES256',
+      keyid: keyId,
+      issuer: teamId,
+      audience: 'https://appleid.apple.com',
+      subject: clientId,
+      expiresIn: '5m'
+    }),
+    getEndpoints: async () => ({
+      issuer: 'https://appleid.apple.com',
+      authorizationEndpoint: 'https://appleid.apple.com/auth/authorize',
+      tokenEndpoint: 'https://appleid.apple.com/auth/token',
+      jwksUri: 'https://appleid.apple.com/auth/keys'
+    })
+  };
+}
+
+/**
+ * Build providers that are configured in the environment
+ */
+function createProviders(): Map<OAuthProviderName, OAuthProvider> {
+  const providers = new Map<OAuthProviderName, OAuthProvider>();
+
+  if (config.oauth.google.clientId) {
+    providers.set(OAuthProviderName.GOOGLE, createGoogleProvider());
+  }
+
+  if (config.oauth.apple.clientId) {
+    providers.set(OAuthProviderName.APPLE, createAppleProvider());
+  }
+
+  if (config.oauth.oidc.issuer && config.oauth.oidc.clientId) {
+    providers.set(OAuthProviderName.OIDC, createDiscoveryProvider(
+      OAuthProviderName.OIDC,
+      config.oauth.oidc.issuer,
+      config.oauth.oidc.clientId,
+      config.oauth.oidc.clientSecret,
+      config.oauth.oidc.scopes
+    ));
+  }
+
+  return providers;
+}
+
+/**
+ * Base64url without padding (PKCE, RFC 7636)
+ */
+function base64Url(buffer: Buffer): string {
+  return buffer.toString('base64').replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+/**
+ * OAuth 2.0 / OpenID Connect social login (authorization-code flow with PKCE)
+ */
+export class OAuthService {
+  private static providers = createProviders();
+  private static jwksCache = new Map<string, { keys: any[]; fetchedAt: number }>();
+
+  /**
+   * Register or replace a provider (custom identity providers)
+   */
+  static registerProvider(provider: OAuthProvider): void {
+    this.providers.set(provider.name, provider);
+  }
+
+  /**
+   * Names of enabled providers
+   */
+  static getEnabledProviders(): OAuthProviderName[] {
+    return Array.from(this.providers.keys());
+  }
+
+  /**
+   * Get provider by name
+   */
+  static getProvider(name: string): OAuthProvider {
+    const provider = this.providers.get(name as OAuthProviderName);
+    if (!provider) {
+      throw new Error('Unknown or disabled provider');
+    }
+
+    return provider;
+  }
+
+  /**
+   * Callback URL registered with the provider
+   */
+  static getRedirectUri(provider: OAuthProviderName): string {
+    return `${config.app.url}/api/auth/oauth/${provider}/callback`;
+  }
+
+  /**
+   * Build the authorization URL and the state to keep until the callback
+   */
+  static async createAuthorization(
+    providerName: string,
+    clickId?: string
+  ): Promise<{ url: string; stateToken: string }> {
+    const provider = this.getProvider(providerName);
+    const endpoints = await provider.getEndpoints();
+
+    const state: OAuthState = {
+      provider: provider.name,
+      state: base64Url(crypto.randomBytes(16)),
+      codeVerifier: base64Url(crypto.randomBytes(32)),
+      nonce: base64Url(crypto.randomBytes(16)),
+      clickId
+    };
+
+    const codeChallenge = base64Url(
+      crypto.createHash('sha256').update(state.codeVerifier).digest()
+    );
+
+    const params = new URLSearchParams({
+      response_type: 'code',
+      client_id: provider.clientId,
+      redirect_uri: this.getRedirectUri(provider.name),
+      scope: provider.scopes.join(' '),
+      state: state.state,
+      nonce: state.nonce,
+      code_challenge: codeChallenge,
+      code_challenge_method: 'S256',
+      ...provider.authorizationParams
+    });
+
+    return {
+      url: `${endpoints.authorizationEndpoint}?${params.toString()}`,
+      stateToken: jwt.sign({ ...state, purpose: STATE_PURPOSE }, config.jwt.secret, {
+        expiresIn: STATE_TTL_SECONDS
+      })
+    };
+  }
+
+  /**
+   * Lifetime of the state cookie
+   */
+  static getStateTtlSeconds(): number {
+    return STATE_TTL_SECONDS;
+  }
+
+  /**
+   * Verify the state cookie against the state returned by the provider
+   */
+  static verifyState(stateToken: string | undefined, providerName: string, state: string): OAuthState {
+    if (!stateToken) {
+      throw new Error('Missing OAuth state');
+    }
+
+    let payload: OAuthState & { purpose?: string };
+    try {
+      payload = jwt.verify(stateToken, config.jwt.secret) as OAuthState & { purpose?: string };
+    } catch (error) {
+      throw new Error('Invalid or expired OAuth state');
+    }
+
+    const matches = payload.purpose === STATE_PURPOSE &&
+      payload.provider === providerName &&
+      typeof state === 'string' &&
+      payload.state.length === state.length &&
+      crypto.timingSafeEqual(Buffer.from(payload.state), Buffer.from(state));
+
+    if (!matches) {
+      throw new Error('Invalid OAuth state');
+    }
+
+    return payload;
+  }
+
+  /**
+   * Exchange the authorization code and verify the ID token
+   */
+  static async exchangeCode(oauthState: OAuthState, code: string): Promise<OAuthIdentity> {
+    const provider = this.getProvider(oauthState.provider);
+    const endpoints = await provider.getEndpoints();
+
+    const { data } = await axios.post(
+      endpoints.tokenEndpoint,
+      new URLSearchParams({
+        grant_type: 'authorization_code',
+        code,
+        redirect_uri: this.getRedirectUri(provider.name),
+        client_id: provider.clientId,
+        client_secret: provider.getClientSecret(),
+        code_verifier: oauthState.codeVerifier
+      }).toString(),
+      {
+        headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+        timeout: 10000
+      }
+    );
+
+    if (!data.id_token) {
+      throw new Error('Provider did not return an ID token');
+    }
+
+    const claims = await this.verifyIdToken(provider, endpoints, data.id_token, oauthState.nonce);
+
+    return {
+      provider: provider.name,
+      providerAccountId: claims.sub,
+      email: claims.email?.toLowerCase(),
+      // Apple sends booleans as strings
+      emailVerified: claims.email_verified === true || claims.email_verified === 'true',
+      name: claims.name
+    };
+  }
+
+  /**
+   * Verify ID token signature (provider JWKS), issuer, audience, expiry and nonce
+   */
+  private static async verifyIdToken(
+    provider: OAuthProvider,
+    endpoints: OidcEndpoints,
+    idToken: string,
+    nonce: string
+  ): Promise<any> {
+    const decoded = jwt.decode(idToken, { complete: true });
+    if (!decoded || typeof decoded.payload === 'string') {
+      throw new Error('Invalid ID token');
+    }
+
+    const jwk = await this.getSigningKey(endpoints.jwksUri, decoded.header.kid);
+    const publicKey = crypto.createPublicKey({ key: jwk, format: 'jwk' });
+
+    const claims = jwt.verify(idToken, publicKey.export({ format: 'pem', type: 'spki' }) as string, {
+      algorithms: ['RS256', 'ES256'],
+      issuer: endpoints.issuer,
+      audience: provider.clientId
+    }) as any;
+
+    if (claims.nonce !== nonce) {
+      throw new Error('Invalid ID token nonce');
+    }
+
+    return claims;
+  }
+
+  /**
+   * Find a signing key in the provider JWKS (refetched when the key is unknown, for key rotation)
+   */
+  private static async getSigningKey(jwksUri: string, kid?: string): Promise<any> {
+    const cached = this.jwksCache.get(jwksUri);
+    const findKey = (keys: any[]) => keys.find(key => !kid || key.kid === kid);
+
+    if (cached && Date.now() - cached.fetchedAt < 60 * 60 * 1000) {
+      const key = findKey(cached.keys);
+      if (key) {
+        return key;
+      }
+    }
+
+    const { data } = await axios.get(jwksUri, { timeout: 10000 });
+    this.jwksCache.set(jwksUri, { keys: data.keys, fetchedAt: Date.now() });
+
+    const key = findKey(data.keys);
+    if (!key) {
+      throw new Error('ID token signing key not found');
+    }
+
+    return key;
+  }
+
+  /**
+   * Find or create the user for a provider identity.
+   * Existing accounts are linked by email only when both the provider and the account
+   * have verified it. Otherwise anyone could take over an account by using its email at
+   * a provider, or keep access to an account they registered with someone else's email.
+   */
+  static async findOrCreateUser(
+    identity: OAuthIdentity,
+    keitaroSubId?: string
+  ): Promise<{ user: any; isNewUser: boolean }> {
+    const account = await prisma.account.findUnique({
+      where: {
+        provider_providerAccountId: {
+          provider: identity.provider,
+          providerAccountId: identity.providerAccountId
+        }
+      },
+      include: { user: true }
+    });
+
+    if (account) {
+      return { user: account.user, isNewUser: false };
+    }
+
+    if (!identity.email) {
+      throw new Error('Provider did not return an email address');
+    }
+
+    const existingUser = await prisma.user.findUnique({
+      where: { email: identity.email }
+    });
+
+    if (existingUser) {
+      if (!identity.emailVerified) {
+        throw new Error('An account with this email already exists');
+      }
+
+      if (!existingUser.emailVerifiedAt) {
+        throw new Error('An account with this email already exists. Confirm its email before signing in with a provider');
+      }
+
+      await this.linkAccount(existingUser.id, identity);
+      return { user: existingUser, isNewUser: false };
+    }
+
+    const user = await prisma.user.create({
+      data: {
+        email: identity.email,
+        name: identity.name,
+        emailVerifiedAt: identity.emailVerified ? new Date() : null,
+        keitaroSubId,
+        registrationSource: keitaroSubId ? 'paid_traffic' : 'organic',
+        accounts: {
+          create: {
+            provider: identity.provider,
+            providerAccountId: identity.providerAccountId,
+            email: identity.email
+          }
+        }
+      }
+    });
+
+    logger.info('User registered with OAuth', { userId: user.id, provider: identity.provider });
+    return { user, isNewUser: true };
+  }
+
+  /**
+   * Link a provider identity to a user
+   */
+  static async linkAccount(userId: string, identity: OAuthIdentity): Promise<void> {
+    await prisma.account.create({
+      data: {
+        userId,
+        provider: identity.provider,
+        providerAccountId: identity.providerAccountId,
+        email: identity.email
+      }
+    });
+
+    logger.info('OAuth account linked', { userId, provider: identity.provider });
+  }
+
+  /**
+   * List linked provider accounts of a user
+   */
+  static async listAccounts(userId: string): Promise<any[]> {
+    return prisma.account.findMany({
+      where: { userId },
+      select: {
+        id: true,
+        provider: true,
+        email: true,
+        createdAt: true
+      },
+      orderBy: { createdAt: 'asc' }
+    });
+  }
+
+  /**
+   * Unlink a provider. The user must keep a password or another provider to sign in with.
+   */
+  static async unlinkAccount(userId: string, provider: string): Promise<void> {
+    const user = await prisma.user.findUnique({
+      where: { id: userId },
+      include: { accounts: true }
+    });
+
+    if (!user) {
+      throw new Error('User not found');
+    }
+
+    const account = user.accounts.find(a => a.provider === provider);
+    if (!account) {
+      throw new Error('Account not linked');
+    }
+
+    if (!user.password && user.accounts.length === 1) {
+      throw new Error('Set a password before unlinking your last sign-in method');
+    }
+
+    await prisma.account.delete({
+      where: { id: account.id }
+    });
+
+    logger.info('OAuth account unlinked', { userId, provider });
+  }
+}
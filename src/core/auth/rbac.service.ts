@@ -0,0 +1,175 @@
+import { prisma } from '../database';
+import { config } from '../config';
+import logger from '../../utils/logger';
+
+/**
+ * Permissions that can be granted to roles
+ */
+export enum Permission {
+  ALL = '*',
+  USERS_READ = 'users:read',
+  USERS_WRITE = 'users:write',
+  USERS_IMPERSONATE = 'users:impersonate',
+  BILLING_READ = 'billing:read',
+  BILLING_WRITE = 'billing:write',
+  BILLING_REFUND = 'billing:refund',
+  ANALYTICS_READ = 'analytics:read',
+  TRACKING_RETRY = 'tracking:retry',
+  WEBHOOKS_REPLAY = 'webhooks:replay',
+  LOGS_READ = 'logs:read',
+  ROLES_MANAGE = 'roles:manage',
+  AUDIT_READ = 'audit:read',
+  API_KEYS_MANAGE = 'api_keys:manage'
+}
+
+/**
+ * Role definition
+ */
+export interface RoleDefinition {
+  name: string;
+  description?: string;
+  permissions: Permission[];
+}
+
+/**
+ * Roles created on startup if they don't exist yet
+ */
+export const DEFAULT_ROLES: RoleDefinition[] = [
+  {
+    name: 'admin',
+    description: 'Full access to the admin API',
+    permissions: [Permission.ALL]
+  },
+  {
+    name: 'support',
+    description: 'User management, tracking and webhook maintenance',
+    permissions: [
+      Permission.USERS_READ,
+      Permission.USERS_WRITE,
+      Permission.USERS_IMPERSONATE,
+      Permission.TRACKING_RETRY,
+      Permission.WEBHOOKS_REPLAY,
+      Permission.LOGS_READ
+    ]
+  },
+  {
+    name: 'finance',
+    description: 'Billing, refunds and revenue analytics',
+    permissions: [
+      Permission.USERS_READ,
+      Permission.BILLING_READ,
+      Permission.BILLING_WRITE,
+      Permission.BILLING_REFUND,
+      Permission.ANALYTICS_READ
+    ]
+  }
+];
+
+/**
+ * Role-based access control service
+ */
+export class RbacService {
+  /**
+   * Check if a value is a known permission
+   */
+  static isPermission(value: string): value is Permission {
+    return (Object.values(Permission) as string[]).includes(value);
+  }
+
+  /**
+   * Check if granted permissions satisfy the required one
+   */
+  static hasPermission(granted: string[], required: Permission): boolean {
+    return granted.includes(Permission.ALL) || granted.includes(required);
+  }
+
+  /**
+   * Get all permissions granted to a user through their roles
+   */
+  static async getUserPermissions(userId: string): Promise<string[]> {
+    const user = await prisma.user.findUnique({
+      where: { id: userId },
+      include: { roles: { include: { role: true } } }
+    });
+
+    if (!user) {
+      return [];
+    }
+
+    // The configured admin email always has full access so the first
+    // admin can bootstrap roles for everybody else
+    if (config.admin.email && user.email === config.admin.email) {
+      return [Permission.ALL];
+    }
+
+    const permissions = new Set<string>();
+    user.roles.forEach(userRole => {
+      userRole.role.permissions.forEach(permission => permissions.add(permission));
+    });
+
+    return Array.from(permissions);
+  }
+
+  /**
+   * Create default roles if they don't exist
+   */
+  static async ensureDefaultRoles(): Promise<void> {
+    for (const role of DEFAULT_ROLES) {
+      await prisma.role.upsert({
+        where: { name: role.name },
+        update: {},
+        create: {
+          name: role.name,
+          description: role.description,
+          permissions: role.permissions
+        }
+      });
+    }
+
+    logger.info('Default roles ensured', { roles: DEFAULT_ROLES.map(r => r.name) });
+  }
+
+  /**
+   * Assign a role to a user
+   */
+  static async assignRole(userId: string, roleName: string, assignedBy?: string): Promise<void> {
+    const role = await prisma.role.findUnique({
+      where: { name: roleName }
+    });
+
+    if (!role) {
+      throw new Error('Role not found');
+    }
+
+    await prisma.userRole.upsert({
+      where: { userId_roleId: { userId, roleId: role.id } },
+      update: {},
+      create: {
+        userId,
+        roleId: role.id,
+        assignedBy
+      }
+    });
+
+    logger.info('Role assigned', { userId, role: roleName, assignedBy });
+  }
+
+  /**
+   * Remove a role from a user
+   */
+  static async removeRole(userId: string, roleName: string): Promise<void> {
+    const role = await prisma.role.findUnique({
+      where: { name: roleName }
+    });
+
+    if (!role) {
+      throw new Error('Role not found');
+    }
+
+    await prisma.userRole.deleteMany({
+      where: { userId, roleId: role.id }
+    });
+
+    logger.info('Role removed', { userId, role: roleName });
+  }
+}
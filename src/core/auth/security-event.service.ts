@@ -0,0 +1,79 @@
+import { prisma } from '../database';
+import logger from '../../utils/logger';
+
+/**
+ * Security event types
+ */
+export enum SecurityEventType {
+  ACCOUNT_LOCKED = 'account_locked',
+  ACCOUNT_UNLOCKED = 'account_unlocked',
+  ACCOUNT_CLAIMED = 'account_claimed', // Unverified account taken over by the owner of its email
+  IP_BLOCKED = 'ip_blocked',
+  IP_UNBLOCKED = 'ip_unblocked',
+  REFRESH_TOKEN_REUSE = 'refresh_token_reuse',
+  IMPERSONATION_STARTED = 'impersonation_started',
+  IMPERSONATION_ENDED = 'impersonation_ended'
+}
+
+/**
+ * Security audit trail
+ */
+export class SecurityEventService {
+  /**
+   * Record a security event (also written to the application log)
+   */
+  static async record(
+    type: SecurityEventType,
+    data: {
+      userId?: string;
+      email?: string;
+      ipAddress?: string;
+      metadata?: any;
+    }
+  ): Promise<void> {
+    logger.warn('Security event', { type, ...data });
+
+    try {
+      await prisma.securityEvent.create({
+        data: {
+          type,
+          userId: data.userId,
+          email: data.email,
+          ipAddress: data.ipAddress,
+          metadata: data.metadata
+        }
+      });
+    } catch (error) {
+      logger.error('Failed to record security event', { type, error });
+    }
+  }
+
+  /**
+   * List security events
+   */
+  static async list(filters: {
+    type?: string;
+    userId?: string;
+    ipAddress?: string;
+    page: number;
+    limit: number;
+  }): Promise<{ events: any[]; total: number }> {
+    const where = {
+      ...(filters.type && { type: filters.type }),
+      ...(filters.userId && { userId: filters.userId }),
+      ...(filters.ipAddress && { ipAddress: filters.ipAddress })
+    };
+
+    const [events, total] = await Promise.all([
+      prisma.securityEvent.findMany({
+        where,
+        skip: (filters.page - 1) * filters.limit,
+        take: filters.limit,
+        orderBy: { createdAt: 'desc' }
+      }),
+      prisma.securityEvent.count({ where })
+    ]);
+
+    return { events, total };
+  }
+}
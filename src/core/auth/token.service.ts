@@ -0,0 +1,135 @@
+import crypto from 'crypto';
+import { prisma } from '../database';
+
+/**
+ * One-time token types
+ */
+export enum TokenType {
+  PASSWORD_RESET = 'password_reset',
+  EMAIL_VERIFICATION = 'email_verification',
+  MAGIC_LINK = 'magic_link',
+  PAYMENT_UPDATE = 'payment_update',
+  EMAIL_CHANGE = 'email_change',
+  TWO_FACTOR_CHALLENGE = 'two_factor_challenge'
+}
+
+/**
+ * Consumed token record
+ */
+export interface ConsumedToken {
+  userId: string | null;
+  email: string | null;
+  metadata: any;
+}
+
+/**
+ * Single-use, expiring tokens sent by email.
+ * Only the SHA-256 hash is stored, so a database leak doesn't expose usable tokens.
+ */
+export class TokenService {
+  /**
+   * Hash token for storage and lookup
+   */
+  static hashToken(token: string): string {
+    return crypto.createHash('sha256').update(token).digest('hex');
+  }
+
+  /**
+   * Issue a new token, invalidating unused tokens of the same type
+   */
+  static async issue(
+    userId: string,
+    type: TokenType,
+    ttlMinutes: number,
+    metadata?: Record<string, any>
+  ): Promise<string> {
+    const token = crypto.randomBytes(32).toString('hex');
+    const expiresAt = new Date(Date.now() + ttlMinutes * 60 * 1000);
+
+    await prisma.$transaction([
+      prisma.verificationToken.deleteMany({
+        where: { userId, type, usedAt: null }
+      }),
+      prisma.verificationToken.create({
+        data: {
+          userId,
+          type,
+          tokenHash: this.hashToken(token),
+          metadata,
+          expiresAt
+        }
+      })
+    ]);
+
+    return token;
+  }
+
+  /**
+   * Issue a token for an email address that may not have an account yet
+   * (e.g. magic-link sign-up), invalidating unused tokens of the same type
+   */
+  static async issueForEmail(
+    email: string,
+    type: TokenType,
+    ttlMinutes: number,
+    metadata?: Record<string, any>
+  ): Promise<string> {
+    const token = crypto.randomBytes(32).toString('hex');
+    const expiresAt = new Date(Date.now() + ttlMinutes * 60 * 1000);
+
+    await prisma.$transaction([
+      prisma.verificationToken.deleteMany({
+        where: { email, type, usedAt: null }
+      }),
+      prisma.verificationToken.create({
+        data: {
+          email,
+          type,
+          tokenHash: this.hashToken(token),
+          metadata,
+          expiresAt
+        }
+      })
+    ]);
+
+    return token;
+  }
+
+  /**
+   * Consume a token. Returns the user ID, or null if the token is
+   * unknown, expired, already used or of a different type.
+   */
+  static async consume(token: string, type: TokenType): Promise<string | null> {
+    const record = await this.consumeRecord(token, type);
+    return record?.userId || null;
+  }
+
+  /**
+   * Consume a token and return its user ID, email and metadata
+   */
+  static async consumeRecord(token: string, type: TokenType): Promise<ConsumedToken | null> {
+    const record = await prisma.verificationToken.findUnique({
+      where: { tokenHash: this.hashToken(token) }
+    });
+
+    if (!record || record.type !== type || record.usedAt || record.expiresAt < new Date()) {
+      return null;
+    }
+
+    // Conditional update so concurrent requests can't use the same token twice
+    const result = await prisma.verificationToken.updateMany({
+      where: { id: record.id, usedAt: null },
+      data: { usedAt: new Date() }
+    });
+
+    if (result.count !== 1) {
+      return null;
+    }
+
+    return {
+      userId: record.userId,
+      email: record.email,
+      metadata: record.metadata
+    };
+  }
+}
@@ -0,0 +1,228 @@
+import crypto from 'crypto';
+import { prisma } from '../database';
+import { config } from '../config';
+import logger from '../../utils/logger';
+import { buildOtpauthUri, generateTotpSecret, verifyTotp } from '../../utils/totp';
+import { TokenService, TokenType } from './token.service';
+
+const RECOVERY_CODE_COUNT = 10;
+
+/**
+ * TOTP two-factor authentication service
+ */
+export class TwoFactorService {
+  /**
+   * Normalize recovery code before hashing (users may type spaces or uppercase)
+   */
+  private static normalizeRecoveryCode(code: string): string {
+    return code.toLowerCase().replace(/[^a-f0-9]/g, '');
+  }
+
+  /**
+   * Generate new recovery codes, returning plain codes and their hashes
+   */
+  private static generateRecoveryCodes(): { codes: string[]; hashes: string[] } {
+    const codes = Array.from({ length: RECOVERY_CODE_COUNT }, () => {
+      const raw = crypto.randomBytes(5).toString('hex');
+      return `${raw.slice(0, 5)}-${raw.slice(5)}`;
+    });
+
+    return {
+      codes,
+      hashes: codes.map(code => TokenService.hashToken(this.normalizeRecoveryCode(code)))
+    };
+  }
+
+  /**
+   * Start enrollment: generate a secret and otpauth URI.
+   * 2FA is not active until the user confirms a code with enable().
+   */
+  static async setup(userId: string): Promise<{ secret: string; otpauthUri: string }> {
+    const user = await prisma.user.findUnique({
+      where: { id: userId }
+    });
+
+    if (!user) {
+      throw new Error('User not found');
+    }
+
+    if (user.twoFactorEnabledAt) {
+      throw new Error('Two-factor authentication is already enabled');
+    }
+
+    const secret = generateTotpSecret();
+
+    await prisma.user.update({
+      where: { id: userId },
+      data: {
+        twoFactorSecret: secret,
+        twoFactorLastStep: null
+      }
+    });
+
+    return {
+      secret,
+      otpauthUri: buildOtpauthUri(secret, user.email, config.app.name)
+    };
+  }
+
+  /**
+   * Confirm enrollment with a code from the authenticator app.
+   * Returns recovery codes, which are shown to the user only once.
+   */
+  static async enable(userId: string, code: string, sessionId?: string): Promise<string[]> {
+    const user = await prisma.user.findUnique({
+      where: { id: userId }
+    });
+
+    if (!user?.twoFactorSecret) {
+      throw new Error('Two-factor setup not started');
+    }
+
+    if (user.twoFactorEnabledAt) {
+      throw new Error('Two-factor authentication is already enabled');
+    }
+
+    const step = verifyTotp(user.twoFactorSecret, code);
+    if (step === null) {
+      throw new Error('Invalid code');
+    }
+
+    const { codes, hashes } = this.generateRecoveryCodes();
+
+    await prisma.user.update({
+      where: { id: userId },
+      data: {
+        twoFactorEnabledAt: new Date(),
+        twoFactorRecoveryCodes: hashes,
+        twoFactorLastStep: step
+      }
+    });
+
+    // The session that enrolled has just proven possession of the second factor
+    if (sessionId) {
+      await prisma.session.updateMany({
+        where: { id: sessionId, userId },
+        data: { twoFactorVerified: true }
+      });
+    }
+
+    logger.info('Two-factor authentication enabled', { userId });
+    return codes;
+  }
+
+  /**
+   * Disable 2FA (requires a valid TOTP or recovery code)
+   */
+  static async disable(userId: string, code: string): Promise<void> {
+    const valid = await this.verify(userId, code);
+    if (!valid) {
+      throw new Error('Invalid code');
+    }
+
+    await prisma.user.update({
+      where: { id: userId },
+      data: {
+        twoFactorSecret: null,
+        twoFactorEnabledAt: null,
+        twoFactorRecoveryCodes: [],
+        twoFactorLastStep: null
+      }
+    });
+
+    logger.info('Two-factor authentication disabled', { userId });
+  }
+
+  /**
+   * Replace recovery codes (requires a valid TOTP or recovery code)
+   */
+  static async regenerateRecoveryCodes(userId: string, code: string): Promise<string[]> {
+    const valid = await this.verify(userId, code);
+    if (!valid) {
+      throw new Error('Invalid code');
+    }
+
+    const { codes, hashes } = this.generateRecoveryCodes();
+
+    await prisma.user.update({
+      where: { id: userId },
+      data: { twoFactorRecoveryCodes: hashes }
+    });
+
+    logger.info('Recovery codes regenerated', { userId });
+    return codes;
+  }
+
+  /**
+   * Verify a TOTP code or a recovery code for a user with 2FA enabled.
+   * TOTP codes can't be replayed, recovery codes are single-use.
+   */
+  static async verify(userId: string, code: string): Promise<boolean> {
+    const user = await prisma.user.findUnique({
+      where: { id: userId }
+    });
+
+    if (!user?.twoFactorEnabledAt || !user.twoFactorSecret) {
+      return false;
+    }
+
+    const step = verifyTotp(user.twoFactorSecret, code);
+    if (step !== null) {
+      // Conditional update so the same code can't be used twice
+      const result = await prisma.user.updateMany({
+        where: {
+          id: userId,
+          OR: [
+            { twoFactorLastStep: null },
+            { twoFactorLastStep: { lt: step } }
+          ]
+        },
+        data: { twoFactorLastStep: step }
+      });
+
+      return result.count === 1;
+    }
+
+    const hash = TokenService.hashToken(this.normalizeRecoveryCode(code));
+    if (!user.twoFactorRecoveryCodes.includes(hash)) {
+      return false;
+    }
+
+    const result = await prisma.user.updateMany({
+      where: { id: userId, twoFactorRecoveryCodes: { has: hash } },
+      data: {
+        twoFactorRecoveryCodes: user.twoFactorRecoveryCodes.filter(h => h !== hash)
+      }
+    });
+
+    if (result.count !== 1) {
+      return false;
+    }
+
+    logger.info('Recovery code used', {
+      userId,
+      remaining: user.twoFactorRecoveryCodes.length - 1
+    });
+    return true;
+  }
+
+  /**
+   * Create a short-lived challenge token after the first step of login.
+   * Only the latest challenge of a user is valid.
+   */
+  static async createChallenge(userId: string): Promise<string> {
+    return TokenService.issue(
+      userId,
+      TokenType.TWO_FACTOR_CHALLENGE,
+      config.auth.twoFactorChallengeTtlSeconds / 60
+    );
+  }
+
+  /**
+   * Consume a challenge token, returning the user ID or null.
+   * Each challenge allows one code attempt.
+   */
+  static async consumeChallenge(challengeToken: string): Promise<string | null> {
+    return TokenService.consume(challengeToken, TokenType.TWO_FACTOR_CHALLENGE);
+  }
+}
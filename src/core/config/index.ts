@@ -30,12 +30,105 @@ export interface Config {
       monthly: string;
       annual: string;
     };
+    // Let customers enter promotion codes on the Stripe Checkout page
+    allowPromotionCodes: boolean;
+    // Longest pause customers can choose, in billing cycles
+    maxPauseCycles: number;
+    // Use the in-memory Stripe emulator instead of the Stripe API (tests, offline development)
+    emulator: boolean;
+  };
+
+  // Plan catalog
+  plans: {
+    catalogPath: string;
+  };
+
+  // Product catalog (one-time purchases)
+  products: {
+    catalogPath: string;
+    // How long after a payment upsell products are offered
+    upsellWindowMinutes: number;
+  };
+
+  // Webhook processing queue
+  webhooks: {
+    // Attempts before an event is dead-lettered
+    maxAttempts: number;
+    // Delay before the first retry, doubled after each failed attempt
+    retryBaseSeconds: number;
+    // How often the worker looks for due events (0 disables the worker in this process)
+    workerIntervalSeconds: number;
+  };
+
+  // Stripe reconciliation job
+  // Dunning (failed renewal payments)
+  dunning: {
+    // Days after the first failed payment to send reminders on
+    reminderDays: number[];
+    // How often due reminders are sent (0 disables reminders in this process)
+    checkIntervalMinutes: number;
+    // How long the update-payment-method link of a reminder works
+    linkTtlHours: number;
+  };
+
+  reconciliation: {
+    // How often it runs (0 disables the scheduled run in this process)
+    intervalHours: number;
+    // How far back invoices and charges are checked
+    lookbackDays: number;
+    // Fix mismatches on scheduled runs instead of only reporting them
+    autoFix: boolean;
+  };
+
+  // Cancellation flow retention offers
+  cancellation: {
+    // Stripe coupon offered instead of canceling (empty disables the offer)
+    retentionCouponId: string;
+    // Billing cycles of the pause offered instead of canceling (0 disables the offer)
+    retentionPauseCycles: number;
   };
 
   // JWT
   jwt: {
     secret: string;
     expiresIn: string;
+    refreshTokenTtlDays: number;
+  };
+
+  // Auth flows
+  auth: {
+    passwordResetTtlMinutes: number;
+    emailVerificationTtlMinutes: number;
+    magicLinkTtlMinutes: number;
+    twoFactorChallengeTtlSeconds: number;
+  };
+
+  // OAuth / OpenID Connect social login
+  oauth: {
+    successUrl: string;
+    loginUrl: string;
+    google: {
+      clientId: string;
+      clientSecret: string;
+    };
+    apple: {
+      clientId: string;
+      teamId: string;
+      keyId: string;
+      privateKey: string;
+    };
+    oidc: {
+      issuer: string;
+      clientId: string;
+      clientSecret: string;
+      scopes: string[];
+    };
+  };
+
+  // Entitlements
+  entitlements: {
+    trialAccess: boolean;
+    pastDueGraceDays: number;
   };
 
   // Keitaro
@@ -47,6 +140,10 @@ export interface Config {
     statuses: {
       registration: string;
       purchase: string;
+      trialConversion: string;
+      refund: string;
+      reject: string;
+      upsell: string;
     };
   };
 
@@ -57,6 +154,14 @@ export interface Config {
       windowMs: number;
       maxRequests: number;
     };
+    loginProtection: {
+      maxAccountFailures: number;
+      lockoutMinutes: number;
+      maxIpFailures: number;
+      ipWindowMinutes: number;
+      baseDelaySeconds: number;
+      maxDelaySeconds: number;
+    };
   };
 
   // Logging
@@ -65,6 +170,13 @@ export interface Config {
     filePath: string;
   };
 
+  // Mail
+  mail: {
+    transport: string;
+    from: string;
+    outputDir: string;
+  };
+
   // SSL
   ssl: {
     enabled: boolean;
@@ -76,6 +188,13 @@ export interface Config {
   applePay: {
     domainVerificationFile?: string;
   };
+
+  // Admin
+  admin: {
+    email: string;
+    requireTwoFactor: boolean;
+    impersonationTtlMinutes: number;
+  };
 }
 
 /**
@@ -96,6 +215,9 @@ function validateEnv(): void {
   if (missing.length > 0) {
     throw new Error(`Missing required environment variables: ${missing.join(', ')}`);
   }
+  if (process.env.STRIPE_EMULATOR === 'true') {
+    throw new Error('STRIPE_EMULATOR must not be enabled in production');
+  }
 }
 
 /**
@@ -126,12 +248,85 @@ export function createConfig(): Config {
       prices: {
         monthly: process.env.STRIPE_MONTHLY_PRICE_ID || '',
         annual: process.env.STRIPE_ANNUAL_PRICE_ID || ''
-      }
+      },
+      allowPromotionCodes: process.env.STRIPE_ALLOW_PROMOTION_CODES === 'true',
+      maxPauseCycles: parseInt(process.env.STRIPE_MAX_PAUSE_CYCLES || '3', 10),
+      emulator: process.env.STRIPE_EMULATOR === 'true'
+    },
+
+    plans: {
+      catalogPath: process.env.PLAN_CATALOG_PATH || './plans.json'
+    },
+
+    products: {
+      catalogPath: process.env.PRODUCT_CATALOG_PATH || './products.json',
+      upsellWindowMinutes: parseInt(process.env.PRODUCT_UPSELL_WINDOW_MINUTES || '30', 10)
+    },
+
+    webhooks: {
+      maxAttempts: parseInt(process.env.WEBHOOK_MAX_ATTEMPTS || '8', 10),
+      retryBaseSeconds: parseInt(process.env.WEBHOOK_RETRY_BASE_SECONDS || '60', 10),
+      workerIntervalSeconds: parseInt(process.env.WEBHOOK_WORKER_INTERVAL_SECONDS || '5', 10)
+    },
+
+    dunning: {
+      reminderDays: (process.env.DUNNING_REMINDER_DAYS || '0,3,7')
+        .split(',')
+        .filter(day => day.trim() !== '')
+        .map(day => parseInt(day, 10))
+        .sort((a, b) => a - b),
+      checkIntervalMinutes: parseInt(process.env.DUNNING_CHECK_INTERVAL_MINUTES || '60', 10),
+      linkTtlHours: parseInt(process.env.DUNNING_LINK_TTL_HOURS || '72', 10)
+    },
+
+    reconciliation: {
+      intervalHours: parseInt(process.env.RECONCILIATION_INTERVAL_HOURS || '24', 10),
+      lookbackDays: parseInt(process.env.RECONCILIATION_LOOKBACK_DAYS || '30', 10),
+      autoFix: process.env.RECONCILIATION_AUTO_FIX === 'true'
+    },
+
+    cancellation: {
+      retentionCouponId: process.env.CANCELLATION_RETENTION_COUPON_ID || '',
+      retentionPauseCycles: parseInt(process.env.CANCELLATION_RETENTION_PAUSE_CYCLES || '1', 10)
     },
 
     jwt: {
       secret: process.env.JWT_SECRET || 'default_secret_change_in_production',
-      expiresIn: process.env.JWT_EXPIRES_IN || '7d'
+      expiresIn: process.env.JWT_EXPIRES_IN || '15m',
+      refreshTokenTtlDays: parseInt(process.env.REFRESH_TOKEN_TTL_DAYS || '30', 10)
+    },
+
+    auth: {
+      passwordResetTtlMinutes: parseInt(process.env.PASSWORD_RESET_TTL_MINUTES || '60', 10),
+      emailVerificationTtlMinutes: parseInt(process.env.EMAIL_VERIFICATION_TTL_MINUTES || '1440', 10),
+      magicLinkTtlMinutes: parseInt(process.env.MAGIC_LINK_TTL_MINUTES || '15', 10),
+      twoFactorChallengeTtlSeconds: parseInt(process.env.TWO_FACTOR_CHALLENGE_TTL_SECONDS || '300', 10)
+    },
+
+    oauth: {
+      successUrl: process.env.OAUTH_SUCCESS_URL || process.env.APP_URL || 'http://localhost:3000',
+      loginUrl: process.env.OAUTH_LOGIN_URL || `${process.env.APP_URL || 'http://localhost:3000'}/login`,
+      google: {
+        clientId: process.env.GOOGLE_CLIENT_ID || '',
+        clientSecret: process.env.GOOGLE_CLIENT_SECRET || ''
+      },
+      apple: {
+        clientId: process.env.APPLE_CLIENT_ID || '',
+        teamId: process.env.APPLE_TEAM_ID || '',
+        keyId: process.env.APPLE_KEY_ID || '',
+        privateKey: process.env.APPLE_PRIVATE_KEY || ''
+      },
+      oidc: {
+        issuer: process.env.OIDC_ISSUER || '',
+        clientId: process.env.OIDC_CLIENT_ID || '',
+        clientSecret: process.env.OIDC_CLIENT_SECRET || '',
+        scopes: (process.env.OIDC_SCOPES || 'openid email profile').split(' ')
+      }
+    },
+
+    entitlements: {
+      trialAccess: process.env.ENTITLEMENTS_TRIAL_ACCESS !== 'false',
+      pastDueGraceDays: parseInt(process.env.ENTITLEMENTS_PAST_DUE_GRACE_DAYS || '3', 10)
     },
 
     keitaro: {
@@ -141,7 +336,11 @@ export function createConfig(): Config {
       jsEnabled: process.env.KEITARO_JS_ENABLED === 'true',
       statuses: {
         registration: process.env.KEITARO_STATUS_REGISTRATION || 'reg',
-        purchase: process.env.KEITARO_STATUS_PURCHASE || 'sale'
+        purchase: process.env.KEITARO_STATUS_PURCHASE || 'sale',
+        trialConversion: process.env.KEITARO_STATUS_TRIAL_CONVERSION || 'trial_sale',
+        refund: process.env.KEITARO_STATUS_REFUND || 'refund',
+        reject: process.env.KEITARO_STATUS_REJECT || 'reject',
+        upsell: process.env.KEITARO_STATUS_UPSELL || 'upsell'
       }
     },
 
@@ -150,6 +349,14 @@ export function createConfig(): Config {
       rateLimit: {
         windowMs: parseInt(process.env.RATE_LIMIT_WINDOW_MS || '900000', 10),
         maxRequests: parseInt(process.env.RATE_LIMIT_MAX_REQUESTS || '100', 10)
+      },
+      loginProtection: {
+        maxAccountFailures: parseInt(process.env.LOGIN_MAX_ACCOUNT_FAILURES || '5', 10),
+        lockoutMinutes: parseInt(process.env.LOGIN_LOCKOUT_MINUTES || '15', 10),
+        maxIpFailures: parseInt(process.env.LOGIN_MAX_IP_FAILURES || '20', 10),
+        ipWindowMinutes: parseInt(process.env.LOGIN_IP_WINDOW_MINUTES || '15', 10),
+        baseDelaySeconds: parseInt(process.env.LOGIN_BASE_DELAY_SECONDS || '1', 10),
+        maxDelaySeconds: parseInt(process.env.LOGIN_MAX_DELAY_SECONDS || '30', 10)
       }
     },
 
@@ -158,6 +365,12 @@ export function createConfig(): Config {
       filePath: process.env.LOG_FILE_PATH || './logs/app.log'
     },
 
+    mail: {
+      transport: process.env.MAIL_TRANSPORT || 'console',
+      from: process.env.MAIL_FROM || 'no-reply@example.com',
+      outputDir: process.env.MAIL_OUTPUT_DIR || './logs/mail'
+    },
+
     ssl: {
       enabled: process.env.SSL_ENABLED === 'true',
       certPath: process.env.SSL_CERT_PATH,
@@ -166,6 +379,12 @@ export function createConfig(): Config {
 
     applePay: {
       domainVerificationFile: process.env.APPLE_PAY_DOMAIN_VERIFICATION_FILE
+    },
+
+    admin: {
+      email: process.env.ADMIN_EMAIL || '',
+      requireTwoFactor: process.env.ADMIN_REQUIRE_2FA === 'true',
+      impersonationTtlMinutes: parseInt(process.env.ADMIN_IMPERSONATION_TTL_MINUTES || '30', 10)
     }
   };
 }
@@ -0,0 +1,323 @@
+import { Response, NextFunction } from 'express';
+import { prisma } from '../database';
+import { config } from '../config';
+import { planCatalog, SubscriptionStatus } from '../payment';
+import type { AuthRequest } from '../auth';
+import logger from '../../utils/logger';
+
+/**
+ * Entitlements module for the TrafficWork framework
+ * Resolves features and usage quotas granted by the user's plan and purchases
+ */
+
+/**
+ * Usage of a quota in the current period
+ */
+export interface QuotaUsage {
+  limit: number;
+  used: number;
+  // Purchased credits left (they don't reset)
+  credits: number;
+  remaining: number;
+  resetsAt: Date;
+}
+
+/**
+ * What a user currently has access to
+ */
+export interface Entitlements {
+  // True if the subscription grants plan access (see access policy)
+  active: boolean;
+  status: string;
+  plan: string | null;
+  features: string[];
+  quotas: Record<string, QuotaUsage>;
+  // End of the past_due grace period, while in it
+  graceEndsAt?: Date;
+}
+
+/**
+ * Result of consuming a quota
+ */
+export interface ConsumeResult {
+  allowed: boolean;
+  usage: QuotaUsage;
+}
+
+/**
+ * Subscription fields the access policy looks at
+ */
+type SubscriptionState = {
+  subscriptionStatus: string | null;
+  subscriptionPlan: string | null;
+  pastDueSince: Date | null;
+};
+
+/**
+ * Feature and quota checks based on the plan catalog and entitlement grants from purchases.
+ * Quotas reset at the start of each calendar month (UTC); purchased credits don't.
+ */
+export class EntitlementService {
+  /**
+   * Start of the current quota period and of the next one
+   */
+  static currentPeriod(now: Date = new Date()): { start: Date; end: Date } {
+    return {
+      start: new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), 1)),
+      end: new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth() + 1, 1))
+    };
+  }
+
+  /**
+   * Access policy: does the subscription grant its plan?
+   * Active plans do; trialing plans do unless ENTITLEMENTS_TRIAL_ACCESS=false;
+   * past_due plans keep access for ENTITLEMENTS_PAST_DUE_GRACE_DAYS after the first failed payment.
+   */
+  static getAccess(user: SubscriptionState, now: Date = new Date()): { active: boolean; graceEndsAt?: Date } {
+    switch (user.subscriptionStatus) {
+      case SubscriptionStatus.ACTIVE:
+        return { active: true };
+
+      case SubscriptionStatus.TRIALING:
+        return { active: config.entitlements.trialAccess };
+
+      case SubscriptionStatus.PAST_DUE: {
+        if (!user.pastDueSince) {
+          return { active: false };
+        }
+
+        const graceEndsAt = new Date(
+          user.pastDueSince.getTime() + config.entitlements.pastDueGraceDays * 24 * 60 * 60 * 1000
+        );
+        return graceEndsAt > now ? { active: true, graceEndsAt } : { active: false };
+      }
+
+      default:
+        return { active: false };
+    }
+  }
+
+  /**
+   * Resolve features and quota usage of a user
+   */
+  static async resolve(userId: string): Promise<Entitlements> {
+    const user = await prisma.user.findUnique({
+      where: { id: userId },
+      select: { subscriptionStatus: true, subscriptionPlan: true, pastDueSince: true }
+    });
+
+    if (!user) {
+      throw new Error('User not found');
+    }
+
+    const { active, graceEndsAt } = this.getAccess(user);
+    const plan = active && user.subscriptionPlan ? planCatalog.getPlan(user.subscriptionPlan) : undefined;
+
+    if (active && user.subscriptionPlan && !plan) {
+      logger.error('User plan is not in the plan catalog', { userId, plan: user.subscriptionPlan });
+    }
+
+    const period = this.currentPeriod();
+    const limits = plan?.quotas || {};
+    const [counters, grants] = await Promise.all([
+      Object.keys(limits).length > 0
+        ? prisma.usageCounter.findMany({
+            where: { userId, periodStart: period.start, quota: { in: Object.keys(limits) } }
+          })
+        : [],
+      prisma.entitlementGrant.findMany({ where: { userId, revokedAt: null } })
+    ]);
+
+    const credits: Record<string, number> = {};
+    for (const grant of grants) {
+      if (grant.quota) {
+        credits[grant.quota] = (credits[grant.quota] || 0) + grant.credits - grant.used;
+      }
+    }
+
+    const quotas: Record<string, QuotaUsage> = {};
+    for (const quota of new Set([...Object.keys(limits), ...Object.keys(credits)])) {
+      const limit = limits[quota] || 0;
+      const used = counters.find(counter => counter.quota === quota)?.used || 0;
+      quotas[quota] = {
+        limit,
+        used,
+        credits: credits[quota] || 0,
+        remaining: Math.max(limit - used, 0) + (credits[quota] || 0),
+        resetsAt: period.end
+      };
+    }
+
+    const granted = grants.filter(grant => grant.feature).map(grant => grant.feature!);
+
+    return {
+      active,
+      status: user.subscriptionStatus || 'inactive',
+      plan: plan?.key || null,
+      features: Array.from(new Set([...(plan?.features || []), ...granted])),
+      quotas,
+      ...(graceEndsAt && { graceEndsAt })
+    };
+  }
+
+  /**
+   * Check if a user has a feature
+   */
+  static async hasFeature(userId: string, feature: string): Promise<boolean> {
+    const entitlements = await this.resolve(userId);
+    return entitlements.features.includes(feature);
+  }
+
+  /**
+   * Use up part of a quota: the monthly quota first, then purchased credits.
+   * Nothing is consumed if the amount exceeds what's left in either.
+   */
+  static async consume(userId: string, quota: string, amount: number = 1): Promise<ConsumeResult> {
+    const entitlements = await this.resolve(userId);
+    const usage = entitlements.quotas[quota];
+
+    // Not in the plan (or no access) and no credits: nothing to consume
+    if (!usage) {
+      return {
+        allowed: false,
+        usage: { limit: 0, used: 0, credits: 0, remaining: 0, resetsAt: this.currentPeriod().end }
+      };
+    }
+
+    const periodStart = this.currentPeriod().start;
+    const key = { userId_quota_periodStart: { userId, quota, periodStart } };
+    let allowed = false;
+
+    if (usage.limit - usage.used >= amount) {
+      await prisma.usageCounter.upsert({
+        where: key,
+        create: { userId, quota, periodStart },
+        update: {}
+      });
+
+      // Conditional increment keeps concurrent requests from going over the limit
+      const result = await prisma.usageCounter.updateMany({
+        where: { userId, quota, periodStart, used: { lte: usage.limit - amount } },
+        data: { used: { increment: amount } }
+      });
+      allowed = result.count > 0;
+    }
+
+    if (!allowed && usage.credits >= amount) {
+      allowed = await this.consumeCredits(userId, quota, amount);
+    }
+
+    const [counter, grants] = await Promise.all([
+      prisma.usageCounter.findUnique({ where: key }),
+      prisma.entitlementGrant.findMany({ where: { userId, quota, revokedAt: null } })
+    ]);
+    const used = counter?.used || 0;
+    const credits = grants.reduce((sum, grant) => sum + grant.credits - grant.used, 0);
+
+    return {
+      allowed,
+      usage: { ...usage, used, credits, remaining: Math.max(usage.limit - used, 0) + credits }
+    };
+  }
+
+  /**
+   * Use up purchased credits from a single grant, oldest first
+   */
+  private static async consumeCredits(userId: string, quota: string, amount: number): Promise<boolean> {
+    const grants = await prisma.entitlementGrant.findMany({
+      where: { userId, quota, revokedAt: null },
+      orderBy: { createdAt: 'asc' }
+    });
+
+    for (const grant of grants) {
+      if (grant.credits - grant.used < amount) {
+        continue;
+      }
+
+      // Conditional increment, like the monthly counter
+      const result = await prisma.entitlementGrant.updateMany({
+        where: { id: grant.id, revokedAt: null, used: { lte: grant.credits - amount } },
+        data: { used: { increment: amount } }
+      });
+
+      if (result.count > 0) {
+        return true;
+      }
+    }
+
+    return false;
+  }
+
+  /**
+   * Reset a user's quota usage for the current period (admin action)
+   */
+  static async resetUsage(userId: string, quota?: string, resetBy?: string): Promise<void> {
+    await prisma.usageCounter.deleteMany({
+      where: {
+        userId,
+        periodStart: this.currentPeriod().start,
+        ...(quota && { quota })
+      }
+    });
+
+    logger.info('Quota usage reset', { userId, quota, resetBy });
+  }
+}
+
+/**
+ * Require a plan feature (use after authenticate)
+ */
+export function requireEntitlement(feature: string) {
+  return async (req: AuthRequest, res: Response, next: NextFunction) => {
+    if (!req.user) {
+      return res.status(401).json({ error: 'Authentication required' });
+    }
+
+    try {
+      const entitlements = await EntitlementService.resolve(req.user.userId);
+
+      if (!entitlements.features.includes(feature)) {
+        return res.status(403).json({
+          error: entitlements.active ? 'Your plan does not include this feature' : 'Active subscription required',
+          feature
+        });
+      }
+
+      req.entitlements = entitlements;
+      return next();
+    } catch (error) {
+      logger.error('Entitlement check error', error);
+      return res.status(500).json({ error: 'Failed to check entitlements' });
+    }
+  };
+}
+
+/**
+ * Consume a plan quota for each request (use after authenticate)
+ */
+export function requireQuota(quota: string, amount: number = 1) {
+  return async (req: AuthRequest, res: Response, next: NextFunction) => {
+    if (!req.user) {
+      return res.status(401).json({ error: 'Authentication required' });
+    }
+
+    try {
+      const { allowed, usage } = await EntitlementService.consume(req.user.userId, quota, amount);
+
+      if (!allowed) {
+        const exceeded = usage.limit > 0 || usage.credits > 0 || usage.used > 0;
+        return res.status(exceeded ? 429 : 403).json({
+          error: exceeded ? 'Quota exceeded' : 'Your plan does not include this quota',
+          quota,
+          usage
+        });
+      }
+
+      res.setHeader('X-Quota-Remaining', usage.remaining);
+      return next();
+    } catch (error) {
+      logger.error('Quota check error', error);
+      return res.status(500).json({ error: 'Failed to check quota' });
+    }
+  };
+}
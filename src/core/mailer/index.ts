@@ -0,0 +1,132 @@
+import fs from 'fs';
+import path from 'path';
+import { config } from '../config';
+import logger from '../../utils/logger';
+
+/**
+ * Mailer module for the TrafficWork framework
+ * Transports are pluggable so apps can bring their own SMTP/API provider
+ */
+
+/**
+ * Email message
+ */
+export interface MailMessage {
+  to: string;
+  subject: string;
+  text: string;
+  html?: string;
+}
+
+/**
+ * Mail transport interface
+ */
+export interface MailTransport {
+  send(message: MailMessage & { from: string }): Promise<void>;
+}
+
+/**
+ * Transport that prints emails to the log (local development)
+ */
+export class ConsoleTransport implements MailTransport {
+  async send(message: MailMessage & { from: string }): Promise<void> {
+    logger.info('Email sent (console transport)', {
+      from: message.from,
+      to: message.to,
+      subject: message.subject,
+      text: message.text
+    });
+  }
+}
+
+/**
+ * Transport that writes each email as a JSON file (local development and testing)
+ */
+export class FileTransport implements MailTransport {
+  constructor(private outputDir: string) {}
+
+  async send(message: MailMessage & { from: string }): Promise<void> {
+    await fs.promises.mkdir(this.outputDir, { recursive: true });
+
+    const fileName = `${Date.now()}-${message.to.replace(/[^a-zA-Z0-9@._-]/g, '_')}.json`;
+    const filePath = path.join(this.outputDir, fileName);
+
+    await fs.promises.writeFile(
+      filePath,
+      JSON.stringify({ ...message, sentAt: new Date().toISOString() }, null, 2)
+    );
+
+    logger.info('Email written to file', { to: message.to, subject: message.subject, filePath });
+  }
+}
+
+/**
+ * Transport that refuses to send (production without a real transport)
+ */
+export class UnconfiguredTransport implements MailTransport {
+  async send(): Promise<void> {
+    throw new Error('No mail transport configured: set one with mailer.setTransport()');
+  }
+}
+
+/**
+ * Create transport from configuration
+ */
+export function createMailTransport(): MailTransport {
+  // The console and file transports write whole emails, with their reset and sign-in links,
+  // to logs and disk. Production needs a real transport (mailer.setTransport).
+  if (config.app.env === 'production' && ['console', 'file'].includes(config.mail.transport)) {
+    logger.warn('Mail transport is not available in production, set one with mailer.setTransport()', {
+      transport: config.mail.transport
+    });
+    return new UnconfiguredTransport();
+  }
+
+  switch (config.mail.transport) {
+    case 'file':
+      return new FileTransport(config.mail.outputDir);
+    case 'console':
+      return new ConsoleTransport();
+    default:
+      logger.warn('Unknown mail transport, falling back to console', {
+        transport: config.mail.transport
+      });
+      return config.app.env === 'production' ? new UnconfiguredTransport() : new ConsoleTransport();
+  }
+}
+
+/**
+ * Mailer service
+ */
+export class MailerService {
+  private transport: MailTransport;
+
+  constructor(transport?: MailTransport) {
+    this.transport = transport || createMailTransport();
+  }
+
+  /**
+   * Replace the transport (e.g. with an SMTP or API provider)
+   */
+  setTransport(transport: MailTransport): void {
+    this.transport = transport;
+  }
+
+  /**
+   * Send an email
+   */
+  async send(message: MailMessage): Promise<void> {
+    try {
+      await this.transport.send({
+        ...message,
+        from: config.mail.from
+      });
+    } catch (error) {
+      logger.error('Failed to send email', { error, to: message.to, subject: message.subject });
+      throw error;
+    }
+  }
+}
+
+// Export singleton instance
+export const mailer = new MailerService();
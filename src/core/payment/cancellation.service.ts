@@ -0,0 +1,372 @@
+import Stripe from 'stripe';
+import { config } from '../config';
+import { prisma, CancellationRequest } from '../database';
+import { AuditAction, AuditContext, AuditService, SYSTEM_AUDIT_CONTEXT } from '../audit';
+import { stripeService } from './stripe.service';
+import logger from '../../utils/logger';
+
+/**
+ * Why a customer cancels
+ */
+export enum CancellationReason {
+  TOO_EXPENSIVE = 'too_expensive',
+  NOT_USING = 'not_using',
+  MISSING_FEATURES = 'missing_features',
+  TECHNICAL_ISSUES = 'technical_issues',
+  SWITCHED_SERVICE = 'switched_service',
+  TEMPORARY = 'temporary',
+  OTHER = 'other',
+}
+
+/**
+ * How a cancellation request ended
+ */
+export enum CancellationOutcome {
+  PENDING = 'pending',
+  CANCELED = 'canceled',
+  RETAINED_DISCOUNT = 'retained_discount',
+  RETAINED_PAUSE = 'retained_pause',
+  // A new request was started before this one was finished
+  ABANDONED = 'abandoned',
+}
+
+/**
+ * Retention offer presented before canceling
+ */
+export type RetentionOffer =
+  | {
+      type: 'discount';
+      percentOff: number | null;
+      amountOff: number | null; // In cents
+      currency: string | null;
+      duration: string;
+      durationInMonths: number | null;
+    }
+  | { type: 'pause'; cycles: number };
+
+/**
+ * Churn by cancellation reason
+ */
+export interface ChurnReasonStats {
+  reason: string;
+  total: number;
+  canceled: number;
+  retainedDiscount: number;
+  retainedPause: number;
+  abandoned: number;
+}
+
+/**
+ * Multi-step cancellation: collect a reason and feedback, present the configured
+ * retention offers, then record whether the customer canceled or accepted an offer.
+ */
+export class CancellationService {
+  /**
+   * Start a cancellation. Returns the request and the offers to present.
+   */
+  async start(
+    userId: string,
+    input: { reason: string; feedback?: string }
+  ): Promise<{ request: CancellationRequest; offers: RetentionOffer[] }> {
+    if (!Object.values(CancellationReason).includes(input.reason as CancellationReason)) {
+      throw new Error('Unknown cancellation reason');
+    }
+
+    const user = await this.getCancelableUser(userId);
+    const offers = await this.getOffers(userId, user);
+
+    // Only the latest request can be completed
+    await prisma.cancellationRequest.updateMany({
+      where: { userId, outcome: CancellationOutcome.PENDING },
+      data: { outcome: CancellationOutcome.ABANDONED, completedAt: new Date() },
+    });
+
+    const request = await prisma.cancellationRequest.create({
+      data: {
+        userId,
+        subscriptionId: user.subscriptionId,
+        plan: user.subscriptionPlan,
+        reason: input.reason,
+        feedback: input.feedback,
+        offers: offers.map(offer => offer.type),
+      },
+    });
+
+    logger.info('Cancellation started', { userId, cancellationId: request.id, reason: input.reason });
+    return { request, offers };
+  }
+
+  /**
+   * Accept a retention offer instead of canceling
+   */
+  async acceptOffer(
+    userId: string,
+    cancellationId: string,
+    offer: RetentionOffer['type'],
+    auditContext: AuditContext = SYSTEM_AUDIT_CONTEXT
+  ): Promise<Stripe.Subscription> {
+    const request = await this.getPendingRequest(userId, cancellationId);
+
+    if (!request.offers.includes(offer)) {
+      throw new Error('Offer not available');
+    }
+
+    const subscription = offer === 'discount'
+      ? await stripeService.applySubscriptionCoupon(userId, config.cancellation.retentionCouponId, auditContext)
+      : await stripeService.pauseSubscription(userId, this.pauseCycles(), auditContext);
+
+    await this.complete(
+      request,
+      offer === 'discount' ? CancellationOutcome.RETAINED_DISCOUNT : CancellationOutcome.RETAINED_PAUSE
+    );
+
+    await AuditService.record(auditContext, {
+      action: AuditAction.SUBSCRIPTION_RETENTION,
+      targetType: 'user',
+      targetId: userId,
+      metadata: { cancellationId, offer, reason: request.reason, stripeSubscriptionId: subscription.id },
+    });
+
+    logger.info('Retention offer accepted', { userId, cancellationId, offer });
+    return subscription;
+  }
+
+  /**
+   * Cancel at the end of the period after the offers were declined
+   */
+  async confirm(
+    userId: string,
+    cancellationId: string,
+    auditContext: AuditContext = SYSTEM_AUDIT_CONTEXT
+  ): Promise<Stripe.Subscription> {
+    const request = await this.getPendingRequest(userId, cancellationId);
+    return this.cancel(request, auditContext);
+  }
+
+  /**
+   * Cancel without going through the offers (reason and feedback are optional)
+   */
+  async cancelDirectly(
+    userId: string,
+    input: { reason?: string; feedback?: string } = {},
+    auditContext: AuditContext = SYSTEM_AUDIT_CONTEXT
+  ): Promise<Stripe.Subscription> {
+    if (input.reason && !Object.values(CancellationReason).includes(input.reason as CancellationReason)) {
+      throw new Error('Unknown cancellation reason');
+    }
+
+    const user = await this.getCancelableUser(userId);
+
+    await prisma.cancellationRequest.updateMany({
+      where: { userId, outcome: CancellationOutcome.PENDING },
+      data: { outcome: CancellationOutcome.ABANDONED, completedAt: new Date() },
+    });
+
+    const request = await prisma.cancellationRequest.create({
+      data: {
+        userId,
+        subscriptionId: user.subscriptionId,
+        plan: user.subscriptionPlan,
+        reason: input.reason,
+        feedback: input.feedback,
+      },
+    });
+
+    return this.cancel(request, auditContext);
+  }
+
+  /**
+   * Churn reasons and offer outcomes of cancellation requests started in a date range
+   */
+  async getChurnReport(from: Date, to: Date = new Date()): Promise<{
+    total: number;
+    canceled: number;
+    retained: number;
+    retentionRate: number;
+    reasons: ChurnReasonStats[];
+    recentFeedback: Array<{ reason: string | null; feedback: string; outcome: string; createdAt: Date }>;
+  }> {
+    const where = { createdAt: { gte: from, lte: to } };
+
+    const [groups, recentFeedback] = await Promise.all([
+      prisma.cancellationRequest.groupBy({
+        by: ['reason', 'outcome'],
+        where,
+        _count: true,
+      }),
+      prisma.cancellationRequest.findMany({
+        where: { ...where, feedback: { not: null } },
+        select: { reason: true, feedback: true, outcome: true, createdAt: true },
+        orderBy: { createdAt: 'desc' },
+        take: 20,
+      }),
+    ]);
+
+    const reasons = new Map<string, ChurnReasonStats>();
+    for (const group of groups) {
+      const reason = group.reason || 'unspecified';
+      const stats = reasons.get(reason) ||
+        { reason, total: 0, canceled: 0, retainedDiscount: 0, retainedPause: 0, abandoned: 0 };
+
+      stats.total += group._count;
+      if (group.outcome === CancellationOutcome.CANCELED) stats.canceled += group._count;
+      if (group.outcome === CancellationOutcome.RETAINED_DISCOUNT) stats.retainedDiscount += group._count;
+      if (group.outcome === CancellationOutcome.RETAINED_PAUSE) stats.retainedPause += group._count;
+      if (group.outcome === CancellationOutcome.ABANDONED || group.outcome === CancellationOutcome.PENDING) {
+        stats.abandoned += group._count;
+      }
+
+      reasons.set(reason, stats);
+    }
+
+    const list = Array.from(reasons.values()).sort((a, b) => b.total - a.total);
+    const total = list.reduce((sum, stats) => sum + stats.total, 0);
+    const canceled = list.reduce((sum, stats) => sum + stats.canceled, 0);
+    const retained = list.reduce((sum, stats) => sum + stats.retainedDiscount + stats.retainedPause, 0);
+
+    return {
+      total,
+      canceled,
+      retained,
+      // Of the requests that ended in a decision
+      retentionRate: canceled + retained > 0 ? retained / (canceled + retained) : 0,
+      reasons: list,
+      recentFeedback: recentFeedback.map(entry => ({ ...entry, feedback: entry.feedback! })),
+    };
+  }
+
+  /**
+   * Load a user whose subscription can be canceled
+   */
+  private async getCancelableUser(userId: string) {
+    const user = await prisma.user.findUnique({
+      where: { id: userId },
+      select: {
+        subscriptionId: true,
+        subscriptionStatus: true,
+        subscriptionPlan: true,
+        cancelAtPeriodEnd: true,
+        pausedUntil: true,
+        scheduledPriceId: true,
+      },
+    });
+
+    if (!user?.subscriptionId || user.subscriptionStatus === 'canceled') {
+      throw new Error('No active subscription found');
+    }
+
+    if (user.cancelAtPeriodEnd) {
+      throw new Error('Subscription is already canceling');
+    }
+
+    return user;
+  }
+
+  /**
+   * Offers for a user: the discount once per customer, the pause while it's possible
+   */
+  private async getOffers(
+    userId: string,
+    user: { subscriptionStatus: string | null; pausedUntil: Date | null; scheduledPriceId: string | null }
+  ): Promise<RetentionOffer[]> {
+    const offers: RetentionOffer[] = [];
+
+    if (config.cancellation.retentionCouponId) {
+      const alreadyRetained = await prisma.cancellationRequest.count({
+        where: { userId, outcome: CancellationOutcome.RETAINED_DISCOUNT },
+      });
+
+      if (alreadyRetained === 0) {
+        try {
+          const coupon = await stripeService.getCoupon(config.cancellation.retentionCouponId);
+
+          if (coupon.valid) {
+            offers.push({
+              type: 'discount',
+              percentOff: coupon.percent_off,
+              amountOff: coupon.amount_off,
+              currency: coupon.currency,
+              duration: coupon.duration,
+              durationInMonths: coupon.duration_in_months,
+            });
+          }
+        } catch (error) {
+          logger.error('Failed to load retention coupon', error);
+        }
+      }
+    }
+
+    if (
+      this.pauseCycles() > 0 &&
+      user.subscriptionStatus === 'active' &&
+      !user.pausedUntil &&
+      !user.scheduledPriceId
+    ) {
+      offers.push({ type: 'pause', cycles: this.pauseCycles() });
+    }
+
+    return offers;
+  }
+
+  /**
+   * Billing cycles of the pause offer (within STRIPE_MAX_PAUSE_CYCLES)
+   */
+  private pauseCycles(): number {
+    return Math.min(config.cancellation.retentionPauseCycles, config.stripe.maxPauseCycles);
+  }
+
+  /**
+   * Load a pending request of a user
+   */
+  private async getPendingRequest(userId: string, cancellationId: string): Promise<CancellationRequest> {
+    const request = await prisma.cancellationRequest.findFirst({
+      where: { id: cancellationId, userId, outcome: CancellationOutcome.PENDING },
+    });
+
+    if (!request) {
+      throw new Error('Cancellation request not found');
+    }
+
+    return request;
+  }
+
+  /**
+   * Cancel the subscription at the end of the period and record the outcome
+   */
+  private async cancel(request: CancellationRequest, auditContext: AuditContext): Promise<Stripe.Subscription> {
+    if (!request.subscriptionId) {
+      throw new Error('No active subscription found');
+    }
+
+    const subscription = await stripeService.cancelSubscription(request.subscriptionId);
+    await stripeService.updateUserSubscription(request.userId, subscription, auditContext);
+    await this.complete(request, CancellationOutcome.CANCELED);
+
+    await AuditService.record(auditContext, {
+      action: AuditAction.SUBSCRIPTION_CANCEL,
+      targetType: 'user',
+      targetId: request.userId,
+      metadata: {
+        stripeSubscriptionId: request.subscriptionId,
+        cancelAtPeriodEnd: true,
+        cancellationId: request.id,
+        reason: request.reason,
+      },
+    });
+
+    return subscription;
+  }
+
+  /**
+   * Record how a request ended
+   */
+  private async complete(request: CancellationRequest, outcome: CancellationOutcome): Promise<void> {
+    await prisma.cancellationRequest.update({
+      where: { id: request.id },
+      data: { outcome, completedAt: new Date() },
+    });
+  }
+}
+
+// Export singleton instance
+export const cancellationService = new CancellationService();
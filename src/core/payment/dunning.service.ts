@@ -0,0 +1,329 @@
+import Stripe from 'stripe';
+import { prisma, DunningCase } from '../database';
+import { config } from '../config';
+import { mailer } from '../mailer';
+import { EntitlementService } from '../entitlements';
+import { TokenService, TokenType } from '../auth/token.service';
+import { stripeService } from './stripe.service';
+import logger from '../../utils/logger';
+
+/**
+ * Dunning case status
+ */
+export enum DunningStatus {
+  OPEN = 'open', // Unpaid; Stripe may still retry
+  RECOVERED = 'recovered', // Paid in the end
+  LOST = 'lost', // Voided, marked uncollectible, or the subscription ended
+}
+
+/**
+ * Revenue of dunning cases in one currency, in cents
+ */
+export interface DunningRevenue {
+  currency: string;
+  atRisk: number; // Still open
+  recovered: number;
+  lost: number;
+}
+
+/**
+ * Dunning for failed renewal payments. Each failed invoice gets a case that follows
+ * Stripe's retries (attempts, next retry), sends reminders on DUNNING_REMINDER_DAYS with a
+ * link to update the payment method, and ends recovered or lost. Access during dunning is
+ * the past_due grace period of EntitlementService.getAccess.
+ */
+export class DunningService {
+  private timer: NodeJS.Timeout | null = null;
+
+  /**
+   * Start sending due reminders (DUNNING_CHECK_INTERVAL_MINUTES=0 leaves it off)
+   */
+  start(): void {
+    if (this.timer || config.dunning.checkIntervalMinutes <= 0) {
+      return;
+    }
+
+    this.timer = setInterval(() => {
+      this.sendDueReminders()
+        .catch(error => logger.error('Dunning reminders failed', error));
+    }, config.dunning.checkIntervalMinutes * 60 * 1000);
+
+    logger.info('Dunning reminders scheduled', {
+      intervalMinutes: config.dunning.checkIntervalMinutes,
+      reminderDays: config.dunning.reminderDays,
+    });
+  }
+
+  /**
+   * Stop sending reminders
+   */
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  /**
+   * Record a failed payment attempt of a renewal invoice, and send the first reminder if it's due
+   */
+  async recordFailure(invoice: Stripe.Invoice, userId: string, failureCode: string | null): Promise<DunningCase | null> {
+    // A failed first payment leaves the subscription incomplete; there's nothing to recover
+    if (!invoice.subscription || invoice.billing_reason === 'subscription_create') {
+      return null;
+    }
+
+    const subscriptionId = typeof invoice.subscription === 'string' ? invoice.subscription : invoice.subscription.id;
+    const nextRetryAt = invoice.next_payment_attempt ? new Date(invoice.next_payment_attempt * 1000) : null;
+
+    await prisma.dunningCase.upsert({
+      where: { invoiceId: invoice.id },
+      update: {},
+      create: {
+        userId,
+        subscriptionId,
+        invoiceId: invoice.id,
+        amount: invoice.amount_due,
+        currency: invoice.currency,
+        attempts: invoice.attempt_count,
+        nextRetryAt,
+        failureCode,
+      },
+    });
+
+    // Events can arrive out of order: only a later attempt updates the case
+    await prisma.dunningCase.updateMany({
+      where: { invoiceId: invoice.id, attempts: { lt: invoice.attempt_count } },
+      data: { attempts: invoice.attempt_count, nextRetryAt, failureCode },
+    });
+
+    const dunningCase = (await prisma.dunningCase.findUnique({ where: { invoiceId: invoice.id } }))!;
+    logger.info('Renewal payment failed', {
+      userId,
+      invoiceId: invoice.id,
+      attempts: dunningCase.attempts,
+      nextRetryAt: dunningCase.nextRetryAt,
+      failureCode,
+    });
+
+    await this.remindIfDue(dunningCase);
+    return dunningCase;
+  }
+
+  /**
+   * Close the case of an invoice that was paid (lost cases too: uncollectible invoices can still be paid)
+   */
+  async recordRecovery(invoice: Stripe.Invoice): Promise<void> {
+    const result = await prisma.dunningCase.updateMany({
+      where: { invoiceId: invoice.id, status: { in: [DunningStatus.OPEN, DunningStatus.LOST] } },
+      data: { status: DunningStatus.RECOVERED, nextRetryAt: null, resolvedAt: new Date() },
+    });
+
+    if (result.count > 0) {
+      logger.info('Failed renewal payment recovered', { invoiceId: invoice.id, amount: invoice.amount_paid });
+    }
+  }
+
+  /**
+   * Close the open cases of an invoice, or of a subscription that ended, as lost
+   */
+  async recordLoss(where: { invoiceId: string } | { subscriptionId: string }): Promise<void> {
+    const result = await prisma.dunningCase.updateMany({
+      where: { ...where, status: DunningStatus.OPEN },
+      data: { status: DunningStatus.LOST, nextRetryAt: null, resolvedAt: new Date() },
+    });
+
+    if (result.count > 0) {
+      logger.info('Failed renewal payment lost', { ...where, cases: result.count });
+    }
+  }
+
+  /**
+   * Send the reminders that are due. Returns how many were sent.
+   */
+  async sendDueReminders(): Promise<number> {
+    const cases = await prisma.dunningCase.findMany({
+      where: { status: DunningStatus.OPEN, remindersSent: { lt: config.dunning.reminderDays.length } },
+      orderBy: { createdAt: 'asc' },
+    });
+
+    let sent = 0;
+    for (const dunningCase of cases) {
+      try {
+        if (await this.remindIfDue(dunningCase)) {
+          sent++;
+        }
+      } catch (error) {
+        logger.error('Failed to send dunning reminder', { caseId: dunningCase.id, error });
+      }
+    }
+
+    return sent;
+  }
+
+  /**
+   * Open a Stripe portal session to update the payment method, with the token from the
+   * link of a reminder. Returns its URL.
+   */
+  async createPaymentUpdateSession(token: string): Promise<string> {
+    const userId = await TokenService.consume(token, TokenType.PAYMENT_UPDATE);
+    if (!userId) {
+      throw new Error('Invalid or expired token');
+    }
+
+    const session = await stripeService.createPortalSession(userId, config.app.url, {
+      flow: 'payment_method_update',
+    });
+
+    return session.url;
+  }
+
+  /**
+   * List cases, newest first
+   */
+  async list(filters: {
+    status?: string;
+    userId?: string;
+    page: number;
+    limit: number;
+  }): Promise<{ cases: DunningCase[]; total: number }> {
+    const where = {
+      ...(filters.status && { status: filters.status }),
+      ...(filters.userId && { userId: filters.userId }),
+    };
+
+    const [cases, total] = await Promise.all([
+      prisma.dunningCase.findMany({
+        where,
+        skip: (filters.page - 1) * filters.limit,
+        take: filters.limit,
+        orderBy: { createdAt: 'desc' },
+      }),
+      prisma.dunningCase.count({ where }),
+    ]);
+
+    return { cases, total };
+  }
+
+  /**
+   * Recovered versus lost revenue of cases opened in a date range
+   */
+  async getRecoveryReport(from: Date, to: Date = new Date()): Promise<{
+    total: number;
+    open: number;
+    recovered: number;
+    lost: number;
+    recoveryRate: number;
+    revenue: DunningRevenue[];
+  }> {
+    const groups = await prisma.dunningCase.groupBy({
+      by: ['status', 'currency'],
+      where: { createdAt: { gte: from, lte: to } },
+      _count: true,
+      _sum: { amount: true },
+    });
+
+    const counts = { open: 0, recovered: 0, lost: 0 };
+    const revenue = new Map<string, DunningRevenue>();
+
+    for (const group of groups) {
+      const amount = group._sum.amount || 0;
+      const stats = revenue.get(group.currency) ||
+        { currency: group.currency, atRisk: 0, recovered: 0, lost: 0 };
+
+      if (group.status === DunningStatus.OPEN) {
+        counts.open += group._count;
+        stats.atRisk += amount;
+      } else if (group.status === DunningStatus.RECOVERED) {
+        counts.recovered += group._count;
+        stats.recovered += amount;
+      } else if (group.status === DunningStatus.LOST) {
+        counts.lost += group._count;
+        stats.lost += amount;
+      }
+
+      revenue.set(group.currency, stats);
+    }
+
+    return {
+      total: counts.open + counts.recovered + counts.lost,
+      ...counts,
+      // Of the cases that were resolved
+      recoveryRate: counts.recovered + counts.lost > 0 ? counts.recovered / (counts.recovered + counts.lost) : 0,
+      revenue: Array.from(revenue.values()),
+    };
+  }
+
+  /**
+   * Send the case's next reminder if it's due. Reminders that were missed (the app was down)
+   * are skipped, so the user gets one email. Returns whether one was sent.
+   */
+  private async remindIfDue(dunningCase: DunningCase, now: Date = new Date()): Promise<boolean> {
+    if (dunningCase.status !== DunningStatus.OPEN) {
+      return false;
+    }
+
+    const daysOpen = (now.getTime() - dunningCase.createdAt.getTime()) / (24 * 60 * 60 * 1000);
+    const due = config.dunning.reminderDays.filter(day => day <= daysOpen).length;
+    if (due <= dunningCase.remindersSent) {
+      return false;
+    }
+
+    // Claim the reminder so other app instances don't send it too
+    const claimed = await prisma.dunningCase.updateMany({
+      where: { id: dunningCase.id, status: DunningStatus.OPEN, remindersSent: dunningCase.remindersSent },
+      data: { remindersSent: due, lastReminderAt: now },
+    });
+
+    if (claimed.count === 0) {
+      return false;
+    }
+
+    await this.sendReminder(dunningCase, now);
+    return true;
+  }
+
+  /**
+   * Email the user about the failed payment, with a link to update the payment method
+   */
+  private async sendReminder(dunningCase: DunningCase, now: Date): Promise<void> {
+    const user = await prisma.user.findUnique({
+      where: { id: dunningCase.userId },
+      select: { email: true, subscriptionStatus: true, subscriptionPlan: true, pastDueSince: true },
+    });
+
+    if (!user) {
+      logger.warn('Dunning reminder for unknown user', { caseId: dunningCase.id, userId: dunningCase.userId });
+      return;
+    }
+
+    const token = await TokenService.issue(
+      dunningCase.userId,
+      TokenType.PAYMENT_UPDATE,
+      config.dunning.linkTtlHours * 60
+    );
+    const updateUrl = `${config.app.url}/payment-method/update?token=${token}`;
+
+    const amount = `${(dunningCase.amount / 100).toFixed(2)} ${dunningCase.currency.toUpperCase()}`;
+    const { active, graceEndsAt } = EntitlementService.getAccess(user, now);
+    const access = active && graceEndsAt
+      ? `You keep access until ${graceEndsAt.toDateString()}.`
+      : active ? '' : 'Your access is paused until the payment goes through.';
+    const retry = dunningCase.nextRetryAt
+      ? `We'll try again on ${dunningCase.nextRetryAt.toDateString()}.`
+      : '';
+
+    await mailer.send({
+      to: user.email,
+      subject: `Your ${config.app.name} payment failed`,
+      text: [`We couldn't charge ${amount} for your subscription.`, retry, access].filter(Boolean).join(' ') + '\n\n' +
+        `Update your payment method to keep your subscription:\n\n${updateUrl}\n\n` +
+        `The link expires in ${config.dunning.linkTtlHours} hours.`,
+    });
+
+    logger.info('Dunning reminder sent', { caseId: dunningCase.id, userId: dunningCase.userId });
+  }
+}
+
+// Export singleton instance
+export const dunningService = new DunningService();
@@ -1,4 +1,13 @@
 export * from './stripe.service';
+export * from './stripe-client';
+export * from './stripe-emulator.service';
+export * from './plan-catalog.service';
+export * from './product-catalog.service';
+export * from './order.service';
+export * from './cancellation.service';
+export * from './webhook-queue.service';
+export * from './reconciliation.service';
+export * from './dunning.service';
 
 /**
  * Client-side payment configuration for Stripe Elements
@@ -164,8 +173,32 @@ export enum SubscriptionStatus {
   CANCELED = 'canceled',
   UNPAID = 'unpaid',
   TRIALING = 'trialing',
+  PAUSED = 'paused',
 }
 
+/**
+ * Payment status types
+ */
+export enum PaymentStatus {
+  SUCCEEDED = 'succeeded',
+  PARTIALLY_REFUNDED = 'partially_refunded',
+  REFUNDED = 'refunded',
+  DISPUTED = 'disputed',
+  CHARGEBACK = 'chargeback', // Dispute lost
+  PENDING = 'pending',
+  FAILED = 'failed',
+}
+
+/**
+ * Payment statuses that count towards revenue (net of refundedAmount)
+ */
+export const PAID_PAYMENT_STATUSES: string[] = [
+  PaymentStatus.SUCCEEDED,
+  PaymentStatus.PARTIALLY_REFUNDED,
+  PaymentStatus.REFUNDED,
+  PaymentStatus.DISPUTED,
+];
+
 /**
  * Helper to detect payment method from Stripe payment method object
  */
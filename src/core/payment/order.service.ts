@@ -0,0 +1,401 @@
+import Stripe from 'stripe';
+import { prisma, transaction, Order } from '../database';
+import { config } from '../config';
+import { keitaroService } from '../analytics';
+import { AuditContext, SYSTEM_AUDIT_CONTEXT } from '../audit';
+import { Product, productCatalog } from './product-catalog.service';
+import { stripeService } from './stripe.service';
+import logger from '../../utils/logger';
+
+/**
+ * Order status types
+ */
+export enum OrderStatus {
+  PENDING = 'pending',
+  FAILED = 'failed', // Payment failed; the customer can retry with the same payment intent
+  FULFILLED = 'fulfilled',
+  REFUNDED = 'refunded', // Fully refunded or charged back; grants are revoked
+}
+
+/**
+ * Result of a one-click upsell. With requires_action, the client confirms the
+ * payment with the client secret (3D Secure) and the webhook fulfills the order.
+ */
+export interface UpsellResult {
+  status: 'succeeded' | 'processing' | 'requires_action';
+  order: Order;
+  clientSecret?: string;
+}
+
+/**
+ * One-time purchases of catalog products. Prices come from the product catalog,
+ * and orders are fulfilled by the payment_intent.succeeded webhook.
+ */
+export class OrderService {
+  /**
+   * Create an order and the payment intent to pay for it
+   */
+  async createOrder(
+    userId: string,
+    productKey: string,
+    options: { region?: string; currency?: string } = {}
+  ): Promise<{ order: Order; clientSecret: string }> {
+    const product = productCatalog.getProduct(productKey);
+    if (!product || product.hidden) {
+      throw new Error('Unknown product');
+    }
+
+    await this.checkNotOwned(userId, product);
+
+    const price = productCatalog.resolvePrice(product, options);
+    const user = await prisma.user.findUnique({
+      where: { id: userId },
+      select: { keitaroSubId: true }
+    });
+
+    const order = await prisma.order.create({
+      data: {
+        userId,
+        productKey,
+        amount: price.amount,
+        currency: price.currency.toLowerCase(),
+        keitaroSubId: user?.keitaroSubId
+      }
+    });
+
+    const paymentIntent = await stripeService.createPaymentIntent(
+      order.amount,
+      order.currency,
+      userId,
+      user?.keitaroSubId || undefined,
+      { metadata: { orderId: order.id, productKey }, saveForLater: true }
+    );
+
+    const updated = await prisma.order.update({
+      where: { id: order.id },
+      data: { stripePaymentIntentId: paymentIntent.id }
+    });
+
+    logger.info('Order created', { orderId: order.id, userId, productKey, amount: order.amount });
+    return { order: updated, clientSecret: paymentIntent.client_secret! };
+  }
+
+  /**
+   * Upsell products offered to a user (for a while after their last payment)
+   */
+  async getUpsellOffers(userId: string): Promise<{ products: Product[]; expiresAt: Date | null }> {
+    const lastPayment = await prisma.payment.findFirst({
+      where: { userId, status: 'succeeded', createdAt: { gte: this.upsellWindowStart() } },
+      orderBy: { createdAt: 'desc' }
+    });
+
+    if (!lastPayment) {
+      return { products: [], expiresAt: null };
+    }
+
+    const owned = await prisma.order.findMany({
+      where: { userId, status: OrderStatus.FULFILLED },
+      select: { productKey: true }
+    });
+
+    return {
+      products: productCatalog.getProducts().filter(product =>
+        product.upsell && (product.repeatable || !owned.some(order => order.productKey === product.key))
+      ),
+      expiresAt: new Date(lastPayment.createdAt.getTime() + config.products.upsellWindowMinutes * 60 * 1000)
+    };
+  }
+
+  /**
+   * Buy an upsell product with one click, charging the saved payment method.
+   * The client sends an idempotency key per offer, so double clicks and retries
+   * return the same order and never charge twice.
+   */
+  async chargeUpsell(
+    userId: string,
+    productKey: string,
+    idempotencyKey: string,
+    options: { region?: string; currency?: string } = {}
+  ): Promise<UpsellResult> {
+    const key = `${userId}:${idempotencyKey}`;
+    const existing = await prisma.order.findUnique({ where: { idempotencyKey: key } });
+    if (existing) {
+      return this.getUpsellResult(existing);
+    }
+
+    const product = productCatalog.getProduct(productKey);
+    if (!product || product.hidden || !product.upsell) {
+      throw new Error('Unknown product');
+    }
+
+    await this.checkNotOwned(userId, product);
+
+    const lastPayment = await prisma.payment.findFirst({
+      where: { userId, status: 'succeeded', createdAt: { gte: this.upsellWindowStart() } }
+    });
+
+    if (!lastPayment) {
+      throw new Error('Upsell offer expired');
+    }
+
+    const price = productCatalog.resolvePrice(product, options);
+    const user = await prisma.user.findUnique({
+      where: { id: userId },
+      select: { keitaroSubId: true }
+    });
+
+    let order: Order;
+    try {
+      order = await prisma.order.create({
+        data: {
+          userId,
+          productKey,
+          amount: price.amount,
+          currency: price.currency.toLowerCase(),
+          upsell: true,
+          idempotencyKey: key,
+          keitaroSubId: user?.keitaroSubId
+        }
+      });
+    } catch (error: any) {
+      // A concurrent request with the same key created it first
+      if (error.code === 'P2002') {
+        return this.getUpsellResult((await prisma.order.findUnique({ where: { idempotencyKey: key } }))!);
+      }
+      throw error;
+    }
+
+    try {
+      const paymentIntent = await stripeService.chargeSavedPaymentMethod(userId, order.amount, order.currency, {
+        idempotencyKey: `order_${order.id}`,
+        keitaroSubId: user?.keitaroSubId || undefined,
+        metadata: { orderId: order.id, productKey, upsell: 'true' }
+      });
+
+      order = await prisma.order.update({
+        where: { id: order.id },
+        data: { stripePaymentIntentId: paymentIntent.id }
+      });
+
+      // Fulfill right away; the webhook finds the order already fulfilled
+      if (paymentIntent.status === 'succeeded') {
+        await this.fulfillOrder(paymentIntent);
+        return { status: 'succeeded', order: (await prisma.order.findUnique({ where: { id: order.id } }))! };
+      }
+
+      return { status: 'processing', order };
+    } catch (error: any) {
+      const paymentIntent = error.raw?.payment_intent as Stripe.PaymentIntent | undefined;
+
+      // The bank wants the customer to authenticate: confirm on the client instead
+      if (error.code === 'authentication_required' && paymentIntent) {
+        order = await prisma.order.update({
+          where: { id: order.id },
+          data: { stripePaymentIntentId: paymentIntent.id }
+        });
+
+        logger.info('Upsell requires authentication', { orderId: order.id, userId });
+        return { status: 'requires_action', order, clientSecret: paymentIntent.client_secret! };
+      }
+
+      await prisma.order.update({
+        where: { id: order.id },
+        data: { status: OrderStatus.FAILED, stripePaymentIntentId: paymentIntent?.id }
+      });
+
+      logger.error('Upsell charge failed', { orderId: order.id, userId, error: error.message });
+      throw error;
+    }
+  }
+
+  /**
+   * Current state of an upsell order (for repeated requests)
+   */
+  private async getUpsellResult(order: Order): Promise<UpsellResult> {
+    if (order.status === OrderStatus.FULFILLED) {
+      return { status: 'succeeded', order };
+    }
+
+    if (order.status === OrderStatus.PENDING && order.stripePaymentIntentId) {
+      const paymentIntent = await stripeService.getPaymentIntent(order.stripePaymentIntentId);
+
+      if (paymentIntent.status === 'requires_action' || paymentIntent.status === 'requires_payment_method') {
+        return { status: 'requires_action', order, clientSecret: paymentIntent.client_secret! };
+      }
+
+      return { status: paymentIntent.status === 'succeeded' ? 'succeeded' : 'processing', order };
+    }
+
+    throw new Error('Upsell payment failed');
+  }
+
+  /**
+   * Start of the window in which a payment makes upsells available
+   */
+  private upsellWindowStart(): Date {
+    return new Date(Date.now() - config.products.upsellWindowMinutes * 60 * 1000);
+  }
+
+  /**
+   * Products that aren't repeatable can only be bought once
+   */
+  private async checkNotOwned(userId: string, product: Product): Promise<void> {
+    if (product.repeatable) {
+      return;
+    }
+
+    const owned = await prisma.order.count({
+      where: { userId, productKey: product.key, status: OrderStatus.FULFILLED }
+    });
+
+    if (owned > 0) {
+      throw new Error('Product already purchased');
+    }
+  }
+
+  /**
+   * Orders of a user, newest first
+   */
+  async listOrders(userId: string): Promise<Order[]> {
+    return prisma.order.findMany({
+      where: { userId },
+      orderBy: { createdAt: 'desc' }
+    });
+  }
+
+  /**
+   * Fulfill the order of a succeeded payment intent: record the payment, grant the
+   * product and track the purchase. Webhook retries don't fulfill an order twice.
+   */
+  async fulfillOrder(paymentIntent: Stripe.PaymentIntent): Promise<void> {
+    const orderId = paymentIntent.metadata?.orderId;
+    const order = orderId ? await prisma.order.findUnique({ where: { id: orderId } }) : null;
+
+    if (!order) {
+      logger.error('Order not found for payment intent', { paymentIntentId: paymentIntent.id, orderId });
+      return;
+    }
+
+    const product = productCatalog.getProduct(order.productKey);
+    if (!product) {
+      logger.error('Order product is not in the product catalog', { orderId: order.id, productKey: order.productKey });
+    }
+
+    const payment = await transaction(async tx => {
+      const claimed = await tx.order.updateMany({
+        where: { id: order.id, status: { in: [OrderStatus.PENDING, OrderStatus.FAILED] } },
+        data: { status: OrderStatus.FULFILLED, fulfilledAt: new Date() }
+      });
+
+      if (claimed.count === 0) {
+        return null;
+      }
+
+      const payment = await tx.payment.create({
+        data: {
+          userId: order.userId,
+          stripePaymentId: paymentIntent.id,
+          amount: paymentIntent.amount_received,
+          currency: paymentIntent.currency,
+          status: 'succeeded',
+          paymentMethod: 'card',
+          keitaroSubId: order.keitaroSubId
+        }
+      });
+
+      await tx.order.update({
+        where: { id: order.id },
+        data: { paymentId: payment.id }
+      });
+
+      const grants = [
+        ...(product?.grants.features || []).map(feature => ({ feature })),
+        ...Object.entries(product?.grants.credits || {}).map(([quota, credits]) => ({ quota, credits }))
+      ];
+
+      if (grants.length > 0) {
+        await tx.entitlementGrant.createMany({
+          data: grants.map(grant => ({ ...grant, userId: order.userId, orderId: order.id }))
+        });
+      }
+
+      return payment;
+    });
+
+    if (!payment) {
+      return;
+    }
+
+    if (product?.grants.plan) {
+      await stripeService.grantLifetimePlan(order.userId, product.grants.plan, SYSTEM_AUDIT_CONTEXT, {
+        orderId: order.id
+      });
+    }
+
+    // Upsells are reported as their own conversion
+    if (order.upsell) {
+      await keitaroService.trackUpsell(order.userId, payment.amount, payment.currency, {
+        orderId: order.id,
+        productKey: order.productKey
+      });
+    } else {
+      await keitaroService.trackPurchase(
+        order.userId,
+        payment.amount,
+        payment.currency,
+        order.keitaroSubId || undefined
+      );
+    }
+
+    logger.info('Order fulfilled', { orderId: order.id, userId: order.userId, productKey: order.productKey });
+  }
+
+  /**
+   * Mark the order of a failed payment intent
+   */
+  async failOrder(paymentIntent: Stripe.PaymentIntent): Promise<void> {
+    const orderId = paymentIntent.metadata?.orderId;
+    if (!orderId) {
+      return;
+    }
+
+    await prisma.order.updateMany({
+      where: { id: orderId, status: OrderStatus.PENDING },
+      data: { status: OrderStatus.FAILED }
+    });
+  }
+
+  /**
+   * Revoke what an order granted once its payment is fully refunded or charged back
+   */
+  async revokeOrder(paymentId: string, auditContext: AuditContext = SYSTEM_AUDIT_CONTEXT): Promise<void> {
+    const order = await prisma.order.findUnique({ where: { paymentId } });
+    if (!order) {
+      return;
+    }
+
+    const revoked = await prisma.order.updateMany({
+      where: { id: order.id, status: OrderStatus.FULFILLED },
+      data: { status: OrderStatus.REFUNDED }
+    });
+
+    if (revoked.count === 0) {
+      return;
+    }
+
+    await prisma.entitlementGrant.updateMany({
+      where: { orderId: order.id, revokedAt: null },
+      data: { revokedAt: new Date() }
+    });
+
+    const plan = productCatalog.getProduct(order.productKey)?.grants.plan;
+    if (plan) {
+      await stripeService.revokeLifetimePlan(order.userId, plan, auditContext, { orderId: order.id });
+    }
+
+    logger.info('Order revoked', { orderId: order.id, userId: order.userId, paymentId });
+  }
+}
+
+// Export singleton instance
+export const orderService = new OrderService();
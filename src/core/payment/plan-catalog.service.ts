@@ -0,0 +1,281 @@
+import fs from 'fs';
+import path from 'path';
+import { config } from '../config';
+import logger from '../../utils/logger';
+
+/**
+ * Billing interval of a plan ('lifetime' is a one-time payment)
+ */
+export type PlanInterval = 'day' | 'week' | 'month' | 'year' | 'lifetime';
+
+/**
+ * Stripe price of a plan (plans can have regional or currency variants)
+ */
+export interface PlanPrice {
+  priceId: string;
+  currency: string;
+  amount: number; // Amount in cents
+  regions?: string[]; // ISO country codes this price is offered in
+}
+
+/**
+ * Free trial of a plan (one per user)
+ */
+export interface PlanTrial {
+  days: number;
+  // Without a card up front, the subscription is canceled if none is added before the trial ends
+  requireCard?: boolean;
+}
+
+/**
+ * Plan definition from the catalog
+ */
+export interface Plan {
+  key: string;
+  name: string;
+  interval: PlanInterval;
+  intervalCount: number;
+  prices: PlanPrice[];
+  features: string[]; // Entitlements granted by the plan
+  quotas?: Record<string, number>; // Monthly usage limits, e.g. { "exports": 50 }
+  trial?: PlanTrial;
+  display?: {
+    description?: string;
+    badge?: string;
+    highlighted?: boolean;
+    order?: number;
+  };
+  // Hidden plans keep mapping existing subscribers but aren't offered anymore
+  hidden?: boolean;
+}
+
+const INTERVALS: PlanInterval[] = ['day', 'week', 'month', 'year', 'lifetime'];
+
+/**
+ * Catalog mapping Stripe prices to plan keys, intervals and features.
+ * Loaded from the JSON file at PLAN_CATALOG_PATH; without one, monthly and annual
+ * plans are built from STRIPE_MONTHLY_PRICE_ID and STRIPE_ANNUAL_PRICE_ID.
+ */
+export class PlanCatalogService {
+  private plans: Plan[] | null = null;
+
+  /**
+   * Load (or reload) the catalog
+   */
+  load(plans?: Plan[]): Plan[] {
+    const loaded = plans || this.readCatalogFile() || this.legacyPlans();
+    this.validate(loaded);
+
+    this.plans = loaded
+      .map(plan => ({
+        ...plan,
+        intervalCount: plan.intervalCount || 1,
+        features: plan.features || [],
+        quotas: plan.quotas || {}
+      }))
+      .sort((a, b) => (a.display?.order ?? 0) - (b.display?.order ?? 0));
+
+    logger.info('Plan catalog loaded', { plans: this.plans.map(plan => plan.key) });
+    return this.plans;
+  }
+
+  /**
+   * Read the catalog file, if it exists
+   */
+  private readCatalogFile(): Plan[] | null {
+    const filePath = path.resolve(config.plans.catalogPath);
+    if (!fs.existsSync(filePath)) {
+      return null;
+    }
+
+    const content = JSON.parse(fs.readFileSync(filePath, 'utf8'));
+    return Array.isArray(content) ? content : content.plans;
+  }
+
+  /**
+   * Catalog from the monthly/annual price environment variables
+   */
+  private legacyPlans(): Plan[] {
+    const plans: Plan[] = [];
+
+    if (config.stripe.prices.monthly) {
+      plans.push({
+        key: 'monthly',
+        name: 'Monthly',
+        interval: 'month',
+        intervalCount: 1,
+        prices: [{ priceId: config.stripe.prices.monthly, currency: 'usd', amount: 0 }],
+        features: []
+      });
+    }
+
+    if (config.stripe.prices.annual) {
+      plans.push({
+        key: 'annual',
+        name: 'Annual',
+        interval: 'year',
+        intervalCount: 1,
+        prices: [{ priceId: config.stripe.prices.annual, currency: 'usd', amount: 0 }],
+        features: []
+      });
+    }
+
+    return plans;
+  }
+
+  /**
+   * Check catalog structure (unique keys and price IDs, known intervals)
+   */
+  private validate(plans: Plan[]): void {
+    const keys = new Set<string>();
+    const priceIds = new Set<string>();
+
+    for (const plan of plans) {
+      if (!plan.key || !plan.name) {
+        throw new Error('Plan catalog: every plan needs a key and a name');
+      }
+
+      if (keys.has(plan.key)) {
+        throw new Error(`Plan catalog: duplicate plan key "${plan.key}"`);
+      }
+      keys.add(plan.key);
+
+      if (!INTERVALS.includes(plan.interval)) {
+        throw new Error(`Plan catalog: invalid interval "${plan.interval}" for plan "${plan.key}"`);
+      }
+
+      for (const [quota, limit] of Object.entries(plan.quotas || {})) {
+        if (!Number.isInteger(limit) || limit < 0) {
+          throw new Error(`Plan catalog: quota "${quota}" of plan "${plan.key}" must be a non-negative integer`);
+        }
+      }
+
+      if (plan.trial) {
+        if (plan.interval === 'lifetime') {
+          throw new Error(`Plan catalog: lifetime plan "${plan.key}" can't have a trial`);
+        }
+
+        if (!Number.isInteger(plan.trial.days) || plan.trial.days < 1) {
+          throw new Error(`Plan catalog: trial days of plan "${plan.key}" must be a positive integer`);
+        }
+      }
+
+      if (!Array.isArray(plan.prices) || plan.prices.length === 0) {
+        throw new Error(`Plan catalog: plan "${plan.key}" has no prices`);
+      }
+
+      for (const price of plan.prices) {
+        if (!price.priceId || !price.currency) {
+          throw new Error(`Plan catalog: plan "${plan.key}" has a price without priceId or currency`);
+        }
+
+        if (priceIds.has(price.priceId)) {
+          throw new Error(`Plan catalog: price "${price.priceId}" is used by more than one plan`);
+        }
+        priceIds.add(price.priceId);
+      }
+    }
+  }
+
+  /**
+   * All plans (loads the catalog on first use)
+   */
+  getPlans(options: { includeHidden?: boolean } = {}): Plan[] {
+    const plans = this.plans || this.load();
+    return options.includeHidden ? plans : plans.filter(plan => !plan.hidden);
+  }
+
+  /**
+   * Get plan by key
+   */
+  getPlan(key: string): Plan | undefined {
+    return this.getPlans({ includeHidden: true }).find(plan => plan.key === key);
+  }
+
+  /**
+   * Find the plan a Stripe price belongs to
+   */
+  getPlanByPriceId(priceId: string): Plan | undefined {
+    return this.getPlans({ includeHidden: true })
+      .find(plan => plan.prices.some(price => price.priceId === priceId));
+  }
+
+  /**
+   * Get the catalog entry of a Stripe price
+   */
+  getPrice(priceId: string): PlanPrice | undefined {
+    return this.getPlanByPriceId(priceId)?.prices.find(price => price.priceId === priceId);
+  }
+
+  /**
+   * Pick the price of a plan for a region or currency (falls back to the first price)
+   */
+  resolvePrice(plan: Plan, options: { region?: string; currency?: string } = {}): PlanPrice {
+    const region = options.region?.toUpperCase();
+    const currency = options.currency?.toLowerCase();
+
+    return (region && plan.prices.find(price => price.regions?.includes(region))) ||
+      (currency && plan.prices.find(price => price.currency.toLowerCase() === currency && !price.regions)) ||
+      plan.prices.find(price => !price.regions) ||
+      plan.prices[0];
+  }
+
+  /**
+   * Resolve the Stripe price for a checkout request.
+   * Accepts a plan key (with optional region/currency) or a price ID, which must be in the catalog.
+   */
+  resolveCheckoutPrice(request: {
+    plan?: string;
+    priceId?: string;
+    region?: string;
+    currency?: string;
+  }): { plan: Plan; price: PlanPrice } {
+    if (request.plan) {
+      const plan = this.getPlan(request.plan);
+      if (!plan || plan.hidden) {
+        throw new Error('Unknown plan');
+      }
+
+      return { plan, price: this.resolvePrice(plan, request) };
+    }
+
+    if (request.priceId) {
+      const plan = this.getPlanByPriceId(request.priceId);
+      if (!plan || plan.hidden) {
+        throw new Error('Unknown price');
+      }
+
+      return { plan, price: this.getPrice(request.priceId)! };
+    }
+
+    throw new Error('plan or priceId is required');
+  }
+
+  /**
+   * Public view of the catalog for pricing pages
+   */
+  getPublicPlans(options: { region?: string; currency?: string } = {}): any[] {
+    return this.getPlans().map(plan => {
+      const price = this.resolvePrice(plan, options);
+
+      return {
+        key: plan.key,
+        name: plan.name,
+        interval: plan.interval,
+        intervalCount: plan.intervalCount,
+        features: plan.features,
+        quotas: plan.quotas,
+        trial: plan.trial ? { days: plan.trial.days, requireCard: plan.trial.requireCard !== false } : null,
+        display: plan.display || {},
+        price: {
+          priceId: price.priceId,
+          currency: price.currency,
+          amount: price.amount / 100 // Convert from cents
+        }
+      };
+    });
+  }
+}
+
+// Export singleton instance
+export const planCatalog = new PlanCatalogService();
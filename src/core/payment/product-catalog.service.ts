@@ -0,0 +1,179 @@
+import fs from 'fs';
+import path from 'path';
+import { config } from '../config';
+import { planCatalog } from './plan-catalog.service';
+import logger from '../../utils/logger';
+
+/**
+ * Price of a product, set on the server (products can have regional or currency variants)
+ */
+export interface ProductPrice {
+  currency: string;
+  amount: number; // Amount in cents
+  regions?: string[]; // ISO country codes this price is offered in
+}
+
+/**
+ * What buying a product grants
+ */
+export interface ProductGrants {
+  features?: string[]; // Features granted for good
+  credits?: Record<string, number>; // Quota credits that don't reset, e.g. { "exports": 100 }
+  plan?: string; // Key of a lifetime plan
+}
+
+/**
+ * Product definition from the catalog (one-time purchases)
+ */
+export interface Product {
+  key: string;
+  name: string;
+  description?: string;
+  prices: ProductPrice[];
+  grants: ProductGrants;
+  // Can be bought again (credit packs); other products are bought once per user
+  repeatable?: boolean;
+  // Offered for one-click purchase with the saved payment method right after a payment
+  upsell?: boolean;
+  display?: {
+    badge?: string;
+    order?: number;
+  };
+  // Hidden products can't be bought but keep their orders
+  hidden?: boolean;
+}
+
+/**
+ * Catalog of one-time products (credit packs, lifetime access, upsells).
+ * Loaded from the JSON file at PRODUCT_CATALOG_PATH; without one there are no products.
+ */
+export class ProductCatalogService {
+  private products: Product[] | null = null;
+
+  /**
+   * Load (or reload) the catalog
+   */
+  load(products?: Product[]): Product[] {
+    const loaded = products || this.readCatalogFile() || [];
+    this.validate(loaded);
+
+    this.products = loaded
+      .map(product => ({ ...product, grants: product.grants || {} }))
+      .sort((a, b) => (a.display?.order ?? 0) - (b.display?.order ?? 0));
+
+    logger.info('Product catalog loaded', { products: this.products.map(product => product.key) });
+    return this.products;
+  }
+
+  /**
+   * Read the catalog file, if it exists
+   */
+  private readCatalogFile(): Product[] | null {
+    const filePath = path.resolve(config.products.catalogPath);
+    if (!fs.existsSync(filePath)) {
+      return null;
+    }
+
+    const content = JSON.parse(fs.readFileSync(filePath, 'utf8'));
+    return Array.isArray(content) ? content : content.products;
+  }
+
+  /**
+   * Check catalog structure (unique keys, prices, known grants)
+   */
+  private validate(products: Product[]): void {
+    const keys = new Set<string>();
+
+    for (const product of products) {
+      if (!product.key || !product.name) {
+        throw new Error('Product catalog: every product needs a key and a name');
+      }
+
+      if (keys.has(product.key)) {
+        throw new Error(`Product catalog: duplicate product key "${product.key}"`);
+      }
+      keys.add(product.key);
+
+      if (!Array.isArray(product.prices) || product.prices.length === 0) {
+        throw new Error(`Product catalog: product "${product.key}" has no prices`);
+      }
+
+      for (const price of product.prices) {
+        // Stripe's minimum charge
+        if (!price.currency || !Number.isInteger(price.amount) || price.amount < 50) {
+          throw new Error(`Product catalog: product "${product.key}" needs a currency and an amount of at least 50 cents`);
+        }
+      }
+
+      for (const [quota, credits] of Object.entries(product.grants?.credits || {})) {
+        if (!Number.isInteger(credits) || credits < 1) {
+          throw new Error(`Product catalog: credits "${quota}" of product "${product.key}" must be a positive integer`);
+        }
+      }
+
+      if (product.grants?.plan) {
+        if (planCatalog.getPlan(product.grants.plan)?.interval !== 'lifetime') {
+          throw new Error(`Product catalog: product "${product.key}" grants plan "${product.grants.plan}", which isn't a lifetime plan`);
+        }
+
+        if (product.repeatable) {
+          throw new Error(`Product catalog: product "${product.key}" grants a plan and can't be repeatable`);
+        }
+      }
+    }
+  }
+
+  /**
+   * All products (loads the catalog on first use)
+   */
+  getProducts(options: { includeHidden?: boolean } = {}): Product[] {
+    const products = this.products || this.load();
+    return options.includeHidden ? products : products.filter(product => !product.hidden);
+  }
+
+  /**
+   * Get product by key
+   */
+  getProduct(key: string): Product | undefined {
+    return this.getProducts({ includeHidden: true }).find(product => product.key === key);
+  }
+
+  /**
+   * Pick the price of a product for a region or currency (falls back to the first price)
+   */
+  resolvePrice(product: Product, options: { region?: string; currency?: string } = {}): ProductPrice {
+    const region = options.region?.toUpperCase();
+    const currency = options.currency?.toLowerCase();
+
+    return (region && product.prices.find(price => price.regions?.includes(region))) ||
+      (currency && product.prices.find(price => price.currency.toLowerCase() === currency && !price.regions)) ||
+      product.prices.find(price => !price.regions) ||
+      product.prices[0];
+  }
+
+  /**
+   * Public view of the catalog for shop pages
+   */
+  getPublicProducts(options: { region?: string; currency?: string } = {}): any[] {
+    return this.getProducts().map(product => {
+      const price = this.resolvePrice(product, options);
+
+      return {
+        key: product.key,
+        name: product.name,
+        description: product.description || null,
+        grants: product.grants,
+        repeatable: !!product.repeatable,
+        upsell: !!product.upsell,
+        display: product.display || {},
+        price: {
+          currency: price.currency,
+          amount: price.amount / 100 // Convert from cents
+        }
+      };
+    });
+  }
+}
+
+// Export singleton instance
+export const productCatalog = new ProductCatalogService();
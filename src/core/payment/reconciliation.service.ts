@@ -0,0 +1,447 @@
+import Stripe from 'stripe';
+import { prisma, User } from '../database';
+import { config } from '../config';
+import { AuditService } from '../audit';
+import { planCatalog } from './plan-catalog.service';
+import { stripeService } from './stripe.service';
+import { orderService } from './order.service';
+import logger from '../../utils/logger';
+
+/**
+ * Difference between Stripe and the database
+ */
+export interface ReconciliationMismatch {
+  type: 'subscription' | 'payment' | 'refund' | 'dispute';
+  userId: string | null;
+  stripeId: string; // Subscription, invoice, charge or dispute
+  description: string;
+  changes?: Record<string, { from: any; to: any }> | null; // Local value to Stripe's
+  fixable: boolean;
+  fixed: boolean;
+  error?: string; // Why the fix failed
+}
+
+/**
+ * Result of a reconciliation run
+ */
+export interface ReconciliationReport {
+  dryRun: boolean;
+  userId: string | null;
+  since: Date;
+  startedAt: Date;
+  finishedAt: Date;
+  checked: { subscriptions: number; invoices: number; charges: number; users: number };
+  mismatches: ReconciliationMismatch[];
+}
+
+/**
+ * Options of a reconciliation run
+ */
+export interface ReconciliationOptions {
+  // Only report mismatches (default), or fix the fixable ones
+  dryRun?: boolean;
+  // Only this user's Stripe customer and subscription
+  userId?: string;
+  // Invoices and charges created since (default: RECONCILIATION_LOOKBACK_DAYS ago)
+  since?: Date;
+}
+
+// Fixes of the fixable mismatches of a run
+type Fixes = Map<ReconciliationMismatch, () => Promise<void>>;
+
+// Statuses of a subscription that grants (or is about to grant) its plan
+const LIVE_SUBSCRIPTION_STATUSES = ['active', 'trialing', 'past_due', 'paused', 'incomplete'];
+
+const SUBSCRIPTION_FIELDS = [
+  'subscriptionId',
+  'subscriptionStatus',
+  'subscriptionPlan',
+  'subscriptionPriceId',
+  'subscriptionEndDate',
+  'cancelAtPeriodEnd',
+  'pausedUntil',
+];
+
+/**
+ * Finds drift between Stripe and the User and Payment tables (missed webhooks, changes
+ * in the Stripe dashboard, admin overrides) by paging through subscriptions, paid
+ * invoices and charges. Fixes go through the same code as the webhooks.
+ */
+export class ReconciliationService {
+  private timer: NodeJS.Timeout | null = null;
+
+  /**
+   * Run reconciliation on a schedule (RECONCILIATION_INTERVAL_HOURS=0 leaves it off).
+   * Fixes mismatches only with RECONCILIATION_AUTO_FIX=true.
+   */
+  start(): void {
+    if (this.timer || config.reconciliation.intervalHours <= 0 || !config.stripe.secretKey) {
+      return;
+    }
+
+    this.timer = setInterval(() => {
+      this.run({ dryRun: !config.reconciliation.autoFix })
+        .catch(error => logger.error('Scheduled reconciliation failed', error));
+    }, config.reconciliation.intervalHours * 60 * 60 * 1000);
+
+    logger.info('Reconciliation scheduled', {
+      intervalHours: config.reconciliation.intervalHours,
+      autoFix: config.reconciliation.autoFix,
+    });
+  }
+
+  /**
+   * Stop the scheduled reconciliation
+   */
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  /**
+   * Compare Stripe with the database, and fix what can be fixed unless it's a dry run
+   */
+  async run(options: ReconciliationOptions = {}): Promise<ReconciliationReport> {
+    const dryRun = options.dryRun !== false;
+    const since = options.since ||
+      new Date(Date.now() - config.reconciliation.lookbackDays * 24 * 60 * 60 * 1000);
+    const startedAt = new Date();
+
+    let customer: string | undefined;
+    if (options.userId) {
+      const user = await prisma.user.findUnique({
+        where: { id: options.userId },
+        select: { stripeCustomerId: true },
+      });
+
+      if (!user) {
+        throw new Error('User not found');
+      }
+
+      customer = user.stripeCustomerId || undefined;
+    }
+
+    const fixes: Fixes = new Map();
+    const report: ReconciliationReport = {
+      dryRun,
+      userId: options.userId || null,
+      since,
+      startedAt,
+      finishedAt: startedAt,
+      checked: { subscriptions: 0, invoices: 0, charges: 0, users: 0 },
+      mismatches: [],
+    };
+
+    // A user without a Stripe customer has nothing in Stripe to compare
+    const inStripe = !options.userId || !!customer;
+
+    const seen = inStripe ? await this.checkSubscriptions(report, fixes, customer) : new Set<string>();
+    await this.checkUsers(report, fixes, seen, options.userId);
+
+    if (inStripe) {
+      await this.checkInvoices(report, fixes, since, customer);
+      await this.checkCharges(report, fixes, since, customer);
+    }
+
+    if (!dryRun) {
+      await this.fix(fixes);
+    }
+
+    report.finishedAt = new Date();
+    logger.info('Reconciliation finished', {
+      dryRun,
+      userId: report.userId,
+      checked: report.checked,
+      mismatches: report.mismatches.length,
+      fixed: report.mismatches.filter(mismatch => mismatch.fixed).length,
+    });
+
+    for (const mismatch of report.mismatches) {
+      logger.warn('Reconciliation mismatch', mismatch);
+    }
+
+    return report;
+  }
+
+  /**
+   * Compare every Stripe subscription with the user it belongs to. Returns the IDs seen.
+   */
+  private async checkSubscriptions(
+    report: ReconciliationReport,
+    fixes: Fixes,
+    customer?: string
+  ): Promise<Set<string>> {
+    const seen = new Set<string>();
+
+    for await (const subscription of stripeService.listSubscriptions({ status: 'all', limit: 100, customer })) {
+      report.checked.subscriptions++;
+      seen.add(subscription.id);
+
+      const userId = subscription.metadata?.userId;
+      if (!userId) {
+        continue;
+      }
+
+      const user = await prisma.user.findUnique({ where: { id: userId } });
+      if (!user) {
+        continue;
+      }
+
+      this.compareSubscription(report, fixes, user, subscription);
+    }
+
+    return seen;
+  }
+
+  /**
+   * Users whose subscription wasn't listed: removed from Stripe, or set by an admin override
+   */
+  private async checkUsers(
+    report: ReconciliationReport,
+    fixes: Fixes,
+    seen: Set<string>,
+    userId?: string
+  ): Promise<void> {
+    const users = await prisma.user.findMany({
+      where: {
+        ...(userId && { id: userId }),
+        subscriptionStatus: { in: LIVE_SUBSCRIPTION_STATUSES },
+      },
+    });
+
+    for (const user of users) {
+      report.checked.users++;
+
+      if (!user.subscriptionId) {
+        // Lifetime plans have no Stripe subscription
+        const plan = user.subscriptionPlan ? planCatalog.getPlan(user.subscriptionPlan) : undefined;
+        if (plan?.interval !== 'lifetime') {
+          this.add(report, fixes, {
+            type: 'subscription',
+            userId: user.id,
+            stripeId: '',
+            description: 'Subscription status set without a Stripe subscription',
+            changes: { subscriptionStatus: { from: user.subscriptionStatus, to: null } },
+          });
+        }
+        continue;
+      }
+
+      if (seen.has(user.subscriptionId)) {
+        continue;
+      }
+
+      try {
+        const subscription = await stripeService.getSubscription(user.subscriptionId);
+        this.compareSubscription(report, fixes, user, subscription);
+      } catch (error: any) {
+        if (error.code !== 'resource_missing') {
+          throw error;
+        }
+
+        this.add(report, fixes, {
+          type: 'subscription',
+          userId: user.id,
+          stripeId: user.subscriptionId,
+          description: 'Subscription does not exist in Stripe',
+        });
+      }
+    }
+  }
+
+  /**
+   * Compare a Stripe subscription with the subscription fields of its user
+   */
+  private compareSubscription(
+    report: ReconciliationReport,
+    fixes: Fixes,
+    user: User,
+    subscription: Stripe.Subscription
+  ): void {
+    const state = stripeService.getSubscriptionState(subscription);
+    const terminal = ['canceled', 'incomplete_expired'].includes(subscription.status);
+    const sync = () => stripeService.updateUserSubscription(user.id, subscription);
+
+    if (user.subscriptionId !== subscription.id) {
+      // Old subscriptions of the user are expected to be over
+      if (terminal) {
+        return;
+      }
+
+      // Two live subscriptions need a person to look at them
+      const linked = !!user.subscriptionId && LIVE_SUBSCRIPTION_STATUSES.includes(user.subscriptionStatus || '');
+      this.add(report, fixes, {
+        type: 'subscription',
+        userId: user.id,
+        stripeId: subscription.id,
+        description: linked
+          ? 'User has another live subscription in Stripe'
+          : 'Live Stripe subscription is not linked to the user',
+        changes: AuditService.diff(user, state, SUBSCRIPTION_FIELDS),
+      }, linked ? undefined : sync);
+      return;
+    }
+
+    const changes = AuditService.diff(user, state, SUBSCRIPTION_FIELDS);
+    if (changes) {
+      this.add(report, fixes, {
+        type: 'subscription',
+        userId: user.id,
+        stripeId: subscription.id,
+        description: 'Subscription differs from Stripe',
+        changes,
+      }, sync);
+    }
+  }
+
+  /**
+   * Paid subscription invoices without a recorded payment
+   */
+  private async checkInvoices(
+    report: ReconciliationReport,
+    fixes: Fixes,
+    since: Date,
+    customer?: string
+  ): Promise<void> {
+    const invoices = stripeService.listInvoices({
+      status: 'paid',
+      created: { gte: Math.floor(since.getTime() / 1000) },
+      customer,
+      limit: 100,
+      expand: ['data.subscription'],
+    });
+
+    for await (const invoice of invoices) {
+      report.checked.invoices++;
+
+      const subscription = invoice.subscription as Stripe.Subscription | null;
+      if (!subscription || !invoice.payment_intent || invoice.amount_paid === 0) {
+        continue;
+      }
+
+      const stripePaymentId = typeof invoice.payment_intent === 'string'
+        ? invoice.payment_intent
+        : invoice.payment_intent.id;
+      const payment = await prisma.payment.findUnique({ where: { stripePaymentId } });
+
+      if (!payment) {
+        this.add(report, fixes, {
+          type: 'payment',
+          userId: subscription.metadata?.userId || null,
+          stripeId: invoice.id,
+          description: 'Paid invoice has no recorded payment',
+          changes: { amount: { from: null, to: invoice.amount_paid } },
+        }, subscription.metadata?.userId ? () => stripeService.recordInvoicePayment(invoice, subscription) : undefined);
+      }
+    }
+  }
+
+  /**
+   * Charges: payments that weren't recorded, refunds and disputes that weren't applied
+   */
+  private async checkCharges(
+    report: ReconciliationReport,
+    fixes: Fixes,
+    since: Date,
+    customer?: string
+  ): Promise<void> {
+    const charges = stripeService.listCharges({
+      created: { gte: Math.floor(since.getTime() / 1000) },
+      customer,
+      limit: 100,
+    });
+
+    for await (const charge of charges) {
+      report.checked.charges++;
+
+      if (!charge.paid || !charge.payment_intent) {
+        continue;
+      }
+
+      const stripePaymentId = typeof charge.payment_intent === 'string'
+        ? charge.payment_intent
+        : charge.payment_intent.id;
+      const payment = await prisma.payment.findUnique({ where: { stripePaymentId } });
+
+      if (!payment) {
+        // Subscription payments are covered by their invoice
+        if (!charge.invoice) {
+          const paymentIntent = await stripeService.getPaymentIntent(stripePaymentId);
+          // Orders are fulfilled from their payment intent
+          const order = paymentIntent.status === 'succeeded' && !!paymentIntent.metadata?.orderId;
+
+          this.add(report, fixes, {
+            type: 'payment',
+            userId: paymentIntent.metadata?.userId || null,
+            stripeId: charge.id,
+            description: order ? 'Order payment was not fulfilled' : 'Charge has no recorded payment',
+            changes: { amount: { from: null, to: charge.amount } },
+          }, order ? () => orderService.fulfillOrder(paymentIntent) : undefined);
+        }
+        continue;
+      }
+
+      // Refunds only grow, so a local amount above Stripe's is only reported
+      if (charge.amount_refunded !== payment.refundedAmount) {
+        this.add(report, fixes, {
+          type: 'refund',
+          userId: payment.userId,
+          stripeId: charge.id,
+          description: 'Refunded amount differs from Stripe',
+          changes: { refundedAmount: { from: payment.refundedAmount, to: charge.amount_refunded } },
+        }, charge.amount_refunded > payment.refundedAmount ? () => stripeService.syncRefunds(charge) : undefined);
+      }
+
+      if (charge.disputed) {
+        for await (const dispute of stripeService.listDisputes({ charge: charge.id, limit: 10 })) {
+          if (dispute.status !== payment.disputeStatus) {
+            this.add(report, fixes, {
+              type: 'dispute',
+              userId: payment.userId,
+              stripeId: dispute.id,
+              description: 'Dispute status differs from Stripe',
+              changes: { disputeStatus: { from: payment.disputeStatus, to: dispute.status } },
+            }, () => stripeService.syncDispute(dispute));
+          }
+        }
+      }
+    }
+  }
+
+  /**
+   * Add a mismatch to the report, with its fix if it can be fixed
+   */
+  private add(
+    report: ReconciliationReport,
+    fixes: Fixes,
+    mismatch: Omit<ReconciliationMismatch, 'fixable' | 'fixed'>,
+    fix?: () => Promise<void>
+  ): void {
+    const entry: ReconciliationMismatch = { ...mismatch, fixable: !!fix, fixed: false };
+    report.mismatches.push(entry);
+
+    if (fix) {
+      fixes.set(entry, fix);
+    }
+  }
+
+  /**
+   * Fix mismatches through the same code paths as the webhooks
+   */
+  private async fix(fixes: Fixes): Promise<void> {
+    for (const [mismatch, fix] of fixes) {
+      try {
+        await fix();
+        mismatch.fixed = true;
+      } catch (error: any) {
+        mismatch.error = error.message;
+        logger.error('Reconciliation fix failed', { mismatch, error });
+      }
+    }
+  }
+}
+
+// Export singleton instance
+export const reconciliationService = new ReconciliationService();
@@ -0,0 +1,27 @@
+import Stripe from 'stripe';
+
+/**
+ * The parts of the Stripe SDK that StripeService uses. The real client (new Stripe(...))
+ * implements it; so does the in-memory StripeEmulator for tests and offline development.
+ */
+export interface StripeClient {
+  customers: Pick<Stripe.CustomersResource, 'create' | 'retrieve' | 'update'>;
+  checkout: {
+    sessions: Pick<Stripe.Checkout.SessionsResource, 'create'>;
+  };
+  billingPortal: {
+    sessions: Pick<Stripe.BillingPortal.SessionsResource, 'create'>;
+  };
+  paymentIntents: Pick<Stripe.PaymentIntentsResource, 'create' | 'retrieve'>;
+  paymentMethods: Pick<Stripe.PaymentMethodsResource, 'attach' | 'list'>;
+  subscriptions: Pick<Stripe.SubscriptionsResource, 'create' | 'retrieve' | 'update' | 'list'>;
+  subscriptionSchedules: Pick<Stripe.SubscriptionSchedulesResource, 'create' | 'update' | 'release'>;
+  invoices: Pick<Stripe.InvoicesResource, 'list' | 'retrieveUpcoming'>;
+  charges: Pick<Stripe.ChargesResource, 'list'>;
+  disputes: Pick<Stripe.DisputesResource, 'list'>;
+  refunds: Pick<Stripe.RefundsResource, 'create'>;
+  prices: Pick<Stripe.PricesResource, 'retrieve'>;
+  coupons: Pick<Stripe.CouponsResource, 'create' | 'retrieve' | 'del'>;
+  promotionCodes: Pick<Stripe.PromotionCodesResource, 'create' | 'retrieve' | 'update'>;
+  webhooks: Pick<Stripe.Webhooks, 'constructEvent'>;
+}
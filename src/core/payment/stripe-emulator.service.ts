@@ -0,0 +1,935 @@
+import crypto from 'crypto';
+import axios from 'axios';
+import Stripe from 'stripe';
+import { config } from '../config';
+import { planCatalog } from './plan-catalog.service';
+import type { StripeClient } from './stripe-client';
+import logger from '../../utils/logger';
+
+/**
+ * Test payment methods (Stripe's test tokens) and how the emulator charges them
+ */
+export const EMULATOR_PAYMENT_METHODS = {
+  SUCCEEDS: 'pm_card_visa',
+  DECLINED: 'pm_card_chargeDeclined',
+  // Succeeds on the client, needs authentication off-session (one-click upsells, renewals)
+  AUTHENTICATION_REQUIRED: 'pm_card_authenticationRequired',
+};
+
+type StoredObject = Record<string, any>;
+
+/**
+ * In-memory Stripe for tests and offline development (STRIPE_EMULATOR=true).
+ * Supports customers, payment methods, checkout sessions, subscriptions, invoices,
+ * payment intents, charges, refunds, coupons and promotion codes. Prices come from the
+ * plan catalog. Events are signed with STRIPE_WEBHOOK_SECRET and delivered to
+ * /api/webhook/stripe, in order.
+ *
+ * What a customer does on Stripe's pages (paying a checkout session, confirming a payment
+ * intent) and the passing of time (renewals, trial and period ends) are test helpers.
+ */
+export class StripeEmulator {
+  private objects = new Map<string, StoredObject>();
+  private idempotencyKeys = new Map<string, string>();
+  private clockOffset = 0;
+  private sdk = new Stripe('sk_test_emulator', { typescript: true } as Stripe.StripeConfig);
+
+  // Emitted events, oldest first
+  readonly events: Stripe.Event[] = [];
+  private delivery: Promise<void> = Promise.resolve();
+
+  // Where events are delivered (null keeps them in events only)
+  webhookUrl: string | null = `${config.app.url}/api/webhook/stripe`;
+
+  /**
+   * The emulator as a Stripe client for StripeService
+   */
+  get client(): StripeClient {
+    const unsupported = (name: string) => async () => {
+      throw new Error(`The Stripe emulator does not support ${name}`);
+    };
+
+    const client = {
+      customers: {
+        create: (params: any) => this.createCustomer(params),
+        retrieve: async (id: string) => this.get(id, 'customer'),
+        update: (id: string, params: any) => this.updateCustomer(id, params),
+      },
+      checkout: {
+        sessions: {
+          create: (params: any) => this.createCheckoutSession(params),
+        },
+      },
+      billingPortal: {
+        sessions: {
+          create: async (params: any) => this.store({
+            id: this.id('bps'),
+            object: 'billing_portal.session',
+            customer: params.customer,
+            return_url: params.return_url,
+            url: params.return_url,
+            created: this.now(),
+          }),
+        },
+      },
+      paymentIntents: {
+        create: (params: any, options?: Stripe.RequestOptions) =>
+          this.idempotent(options, () => this.createPaymentIntent(params)),
+        retrieve: async (id: string) => this.get(id, 'payment_intent'),
+      },
+      paymentMethods: {
+        attach: async (id: string, params: any) => this.attachPaymentMethod(id, params.customer),
+        list: (params: any) => this.list('payment_method', params, pm => pm.customer === params.customer),
+      },
+      subscriptions: {
+        create: (params: any) => this.createSubscription(params),
+        retrieve: async (id: string, params?: any) => this.expandSubscription(this.get(id, 'subscription'), params?.expand),
+        update: (id: string, params: any) => this.updateSubscription(id, params),
+        list: (params: any = {}) => this.list('subscription', params, subscription =>
+          (!params.customer || subscription.customer === params.customer) &&
+          (params.status === 'all' || (params.status
+            ? subscription.status === params.status
+            : subscription.status !== 'canceled'))),
+      },
+      subscriptionSchedules: {
+        create: unsupported('subscription schedules'),
+        update: unsupported('subscription schedules'),
+        release: unsupported('subscription schedules'),
+      },
+      invoices: {
+        list: (params: any = {}) => this.list('invoice', params, invoice =>
+          (!params.customer || invoice.customer === params.customer) &&
+          (!params.status || invoice.status === params.status)),
+        retrieveUpcoming: unsupported('upcoming invoices'),
+      },
+      charges: {
+        list: (params: any = {}) => this.list('charge', params, charge =>
+          !params.customer || charge.customer === params.customer),
+      },
+      disputes: {
+        // The emulator doesn't create disputes
+        list: (params: any = {}) => this.list('dispute', params, () => true),
+      },
+      refunds: {
+        create: (params: any) => this.createRefund(params),
+      },
+      prices: {
+        retrieve: async (id: string) => this.getPrice(id),
+      },
+      coupons: {
+        create: async (params: any) => this.store({
+          valid: true,
+          percent_off: null,
+          amount_off: null,
+          currency: null,
+          duration_in_months: null,
+          max_redemptions: null,
+          redeem_by: null,
+          metadata: {},
+          ...params,
+          id: params.id || this.id('coupon'),
+          object: 'coupon',
+          created: this.now(),
+        }),
+        retrieve: async (id: string) => this.get(id, 'coupon'),
+        del: async (id: string) => {
+          this.get(id, 'coupon');
+          this.objects.delete(id);
+          return { id, object: 'coupon', deleted: true };
+        },
+      },
+      promotionCodes: {
+        create: async (params: any) => this.store({
+          active: true,
+          max_redemptions: null,
+          expires_at: null,
+          restrictions: {},
+          metadata: {},
+          ...params,
+          id: this.id('promo'),
+          object: 'promotion_code',
+          coupon: this.get(params.coupon, 'coupon'),
+          times_redeemed: 0,
+          created: this.now(),
+        }),
+        retrieve: async (id: string) => this.get(id, 'promotion_code'),
+        update: async (id: string, params: any) => this.store({ ...this.get(id, 'promotion_code'), ...params }),
+      },
+      webhooks: {
+        constructEvent: (payload: string | Buffer, header: string | Buffer | string[], secret: string) =>
+          this.sdk.webhooks.constructEvent(payload, header, secret),
+      },
+    };
+
+    return client as unknown as StripeClient;
+  }
+
+  // ===== Test helpers =====
+
+  /**
+   * Pay a checkout session, as the customer would on the Checkout page
+   */
+  async completeCheckoutSession(
+    sessionId: string,
+    paymentMethod: string = EMULATOR_PAYMENT_METHODS.SUCCEEDS
+  ): Promise<Stripe.Checkout.Session> {
+    const session = this.get(sessionId, 'checkout.session');
+    if (session.status !== 'open') {
+      throw new Error(`Checkout session ${sessionId} is ${session.status}`);
+    }
+
+    const trial = !!session._subscriptionData?.trial_period_days;
+    if (!(trial && session.payment_method_collection === 'if_required')) {
+      this.attachPaymentMethod(paymentMethod, session.customer);
+    }
+
+    if (session.mode === 'payment') {
+      const paymentIntent = await this.createPaymentIntent({
+        amount: session.amount_total,
+        currency: session.currency,
+        customer: session.customer,
+        metadata: session._paymentIntentData?.metadata || {},
+      });
+
+      const paid = await this.confirmPaymentIntent(paymentIntent.id, paymentMethod);
+      if (paid.status !== 'succeeded') {
+        return this.publicView(this.get(sessionId, 'checkout.session'));
+      }
+
+      session.payment_intent = paid.id;
+    } else {
+      const subscription = await this.createSubscription({
+        customer: session.customer,
+        items: session._lineItems,
+        metadata: session._subscriptionData?.metadata || {},
+        promotion_code: session._promotionCode,
+        trial_period_days: session._subscriptionData?.trial_period_days,
+        default_payment_method: trial && session.payment_method_collection === 'if_required' ? undefined : paymentMethod,
+      });
+
+      if (subscription.status === 'incomplete') {
+        return this.publicView(this.get(sessionId, 'checkout.session'));
+      }
+
+      session.subscription = subscription.id;
+    }
+
+    const completed = this.store({ ...session, status: 'complete', payment_status: 'paid' });
+    this.emit('checkout.session.completed', completed);
+    return this.publicView(completed);
+  }
+
+  /**
+   * Confirm a payment intent on the client (Payment Element, 3D Secure)
+   */
+  async confirmPaymentIntent(
+    paymentIntentId: string,
+    paymentMethod: string = EMULATOR_PAYMENT_METHODS.SUCCEEDS
+  ): Promise<Stripe.PaymentIntent> {
+    const paymentIntent = this.get(paymentIntentId, 'payment_intent');
+    if (paymentIntent.status === 'succeeded') {
+      return this.publicView(paymentIntent);
+    }
+
+    if (paymentIntent.setup_future_usage && paymentIntent.customer) {
+      this.attachPaymentMethod(paymentMethod, paymentIntent.customer);
+    }
+
+    return this.charge(paymentIntent, paymentMethod, { offSession: false });
+  }
+
+  /**
+   * Move the emulator's clock forward: trials end, subscriptions renew (charging the
+   * default payment method), and subscriptions set to cancel at the period end are deleted
+   */
+  async advanceTime(seconds: number): Promise<void> {
+    this.clockOffset += seconds;
+
+    for (const subscription of this.all('subscription')) {
+      while (!['canceled', 'incomplete_expired'].includes(subscription.status) &&
+        subscription.current_period_end <= this.now()) {
+        if (subscription.cancel_at_period_end) {
+          this.store({
+            ...subscription,
+            status: 'canceled',
+            canceled_at: subscription.current_period_end,
+            ended_at: subscription.current_period_end,
+          });
+          this.emit('customer.subscription.deleted', this.get(subscription.id, 'subscription'));
+          break;
+        }
+
+        await this.renew(subscription.id);
+        Object.assign(subscription, this.get(subscription.id, 'subscription'));
+      }
+    }
+  }
+
+  /**
+   * Wait until every emitted event was delivered
+   */
+  async flushWebhooks(): Promise<void> {
+    await this.delivery;
+  }
+
+  /**
+   * Forget everything (between tests)
+   */
+  reset(): void {
+    this.objects.clear();
+    this.idempotencyKeys.clear();
+    this.events.length = 0;
+    this.clockOffset = 0;
+  }
+
+  // ===== Resources =====
+
+  private async createCustomer(params: any): Promise<Stripe.Customer> {
+    return this.publicView(this.store({
+      id: this.id('cus'),
+      object: 'customer',
+      email: params.email || null,
+      name: params.name || null,
+      metadata: params.metadata || {},
+      invoice_settings: { default_payment_method: null },
+      created: this.now(),
+    }));
+  }
+
+  private async updateCustomer(id: string, params: any): Promise<Stripe.Customer> {
+    const customer = this.get(id, 'customer');
+    return this.publicView(this.store({
+      ...customer,
+      ...params,
+      metadata: { ...customer.metadata, ...params.metadata },
+      invoice_settings: { ...customer.invoice_settings, ...params.invoice_settings },
+    }));
+  }
+
+  private attachPaymentMethod(id: string, customer: string): Stripe.PaymentMethod {
+    this.get(customer, 'customer');
+
+    return this.publicView(this.store({
+      id,
+      object: 'payment_method',
+      type: 'card',
+      customer,
+      card: { brand: 'visa', last4: id === EMULATOR_PAYMENT_METHODS.DECLINED ? '0002' : '4242' },
+      created: this.now(),
+    }));
+  }
+
+  private async createCheckoutSession(params: any): Promise<Stripe.Checkout.Session> {
+    const prices = (params.line_items || []).map((item: any) => ({
+      price: this.getPrice(item.price),
+      quantity: item.quantity || 1,
+    }));
+    const id = this.id('cs');
+
+    return this.publicView(this.store({
+      id,
+      object: 'checkout.session',
+      mode: params.mode,
+      status: 'open',
+      payment_status: 'unpaid',
+      customer: params.customer,
+      metadata: params.metadata || {},
+      amount_total: prices.reduce((sum: number, item: any) => sum + item.price.unit_amount * item.quantity, 0),
+      currency: prices[0]?.price.currency || 'usd',
+      total_details: { amount_discount: 0, amount_shipping: 0, amount_tax: 0 },
+      payment_intent: null,
+      subscription: null,
+      payment_method_collection: params.payment_method_collection || 'always',
+      success_url: params.success_url,
+      cancel_url: params.cancel_url,
+      url: `${config.app.url}/stripe-emulator/checkout/${id}`,
+      created: this.now(),
+      _lineItems: (params.line_items || []).map((item: any) => ({ price: item.price, quantity: item.quantity || 1 })),
+      _subscriptionData: params.subscription_data,
+      _paymentIntentData: params.payment_intent_data,
+      _promotionCode: params.discounts?.[0]?.promotion_code,
+    }));
+  }
+
+  private async createPaymentIntent(params: any): Promise<Stripe.PaymentIntent> {
+    const id = this.id('pi');
+    const paymentIntent = this.store({
+      id,
+      object: 'payment_intent',
+      amount: params.amount,
+      amount_received: 0,
+      currency: params.currency,
+      customer: params.customer || null,
+      metadata: params.metadata || {},
+      description: params.description || null,
+      status: params.payment_method ? 'requires_confirmation' : 'requires_payment_method',
+      payment_method: params.payment_method || null,
+      setup_future_usage: params.setup_future_usage || null,
+      client_secret: `${id}_secret_${crypto.randomBytes(8).toString('hex')}`,
+      latest_charge: null,
+      invoice: params._invoice || null,
+      last_payment_error: null,
+      created: this.now(),
+    });
+
+    if (!params.confirm) {
+      return this.publicView(paymentIntent);
+    }
+
+    return this.charge(paymentIntent, params.payment_method, { offSession: !!params.off_session, throwOnFailure: true });
+  }
+
+  private async createSubscription(params: any): Promise<Stripe.Subscription> {
+    const customer = this.get(params.customer, 'customer');
+    const items = params.items.map((item: any) => ({
+      id: this.id('si'),
+      object: 'subscription_item',
+      price: this.getPrice(item.price),
+      quantity: item.quantity || 1,
+    }));
+    const recurring = items[0].price.recurring;
+    const now = this.now();
+    const trialEnd = params.trial_end && params.trial_end !== 'now'
+      ? params.trial_end
+      : params.trial_period_days ? now + params.trial_period_days * 24 * 60 * 60 : null;
+
+    const subscription: StoredObject = this.store({
+      id: this.id('sub'),
+      object: 'subscription',
+      customer: customer.id,
+      status: trialEnd ? 'trialing' : 'incomplete',
+      items: { object: 'list', data: items },
+      metadata: params.metadata || {},
+      currency: items[0].price.currency,
+      current_period_start: now,
+      current_period_end: trialEnd || this.addInterval(now, recurring),
+      trial_start: trialEnd ? now : null,
+      trial_end: trialEnd,
+      cancel_at_period_end: false,
+      canceled_at: null,
+      ended_at: null,
+      pause_collection: null,
+      schedule: null,
+      discount: params.coupon || params.promotion_code ? this.discount(params) : null,
+      default_payment_method: params.default_payment_method || null,
+      latest_invoice: null,
+      created: now,
+    });
+
+    if (!trialEnd) {
+      const invoice = await this.invoice(subscription, 'subscription_create');
+      subscription.status = invoice.status === 'paid' ? 'active' : 'incomplete';
+      subscription.latest_invoice = invoice.id;
+    }
+
+    this.store(subscription);
+    this.emit('customer.subscription.created', subscription);
+    this.emitInvoiceEvents(subscription.latest_invoice);
+
+    return this.expandSubscription(subscription, params.expand);
+  }
+
+  private async updateSubscription(id: string, params: any): Promise<Stripe.Subscription> {
+    const before = this.get(id, 'subscription');
+    const subscription: StoredObject = { ...before, metadata: { ...before.metadata, ...params.metadata } };
+
+    if (params.cancel_at_period_end !== undefined) {
+      subscription.cancel_at_period_end = params.cancel_at_period_end;
+    }
+
+    if (params.pause_collection !== undefined) {
+      subscription.pause_collection = params.pause_collection || null;
+    }
+
+    if (params.default_payment_method !== undefined) {
+      subscription.default_payment_method = params.default_payment_method;
+    }
+
+    if (params.coupon || params.promotion_code) {
+      subscription.discount = this.discount(params);
+    }
+
+    if (params.items) {
+      subscription.items = {
+        object: 'list',
+        data: params.items.map((item: any) => ({
+          id: item.id || this.id('si'),
+          object: 'subscription_item',
+          price: this.getPrice(item.price),
+          quantity: item.quantity || 1,
+        })),
+      };
+    }
+
+    this.store(subscription);
+
+    // New billing period (resuming a pause, ending a trial)
+    if (params.billing_cycle_anchor === 'now' || params.trial_end === 'now') {
+      await this.renew(id, { trialEnd: params.trial_end === 'now' });
+    }
+
+    const after = this.get(id, 'subscription');
+    this.emit('customer.subscription.updated', after, this.previousAttributes(before, after));
+    this.emitInvoiceEvents(after.latest_invoice !== before.latest_invoice ? after.latest_invoice : null);
+
+    return this.expandSubscription(after, params.expand);
+  }
+
+  private async createRefund(params: any): Promise<Stripe.Refund> {
+    const paymentIntent = this.get(params.payment_intent, 'payment_intent');
+    const charge = paymentIntent.latest_charge ? this.get(paymentIntent.latest_charge, 'charge') : null;
+
+    if (!charge) {
+      throw this.error('invalid_request_error', `Payment intent ${paymentIntent.id} has no charge`);
+    }
+
+    const amount = params.amount ?? charge.amount - charge.amount_refunded;
+    if (amount <= 0 || charge.amount_refunded + amount > charge.amount) {
+      throw this.error('invalid_request_error', 'Refund amount is greater than the unrefunded amount', 'amount_too_large');
+    }
+
+    const refund = this.store({
+      id: this.id('re'),
+      object: 'refund',
+      amount,
+      currency: charge.currency,
+      charge: charge.id,
+      payment_intent: paymentIntent.id,
+      reason: params.reason || null,
+      metadata: params.metadata || {},
+      status: 'succeeded',
+      created: this.now(),
+    });
+
+    const refunded = this.store({
+      ...charge,
+      amount_refunded: charge.amount_refunded + amount,
+      refunded: charge.amount_refunded + amount >= charge.amount,
+    });
+    this.emit('charge.refunded', refunded);
+
+    return this.publicView(refund);
+  }
+
+  /**
+   * Prices of the plan catalog, as Stripe price objects
+   */
+  private getPrice(id: string): Stripe.Price {
+    const plan = planCatalog.getPlanByPriceId(id);
+    const price = planCatalog.getPrice(id);
+
+    if (!plan || !price) {
+      throw this.error('invalid_request_error', `No such price: '${id}'`, 'resource_missing');
+    }
+
+    return {
+      id,
+      object: 'price',
+      active: true,
+      currency: price.currency.toLowerCase(),
+      unit_amount: price.amount,
+      type: plan.interval === 'lifetime' ? 'one_time' : 'recurring',
+      recurring: plan.interval === 'lifetime'
+        ? null
+        : { interval: plan.interval, interval_count: plan.intervalCount },
+      metadata: {},
+      created: 0,
+    } as unknown as Stripe.Price;
+  }
+
+  // ===== Billing =====
+
+  /**
+   * Charge a payment intent with a payment method
+   */
+  private async charge(
+    paymentIntent: StoredObject,
+    paymentMethod: string | null,
+    options: { offSession: boolean; throwOnFailure?: boolean }
+  ): Promise<Stripe.PaymentIntent> {
+    const declined = !paymentMethod || paymentMethod === EMULATOR_PAYMENT_METHODS.DECLINED;
+    const needsAuthentication = options.offSession && paymentMethod === EMULATOR_PAYMENT_METHODS.AUTHENTICATION_REQUIRED;
+
+    if (declined || needsAuthentication) {
+      const code = needsAuthentication ? 'authentication_required' : 'card_declined';
+      const failed: StoredObject = this.store({
+        ...paymentIntent,
+        payment_method: paymentMethod,
+        status: needsAuthentication ? 'requires_action' : 'requires_payment_method',
+        last_payment_error: { type: 'card_error', code, message: this.declineMessage(code) },
+      });
+
+      if (!failed.invoice) {
+        this.emit('payment_intent.payment_failed', failed);
+      }
+
+      if (options.throwOnFailure) {
+        throw this.error('card_error', this.declineMessage(code), code, this.publicView(failed));
+      }
+
+      return this.publicView(failed);
+    }
+
+    const charge = this.store({
+      id: this.id('ch'),
+      object: 'charge',
+      amount: paymentIntent.amount,
+      amount_refunded: 0,
+      currency: paymentIntent.currency,
+      customer: paymentIntent.customer,
+      payment_intent: paymentIntent.id,
+      payment_method: paymentMethod,
+      invoice: paymentIntent.invoice,
+      metadata: paymentIntent.metadata,
+      paid: true,
+      status: 'succeeded',
+      refunded: false,
+      disputed: false,
+      created: this.now(),
+    });
+
+    const succeeded = this.store({
+      ...paymentIntent,
+      payment_method: paymentMethod,
+      status: 'succeeded',
+      amount_received: paymentIntent.amount,
+      latest_charge: charge.id,
+      last_payment_error: null,
+    });
+
+    this.emit('payment_intent.succeeded', succeeded);
+    return this.publicView(succeeded);
+  }
+
+  /**
+   * Invoice a subscription for its current period and try to pay it
+   */
+  private async invoice(subscription: StoredObject, billingReason: string): Promise<StoredObject> {
+    const item = subscription.items.data[0];
+    const coupon = subscription.discount?.coupon;
+    const subtotal = item.price.unit_amount * item.quantity;
+    const discount = !coupon
+      ? 0
+      : coupon.percent_off ? Math.round(subtotal * coupon.percent_off / 100) : Math.min(coupon.amount_off || 0, subtotal);
+    const total = subtotal - discount;
+
+    const invoice = this.store({
+      id: this.id('in'),
+      object: 'invoice',
+      customer: subscription.customer,
+      subscription: subscription.id,
+      billing_reason: billingReason,
+      status: 'open',
+      currency: item.price.currency,
+      subtotal,
+      total,
+      amount_due: total,
+      amount_paid: 0,
+      total_discount_amounts: discount > 0 ? [{ amount: discount, discount: 'di_emulator' }] : [],
+      payment_intent: null,
+      attempt_count: 0,
+      next_payment_attempt: null, // The emulator doesn't retry
+      period_start: subscription.current_period_start,
+      period_end: subscription.current_period_end,
+      created: this.now(),
+    });
+
+    if (total === 0 || subscription.pause_collection) {
+      return this.store({ ...invoice, status: subscription.pause_collection ? 'void' : 'paid' });
+    }
+
+    const customer = this.get(subscription.customer, 'customer');
+    const paymentMethod = subscription.default_payment_method ||
+      customer.invoice_settings.default_payment_method ||
+      this.all('payment_method').filter(pm => pm.customer === customer.id).pop()?.id ||
+      null;
+
+    const paymentIntent = await this.createPaymentIntent({
+      amount: total,
+      currency: item.price.currency,
+      customer: customer.id,
+      payment_method: paymentMethod,
+      _invoice: invoice.id,
+    });
+    const paid = await this.charge(this.get(paymentIntent.id, 'payment_intent'), paymentMethod, {
+      offSession: billingReason !== 'subscription_create',
+    });
+
+    return this.store({
+      ...invoice,
+      payment_intent: paid.id,
+      attempt_count: 1,
+      status: paid.status === 'succeeded' ? 'paid' : 'open',
+      amount_paid: paid.status === 'succeeded' ? total : 0,
+    });
+  }
+
+  /**
+   * Start the next billing period of a subscription and invoice it
+   */
+  private async renew(id: string, options: { trialEnd?: boolean } = {}): Promise<void> {
+    const subscription = this.get(id, 'subscription');
+    const start = options.trialEnd || subscription.current_period_end > this.now()
+      ? this.now()
+      : subscription.current_period_end;
+    const trialEnded = subscription.status === 'trialing';
+
+    // Trials without a card are canceled at the end
+    if (trialEnded && !this.hasPaymentMethod(subscription)) {
+      this.store({ ...subscription, status: 'canceled', canceled_at: start, ended_at: start });
+      this.emit('customer.subscription.deleted', this.get(id, 'subscription'));
+      return;
+    }
+
+    const renewed = this.store({
+      ...subscription,
+      current_period_start: start,
+      current_period_end: this.addInterval(start, subscription.items.data[0].price.recurring),
+      ...(trialEnded && { trial_end: start }),
+    });
+
+    const invoice = await this.invoice(renewed, 'subscription_cycle');
+    const status = invoice.status === 'paid' || invoice.status === 'void' ? 'active' : 'past_due';
+
+    const after = this.store({ ...renewed, status, latest_invoice: invoice.id });
+
+    // Renewals from advanceTime emit here; changes through the API emit in updateSubscription
+    if (!options.trialEnd && subscription.current_period_end <= this.now()) {
+      this.emit('customer.subscription.updated', after, this.previousAttributes(subscription, after));
+      this.emitInvoiceEvents(invoice.id);
+    }
+  }
+
+  /**
+   * Discount of a coupon or promotion code; redeeming a promotion code counts towards its limit
+   */
+  private discount(params: { coupon?: string; promotion_code?: string }): Record<string, any> {
+    if (params.coupon) {
+      return { object: 'discount', coupon: this.get(params.coupon, 'coupon'), promotion_code: null };
+    }
+
+    const promotionCode = this.get(params.promotion_code!, 'promotion_code');
+    this.store({ ...promotionCode, times_redeemed: promotionCode.times_redeemed + 1 });
+    return { object: 'discount', coupon: promotionCode.coupon, promotion_code: promotionCode.id };
+  }
+
+  private hasPaymentMethod(subscription: StoredObject): boolean {
+    const customer = this.get(subscription.customer, 'customer');
+    return !!subscription.default_payment_method ||
+      !!customer.invoice_settings.default_payment_method ||
+      this.all('payment_method').some(pm => pm.customer === customer.id);
+  }
+
+  private emitInvoiceEvents(invoiceId: string | null): void {
+    if (!invoiceId) {
+      return;
+    }
+
+    const invoice = this.get(invoiceId, 'invoice');
+    if (invoice.status === 'paid') {
+      this.emit('invoice.payment_succeeded', invoice);
+    } else if (invoice.status === 'open') {
+      this.emit('invoice.payment_failed', invoice);
+    }
+  }
+
+  private addInterval(timestamp: number, recurring: { interval: string; interval_count: number } | null): number {
+    const date = new Date(timestamp * 1000);
+    const count = recurring?.interval_count || 1;
+
+    switch (recurring?.interval) {
+      case 'day':
+        date.setUTCDate(date.getUTCDate() + count);
+        break;
+      case 'week':
+        date.setUTCDate(date.getUTCDate() + 7 * count);
+        break;
+      case 'year':
+        date.setUTCFullYear(date.getUTCFullYear() + count);
+        break;
+      default:
+        date.setUTCMonth(date.getUTCMonth() + count);
+    }
+
+    return Math.floor(date.getTime() / 1000);
+  }
+
+  private declineMessage(code: string): string {
+    return code === 'authentication_required'
+      ? 'Your card was declined. This transaction requires authentication.'
+      : 'Your card was declined.';
+  }
+
+  // ===== Events =====
+
+  /**
+   * Record an event and queue its signed delivery to the webhook URL
+   */
+  private emit(type: string, object: StoredObject, previousAttributes?: Record<string, any>): void {
+    const event = {
+      id: this.id('evt'),
+      object: 'event',
+      type,
+      api_version: '2023-10-16',
+      created: this.now(),
+      livemode: false,
+      pending_webhooks: 1,
+      request: { id: null, idempotency_key: null },
+      data: {
+        object: this.publicView(object),
+        ...(previousAttributes && { previous_attributes: previousAttributes }),
+      },
+    } as unknown as Stripe.Event;
+
+    this.events.push(event);
+    this.delivery = this.delivery.then(() => this.deliver(event));
+  }
+
+  private async deliver(event: Stripe.Event): Promise<void> {
+    if (!this.webhookUrl) {
+      return;
+    }
+
+    const payload = JSON.stringify(event);
+    const signature = this.sdk.webhooks.generateTestHeaderString({
+      payload,
+      secret: config.stripe.webhookSecret,
+    });
+
+    try {
+      await axios.post(this.webhookUrl, payload, {
+        headers: { 'Content-Type': 'application/json', 'Stripe-Signature': signature },
+      });
+    } catch (error: any) {
+      logger.error('Stripe emulator webhook delivery failed', {
+        eventId: event.id,
+        type: event.type,
+        error: error.response?.data || error.message,
+      });
+    }
+  }
+
+  private previousAttributes(before: StoredObject, after: StoredObject): Record<string, any> {
+    const previous: Record<string, any> = {};
+
+    for (const key of Object.keys(before)) {
+      if (JSON.stringify(before[key]) !== JSON.stringify(after[key])) {
+        previous[key] = before[key];
+      }
+    }
+
+    return this.publicView(previous);
+  }
+
+  // ===== Storage =====
+
+  private now(): number {
+    return Math.floor(Date.now() / 1000) + this.clockOffset;
+  }
+
+  private id(prefix: string): string {
+    return `${prefix}_emu_${crypto.randomBytes(12).toString('hex')}`;
+  }
+
+  private store<T extends StoredObject>(object: T): T {
+    this.objects.set(object.id, JSON.parse(JSON.stringify(object)));
+    return object;
+  }
+
+  private get(id: string, type: string): StoredObject {
+    const object = this.objects.get(id);
+    if (!object || object.object !== type) {
+      throw this.error('invalid_request_error', `No such ${type.replace(/^.*\./, '')}: '${id}'`, 'resource_missing');
+    }
+
+    return JSON.parse(JSON.stringify(object));
+  }
+
+  private all(type: string): StoredObject[] {
+    return Array.from(this.objects.values())
+      .filter(object => object.object === type)
+      .map(object => JSON.parse(JSON.stringify(object)));
+  }
+
+  /**
+   * Copy without the emulator's own fields (prefixed with _)
+   */
+  private publicView<T = any>(object: StoredObject | Record<string, any>): T {
+    return JSON.parse(JSON.stringify(object, (key, value) => key.startsWith('_') ? undefined : value));
+  }
+
+  private expandSubscription(subscription: StoredObject, expand: string[] = []): Stripe.Subscription {
+    const view = this.publicView(subscription);
+
+    if (subscription.latest_invoice && expand.some(path => path.startsWith('latest_invoice'))) {
+      const invoice = this.publicView(this.get(subscription.latest_invoice, 'invoice'));
+      if (invoice.payment_intent && expand.includes('latest_invoice.payment_intent')) {
+        invoice.payment_intent = this.publicView(this.get(invoice.payment_intent, 'payment_intent'));
+      }
+      view.latest_invoice = invoice;
+    }
+
+    return view;
+  }
+
+  /**
+   * A list response that can also be paged through with for await, like the SDK's
+   */
+  private list(type: string, params: any, filter: (object: StoredObject) => boolean): any {
+    const created = params.created;
+    const items = this.all(type)
+      .filter(filter)
+      .filter(object => !created || typeof created !== 'object' ||
+        ((created.gte === undefined || object.created >= created.gte) &&
+          (created.lte === undefined || object.created <= created.lte)))
+      .reverse()
+      .map(object => type === 'invoice' && params.expand?.includes('data.subscription') && object.subscription
+        ? { ...this.publicView(object), subscription: this.publicView(this.get(object.subscription, 'subscription')) }
+        : this.publicView(object));
+
+    const page = Promise.resolve({ object: 'list', data: items.slice(0, params.limit || 10), has_more: false, url: '' });
+    return Object.assign(page, {
+      [Symbol.asyncIterator]: async function* () {
+        yield* items;
+      },
+      autoPagingToArray: async (options: { limit: number }) => items.slice(0, options.limit),
+    });
+  }
+
+  /**
+   * Return the same object for a repeated idempotency key
+   */
+  private async idempotent<T extends { id: string }>(
+    options: Stripe.RequestOptions | undefined,
+    create: () => Promise<T>
+  ): Promise<T> {
+    const key = options?.idempotencyKey;
+    const existing = key ? this.idempotencyKeys.get(key) : undefined;
+    if (existing) {
+      return this.publicView(this.objects.get(existing)!);
+    }
+
+    try {
+      const result = await create();
+      if (key) this.idempotencyKeys.set(key, result.id);
+      return result;
+    } catch (error: any) {
+      // Stripe also replays failed requests
+      if (key && error.raw?.payment_intent) this.idempotencyKeys.set(key, error.raw.payment_intent.id);
+      throw error;
+    }
+  }
+
+  private error(type: Stripe.RawErrorType, message: string, code?: string, paymentIntent?: Stripe.PaymentIntent): Error {
+    return this.sdk.errors.StripeError.generate({
+      type,
+      message,
+      code,
+      statusCode: type === 'card_error' ? 402 : code === 'resource_missing' ? 404 : 400,
+      payment_intent: paymentIntent,
+    } as Stripe.StripeRawError);
+  }
+}
+
+// Export singleton instance
+export const stripeEmulator = new StripeEmulator();
@@ -1,19 +1,66 @@
 import Stripe from 'stripe';
 import { config } from '../config';
-import { prisma } from '../database';
+import { prisma, Prisma, Payment, PromoCode, User } from '../database';
+import { mailer } from '../mailer';
+import { keitaroService, TrackingEventType } from '../analytics';
+import { AuditAction, AuditContext, AuditService, SYSTEM_AUDIT_CONTEXT } from '../audit';
+import { Plan, PlanTrial, planCatalog } from './plan-catalog.service';
+import { orderService } from './order.service';
+import { dunningService } from './dunning.service';
+import { StripeClient } from './stripe-client';
+import { stripeEmulator } from './stripe-emulator.service';
 import logger, { logStripeEvent } from '../../utils/logger';
 
+// Subscription statuses a subscription never leaves
+const TERMINAL_SUBSCRIPTION_STATUSES = ['canceled', 'incomplete_expired'];
+
+/**
+ * When a plan change takes effect
+ */
+export type PlanChangeTiming = 'immediate' | 'period_end';
+
+/**
+ * Preview of a plan change (amounts in cents)
+ */
+export interface PlanChangePreview {
+  timing: PlanChangeTiming;
+  fromPlan: string | null;
+  toPlan: string | null;
+  currency: string;
+  // Charged now for immediate changes (negative is a credit towards later invoices)
+  immediateAmount: number;
+  // Next regular invoice on the new plan
+  renewalAmount: number;
+  renewalAt: Date;
+  // Pass back to changePlan so the charge matches the preview
+  prorationDate?: number;
+  lines: Array<{ description: string | null; amount: number; proration: boolean }>;
+}
+
 /**
  * Stripe service for handling payments and subscriptions
  */
 export class StripeService {
-  private stripe: Stripe;
+  private stripe: StripeClient;
 
-  constructor() {
-    this.stripe = new Stripe(config.stripe.secretKey, {
-      apiVersion: '2023-10-16',
-      typescript: true,
-    });
+  /**
+   * Uses the given client, the in-memory emulator with STRIPE_EMULATOR=true,
+   * or the Stripe API
+   */
+  constructor(client?: StripeClient) {
+    this.stripe = client || (config.stripe.emulator
+      ? stripeEmulator.client
+      : new Stripe(config.stripe.secretKey, {
+        apiVersion: '2023-10-16',
+        typescript: true,
+      }));
+  }
+
+  /**
+   * Swap the Stripe client (tests)
+   */
+  setClient(client: StripeClient): void {
+    this.stripe = client;
   }
 
   /**
@@ -69,6 +116,36 @@ export class StripeService {
     return this.createCustomer(userId, user.email, user.name || undefined);
   }
 
+  /**
+   * Free trial a user gets on a plan: none if the plan has no trial
+   * or the user already had a trial or a subscription
+   */
+  async getTrialForUser(userId: string, plan?: Plan): Promise<PlanTrial | null> {
+    if (!plan?.trial) {
+      return null;
+    }
+
+    const user = await prisma.user.findUnique({
+      where: { id: userId },
+      select: { trialUsedAt: true, subscriptionId: true },
+    });
+
+    return user && !user.trialUsedAt && !user.subscriptionId ? plan.trial : null;
+  }
+
+  /**
+   * Subscription parameters for a trial
+   */
+  private trialParams(trial: PlanTrial) {
+    return {
+      trial_period_days: trial.days,
+      // Trials without a card end the subscription if no card was added
+      ...(trial.requireCard === false && {
+        trial_settings: { end_behavior: { missing_payment_method: 'cancel' as const } },
+      }),
+    };
+  }
+
   /**
    * Create a checkout session for subscription
    */
@@ -77,14 +154,25 @@ export class StripeService {
     priceId: string,
     successUrl: string,
     cancelUrl: string,
-    keitaroSubId?: string
+    keitaroSubId?: string,
+    promoCode?: string
   ): Promise<Stripe.Checkout.Session> {
+    const promo = promoCode ? await this.validatePromoCode(promoCode, { priceId, userId }) : null;
     const customer = await this.getOrCreateCustomer(userId);
+    const plan = planCatalog.getPlanByPriceId(priceId);
+    const trial = await this.getTrialForUser(userId, plan);
+    const metadata = {
+      userId,
+      keitaroSubId: keitaroSubId || '',
+      planKey: plan?.key || '',
+      promoCode: promo?.promoCode.code || '',
+    };
 
     const sessionData: Stripe.Checkout.SessionCreateParams = {
       customer: customer.id,
       payment_method_types: ['card'],
-      mode: 'subscription',
+      // Lifetime plans are a one-time payment
+      mode: plan?.interval === 'lifetime' ? 'payment' : 'subscription',
       line_items: [
         {
           price: priceId,
@@ -93,16 +181,15 @@ export class StripeService {
       ],
       success_url: successUrl,
       cancel_url: cancelUrl,
-      metadata: {
-        userId,
-        keitaroSubId: keitaroSubId || '',
-      },
-      subscription_data: {
-        metadata: {
-          userId,
-          keitaroSubId: keitaroSubId || '',
-        },
-      },
+      metadata,
+      ...(plan?.interval === 'lifetime'
+        ? { payment_intent_data: { metadata } }
+        : { subscription_data: { metadata, ...(trial && this.trialParams(trial)) } }),
+      ...(trial?.requireCard === false && { payment_method_collection: 'if_required' as const }),
+      // A validated code, or let the customer enter one on the Checkout page
+      ...(promo
+        ? { discounts: [{ promotion_code: promo.promoCode.stripePromotionCodeId }] }
+        : { allow_promotion_codes: config.stripe.allowPromotionCodes }),
       // Enable Apple Pay and Google Pay
       payment_method_options: {
         card: {
@@ -128,7 +215,8 @@ export class StripeService {
     amount: number,
     currency: string = 'usd',
     userId: string,
-    keitaroSubId?: string
+    keitaroSubId?: string,
+    options: { metadata?: Record<string, string>; saveForLater?: boolean } = {}
   ): Promise<Stripe.PaymentIntent> {
     const customer = await this.getOrCreateCustomer(userId);
 
@@ -138,9 +226,12 @@ export class StripeService {
         currency,
         customer: customer.id,
         metadata: {
+          ...options.metadata,
           userId,
           keitaroSubId: keitaroSubId || '',
         },
+        // Keep the payment method for off-session charges (one-click upsells)
+        ...(options.saveForLater && { setup_future_usage: 'off_session' as const }),
         automatic_payment_methods: {
           enabled: true,
         },
@@ -155,28 +246,111 @@ export class StripeService {
   }
 
   /**
-   * Create a subscription directly (for custom flows)
+   * Charge a user's saved payment method while they're not entering card details (one-click upsells).
+   * Stripe's card error is thrown when the charge is declined or needs authentication;
+   * its payment_intent can then be confirmed on the client.
+   */
+  async chargeSavedPaymentMethod(
+    userId: string,
+    amount: number,
+    currency: string,
+    options: { idempotencyKey: string; keitaroSubId?: string; metadata?: Record<string, string> }
+  ): Promise<Stripe.PaymentIntent> {
+    const customer = await this.getOrCreateCustomer(userId);
+    const paymentMethod = await this.getSavedPaymentMethod(customer);
+
+    if (!paymentMethod) {
+      throw new Error('No saved payment method');
+    }
+
+    const paymentIntent = await this.stripe.paymentIntents.create({
+      amount,
+      currency,
+      customer: customer.id,
+      payment_method: paymentMethod,
+      off_session: true,
+      confirm: true,
+      metadata: {
+        ...options.metadata,
+        userId,
+        keitaroSubId: options.keitaroSubId || '',
+      },
+    }, {
+      idempotencyKey: options.idempotencyKey,
+    });
+
+    logger.info('Saved payment method charged', { paymentIntentId: paymentIntent.id, userId, status: paymentIntent.status });
+    return paymentIntent;
+  }
+
+  /**
+   * Get a payment intent
+   */
+  async getPaymentIntent(paymentIntentId: string): Promise<Stripe.PaymentIntent> {
+    return this.stripe.paymentIntents.retrieve(paymentIntentId);
+  }
+
+  /**
+   * Payment method for off-session charges: the customer's default,
+   * or else their latest card (checkout saves cards without making them the default)
+   */
+  private async getSavedPaymentMethod(customer: Stripe.Customer): Promise<string | null> {
+    const defaultMethod = customer.invoice_settings?.default_payment_method;
+    if (defaultMethod) {
+      return typeof defaultMethod === 'string' ? defaultMethod : defaultMethod.id;
+    }
+
+    const methods = await this.stripe.paymentMethods.list({
+      customer: customer.id,
+      type: 'card',
+      limit: 1,
+    });
+
+    return methods.data[0]?.id || null;
+  }
+
+  /**
+   * Create a subscription directly (for custom flows).
+   * The payment method may be left out for plans with a trial that doesn't require a card.
    */
   async createSubscription(
     userId: string,
     priceId: string,
-    paymentMethodId: string,
-    keitaroSubId?: string
+    paymentMethodId?: string,
+    keitaroSubId?: string,
+    auditContext: AuditContext = SYSTEM_AUDIT_CONTEXT,
+    options: { promoCode?: string } = {}
   ): Promise<Stripe.Subscription> {
+    const plan = planCatalog.getPlanByPriceId(priceId);
+    if (plan?.interval === 'lifetime') {
+      throw new Error('Lifetime plans must be purchased through checkout');
+    }
+
+    const trial = await this.getTrialForUser(userId, plan);
+    if (!paymentMethodId && trial?.requireCard !== false) {
+      throw new Error('Payment method required');
+    }
+
+    const promo = options.promoCode
+      ? await this.validatePromoCode(options.promoCode, { priceId, userId })
+      : null;
+
     const customer = await this.getOrCreateCustomer(userId);
 
     try {
-      // Attach payment method to customer
-      await this.stripe.paymentMethods.attach(paymentMethodId, {
-        customer: customer.id,
-      });
+      if (paymentMethodId) {
+        // Attach payment method to customer
+        await this.stripe.paymentMethods.attach(paymentMethodId, {
+          customer: customer.id,
+        });
 
-      // Set as default payment method
-      await this.stripe.customers.update(customer.id, {
-        invoice_settings: {
-          default_payment_method: paymentMethodId,
-        },
-      });
+        // Set as default payment method
+        await this.stripe.customers.update(customer.id, {
+          invoice_settings: {
+            default_payment_method: paymentMethodId,
+          },
+        });
+      }
 
       // Create subscription
       const subscription = await this.stripe.subscriptions.create({
@@ -186,11 +360,14 @@ export class StripeService {
         metadata: {
           userId,
           keitaroSubId: keitaroSubId || '',
+          promoCode: promo?.promoCode.code || '',
         },
+        ...(trial && this.trialParams(trial)),
+        ...(promo && { promotion_code: promo.promoCode.stripePromotionCodeId }),
       });
 
       // Update user subscription status
-      await this.updateUserSubscription(userId, subscription);
+      await this.updateUserSubscription(userId, subscription, auditContext);
 
       logger.info('Subscription created', { subscriptionId: subscription.id, userId });
       return subscription;
@@ -218,232 +395,1607 @@ export class StripeService {
   }
 
   /**
-   * Update user subscription status in database
+   * Get a subscription
+   */
+  async getSubscription(subscriptionId: string): Promise<Stripe.Subscription> {
+    return this.stripe.subscriptions.retrieve(subscriptionId);
+  }
+
+  /**
+   * List subscriptions (iterate with for await to page through all of them)
+   */
+  listSubscriptions(params: Stripe.SubscriptionListParams): Stripe.ApiListPromise<Stripe.Subscription> {
+    return this.stripe.subscriptions.list(params);
+  }
+
+  /**
+   * List invoices (iterate with for await to page through all of them)
+   */
+  listInvoices(params: Stripe.InvoiceListParams): Stripe.ApiListPromise<Stripe.Invoice> {
+    return this.stripe.invoices.list(params);
+  }
+
+  /**
+   * List charges (iterate with for await to page through all of them)
+   */
+  listCharges(params: Stripe.ChargeListParams): Stripe.ApiListPromise<Stripe.Charge> {
+    return this.stripe.charges.list(params);
+  }
+
+  /**
+   * List disputes (iterate with for await to page through all of them)
    */
-  async updateUserSubscription(userId: string, subscription: Stripe.Subscription): Promise<void> {
-    const plan = subscription.items.data[0]?.price.id === config.stripe.prices.annual ? 'annual' : 'monthly';
-    const endDate = new Date(subscription.current_period_end * 1000);
+  listDisputes(params: Stripe.DisputeListParams): Stripe.ApiListPromise<Stripe.Dispute> {
+    return this.stripe.disputes.list(params);
+  }
 
-    await prisma.user.update({
+  /**
+   * Load the Stripe subscription of a user
+   */
+  private async getUserSubscription(userId: string): Promise<Stripe.Subscription> {
+    const user = await prisma.user.findUnique({
       where: { id: userId },
-      data: {
-        subscriptionId: subscription.id,
-        subscriptionStatus: subscription.status,
-        subscriptionPlan: plan,
-        subscriptionEndDate: endDate,
-      },
+      select: { subscriptionId: true },
     });
+
+    if (!user?.subscriptionId) {
+      throw new Error('No active subscription found');
+    }
+
+    return this.stripe.subscriptions.retrieve(user.subscriptionId);
   }
 
   /**
-   * Handle webhook events from Stripe
+   * Undo a cancellation scheduled for the end of the period
    */
-  async handleWebhook(signature: string, payload: string): Promise<void> {
-    let event: Stripe.Event;
+  async reactivateSubscription(
+    userId: string,
+    auditContext: AuditContext = SYSTEM_AUDIT_CONTEXT
+  ): Promise<Stripe.Subscription> {
+    const subscription = await this.getUserSubscription(userId);
+
+    if (subscription.status === 'canceled') {
+      throw new Error('Subscription has already ended');
+    }
+
+    if (!subscription.cancel_at_period_end) {
+      throw new Error('Subscription is not scheduled for cancellation');
+    }
 
     try {
-      event = this.stripe.webhooks.constructEvent(
-        payload,
-        signature,
-        config.stripe.webhookSecret
-      );
+      const updated = await this.stripe.subscriptions.update(subscription.id, {
+        cancel_at_period_end: false,
+      });
+
+      await this.updateUserSubscription(userId, updated, auditContext);
+
+      logger.info('Subscription reactivated', { subscriptionId: subscription.id, userId });
+      return updated;
     } catch (error) {
-      logger.error('Webhook signature verification failed', error);
-      throw new Error('Invalid webhook signature');
+      logger.error('Failed to reactivate subscription', error);
+      throw error;
     }
+  }
 
-    // Log the event
-    logStripeEvent(event);
+  /**
+   * Pause payment collection for a number of billing cycles.
+   * The pause starts when the paid period ends; invoices during the pause are voided.
+   */
+  async pauseSubscription(
+    userId: string,
+    cycles: number,
+    auditContext: AuditContext = SYSTEM_AUDIT_CONTEXT
+  ): Promise<Stripe.Subscription> {
+    const maxCycles = config.stripe.maxPauseCycles;
+    if (!Number.isInteger(cycles) || cycles < 1 || cycles > maxCycles) {
+      throw new Error(`Pause must be between 1 and ${maxCycles} billing cycles`);
+    }
 
-    // Check if we've already processed this event
-    const existingEvent = await prisma.webhookEvent.findUnique({
-      where: { eventId: event.id },
-    });
+    const subscription = await this.getUserSubscription(userId);
+    const recurring = subscription.items.data[0]?.price.recurring;
 
-    if (existingEvent) {
-      logger.info('Webhook event already processed', { eventId: event.id });
-      return;
+    if (subscription.status !== 'active' || subscription.cancel_at_period_end || !recurring) {
+      throw new Error('Only active subscriptions can be paused');
     }
 
-    // Store the event
-    await prisma.webhookEvent.create({
-      data: {
-        source: 'stripe',
-        eventId: event.id,
-        eventType: event.type,
-        payload: event as any,
-      },
-    });
+    if (subscription.pause_collection) {
+      throw new Error('Subscription is already paused');
+    }
 
-    try {
-      // Handle different event types
-      switch (event.type) {
-        case 'checkout.session.completed':
-          await this.handleCheckoutSessionCompleted(event.data.object as Stripe.Checkout.Session);
-          break;
-
-        case 'customer.subscription.created':
-        case 'customer.subscription.updated':
-          await this.handleSubscriptionUpdate(event.data.object as Stripe.Subscription);
-          break;
-
-        case 'customer.subscription.deleted':
-          await this.handleSubscriptionDeleted(event.data.object as Stripe.Subscription);
-          break;
-
-        case 'invoice.payment_succeeded':
-          await this.handleInvoicePaymentSucceeded(event.data.object as Stripe.Invoice);
-          break;
-
-        case 'invoice.payment_failed':
-          await this.handleInvoicePaymentFailed(event.data.object as Stripe.Invoice);
-          break;
-
-        default:
-          logger.info('Unhandled webhook event type', { type: event.type });
-      }
+    if (subscription.schedule) {
+      throw new Error('Cancel the scheduled plan change before pausing');
+    }
 
-      // Mark event as processed
-      await prisma.webhookEvent.update({
-        where: { eventId: event.id },
-        data: {
-          processed: true,
-          processedAt: new Date(),
+    const resumesAt = this.addIntervals(
+      new Date(subscription.current_period_end * 1000),
+      recurring.interval,
+      recurring.interval_count * cycles
+    );
+
+    try {
+      const updated = await this.stripe.subscriptions.update(subscription.id, {
+        pause_collection: {
+          behavior: 'void',
+          resumes_at: Math.floor(resumesAt.getTime() / 1000),
         },
+        metadata: { pauseStartsAt: String(subscription.current_period_end) },
       });
+
+      await this.updateUserSubscription(userId, updated, auditContext);
+
+      logger.info('Subscription paused', { subscriptionId: subscription.id, userId, cycles, resumesAt });
+      return updated;
     } catch (error) {
-      // Mark event as failed
-      await prisma.webhookEvent.update({
-        where: { eventId: event.id },
-        data: {
-          processed: true,
-          processedAt: new Date(),
-          error: (error as Error).message,
-        },
-      });
+      logger.error('Failed to pause subscription', error);
       throw error;
     }
   }
 
   /**
-   * Handle checkout session completed
+   * Resume a paused subscription before its pause ends.
+   * If the pause has started, billing restarts now with a new period.
    */
-  private async handleCheckoutSessionCompleted(session: Stripe.Checkout.Session): Promise<void> {
-    const userId = session.metadata?.userId;
-    if (!userId) {
-      logger.error('No userId in checkout session metadata');
-      return;
-    }
+  async resumeSubscription(
+    userId: string,
+    auditContext: AuditContext = SYSTEM_AUDIT_CONTEXT
+  ): Promise<Stripe.Subscription> {
+    const subscription = await this.getUserSubscription(userId);
 
-    // Retrieve the subscription
-    const subscription = await this.stripe.subscriptions.retrieve(session.subscription as string);
-    await this.updateUserSubscription(userId, subscription);
+    if (!subscription.pause_collection) {
+      throw new Error('Subscription is not paused');
+    }
 
-    // Record payment
-    if (session.payment_intent) {
-      await prisma.payment.create({
-        data: {
-          userId,
-          stripePaymentId: session.payment_intent as string,
-          amount: session.amount_total || 0,
-          currency: session.currency || 'usd',
-          status: 'succeeded',
-          paymentMethod: 'card', // Will be updated when we get more info
-          keitaroSubId: session.metadata?.keitaroSubId || null,
-        },
+    try {
+      const updated = await this.stripe.subscriptions.update(subscription.id, {
+        pause_collection: '',
+        metadata: { pauseStartsAt: '' },
+        ...(this.isPauseInEffect(subscription) && {
+          billing_cycle_anchor: 'now' as const,
+          proration_behavior: 'none' as const,
+        }),
       });
+
+      await this.updateUserSubscription(userId, updated, auditContext);
+
+      logger.info('Subscription resumed', { subscriptionId: subscription.id, userId });
+      return updated;
+    } catch (error) {
+      logger.error('Failed to resume subscription', error);
+      throw error;
     }
   }
 
   /**
-   * Handle subscription update
+   * Get a Stripe coupon
    */
-  private async handleSubscriptionUpdate(subscription: Stripe.Subscription): Promise<void> {
-    const userId = subscription.metadata?.userId;
-    if (!userId) {
-      logger.error('No userId in subscription metadata');
-      return;
-    }
+  async getCoupon(couponId: string): Promise<Stripe.Coupon> {
+    return this.stripe.coupons.retrieve(couponId);
+  }
 
-    await this.updateUserSubscription(userId, subscription);
+  /**
+   * Apply a coupon to a user's subscription (replaces its current discount)
+   */
+  async applySubscriptionCoupon(
+    userId: string,
+    couponId: string,
+    auditContext: AuditContext = SYSTEM_AUDIT_CONTEXT
+  ): Promise<Stripe.Subscription> {
+    const subscription = await this.getUserSubscription(userId);
+
+    try {
+      const updated = await this.stripe.subscriptions.update(subscription.id, {
+        coupon: couponId,
+      });
+
+      await this.updateUserSubscription(userId, updated, auditContext);
+
+      logger.info('Coupon applied to subscription', { subscriptionId: subscription.id, userId, couponId });
+      return updated;
+    } catch (error) {
+      logger.error('Failed to apply coupon to subscription', error);
+      throw error;
+    }
   }
 
   /**
-   * Handle subscription deleted
+   * Check if a subscription's pause has started. Pauses made here start at the end of the
+   * paid period (pauseStartsAt metadata); pauses from the customer portal start right away.
    */
-  private async handleSubscriptionDeleted(subscription: Stripe.Subscription): Promise<void> {
-    const userId = subscription.metadata?.userId;
-    if (!userId) {
-      logger.error('No userId in subscription metadata');
-      return;
+  private isPauseInEffect(subscription: Stripe.Subscription): boolean {
+    if (!subscription.pause_collection) {
+      return false;
     }
 
-    await prisma.user.update({
-      where: { id: userId },
-      data: {
-        subscriptionStatus: 'canceled',
-        subscriptionEndDate: new Date(subscription.current_period_end * 1000),
-      },
-    });
+    const startsAt = Number(subscription.metadata?.pauseStartsAt || 0);
+    return subscription.current_period_start >= startsAt;
   }
 
   /**
-   * Handle invoice payment succeeded
+   * Add billing intervals to a date (UTC)
    */
-  private async handleInvoicePaymentSucceeded(invoice: Stripe.Invoice): Promise<void> {
-    if (!invoice.subscription || !invoice.payment_intent) {
-      return;
-    }
+  private addIntervals(date: Date, interval: Stripe.Price.Recurring.Interval, count: number): Date {
+    const result = new Date(date);
 
-    const subscription = await this.stripe.subscriptions.retrieve(invoice.subscription as string);
-    const userId = subscription.metadata?.userId;
-    
-    if (!userId) {
-      return;
+    switch (interval) {
+      case 'day':
+        result.setUTCDate(result.getUTCDate() + count);
+        break;
+      case 'week':
+        result.setUTCDate(result.getUTCDate() + count * 7);
+        break;
+      case 'month':
+        result.setUTCMonth(result.getUTCMonth() + count);
+        break;
+      case 'year':
+        result.setUTCFullYear(result.getUTCFullYear() + count);
+        break;
     }
 
-    // Record payment
-    await prisma.payment.create({
-      data: {
-        userId,
-        stripePaymentId: invoice.payment_intent as string,
-        amount: invoice.amount_paid,
-        currency: invoice.currency,
-        status: 'succeeded',
-        paymentMethod: 'card',
-        keitaroSubId: subscription.metadata?.keitaroSubId || null,
-      },
-    });
+    return result;
   }
 
   /**
-   * Handle invoice payment failed
+   * Load the subscription to change and check the new price against it
    */
-  private async handleInvoicePaymentFailed(invoice: Stripe.Invoice): Promise<void> {
-    if (!invoice.subscription) {
-      return;
+  private async getPlanChangeContext(userId: string, priceId: string): Promise<{
+    subscription: Stripe.Subscription;
+    item: Stripe.SubscriptionItem;
+    fromPlan: string | null;
+  }> {
+    const user = await prisma.user.findUnique({
+      where: { id: userId },
+      select: { subscriptionId: true, subscriptionPlan: true },
+    });
+
+    if (!user?.subscriptionId) {
+      throw new Error('No active subscription found');
     }
 
-    const subscription = await this.stripe.subscriptions.retrieve(invoice.subscription as string);
-    const userId = subscription.metadata?.userId;
-    
-    if (!userId) {
-      return;
+    const plan = planCatalog.getPlanByPriceId(priceId);
+    if (!plan || plan.hidden) {
+      throw new Error('Unknown plan');
     }
 
-    // Update subscription status
-    await prisma.user.update({
-      where: { id: userId },
-      data: {
-        subscriptionStatus: 'past_due',
-      },
-    });
+    if (plan.interval === 'lifetime') {
+      throw new Error('Lifetime plans must be purchased through checkout');
+    }
+
+    const subscription = await this.stripe.subscriptions.retrieve(user.subscriptionId);
+    const item = subscription.items.data[0];
+
+    if (!['active', 'trialing'].includes(subscription.status) || subscription.cancel_at_period_end) {
+      throw new Error('No active subscription found');
+    }
+
+    if (subscription.pause_collection) {
+      throw new Error('Resume the subscription before changing plans');
+    }
+
+    if (item.price.id === priceId) {
+      throw new Error('Already on this plan');
+    }
+
+    // Stripe can't mix currencies on a subscription
+    if (planCatalog.getPrice(priceId)!.currency.toLowerCase() !== item.price.currency) {
+      throw new Error('The new plan must be in the same currency');
+    }
+
+    return { subscription, item, fromPlan: user.subscriptionPlan };
   }
 
   /**
-   * Get customer portal session
+   * Preview a plan change with Stripe's upcoming invoice
    */
-  async createPortalSession(userId: string, returnUrl: string): Promise<Stripe.BillingPortal.Session> {
+  async previewPlanChange(
+    userId: string,
+    priceId: string,
+    timing: PlanChangeTiming = 'immediate'
+  ): Promise<PlanChangePreview> {
+    const { subscription, item, fromPlan } = await this.getPlanChangeContext(userId, priceId);
+    const prorationDate = Math.floor(Date.now() / 1000);
+
+    const invoice = await this.stripe.invoices.retrieveUpcoming({
+      customer: subscription.customer as string,
+      subscription: subscription.id,
+      subscription_items: [{ id: item.id, price: priceId }],
+      ...(timing === 'immediate'
+        ? { subscription_proration_behavior: 'create_prorations' as const, subscription_proration_date: prorationDate }
+        : { subscription_proration_behavior: 'none' as const }),
+    });
+
+    // Proration lines are what an immediate change invoices right away
+    const immediateAmount = invoice.lines.data
+      .filter(line => line.proration)
+      .reduce((sum, line) => sum + line.amount, 0);
+
+    return {
+      timing,
+      fromPlan,
+      toPlan: planCatalog.getPlanByPriceId(priceId)?.key || null,
+      currency: invoice.currency,
+      immediateAmount,
+      renewalAmount: invoice.lines.data
+        .filter(line => !line.proration)
+        .reduce((sum, line) => sum + line.amount, 0),
+      renewalAt: new Date((invoice.next_payment_attempt || subscription.current_period_end) * 1000),
+      ...(timing === 'immediate' && { prorationDate }),
+      lines: invoice.lines.data.map(line => ({
+        description: line.description,
+        amount: line.amount,
+        proration: line.proration,
+      })),
+    };
+  }
+
+  /**
+   * Change the plan of a subscription. Immediate changes are prorated and invoiced right away
+   * (the change fails if that payment fails); end-of-period changes use a subscription schedule.
+   * A change that is already scheduled is replaced.
+   */
+  async changePlan(
+    userId: string,
+    priceId: string,
+    options: { timing?: PlanChangeTiming; prorationDate?: number; auditContext?: AuditContext } = {}
+  ): Promise<Stripe.Subscription> {
+    const timing = options.timing || 'immediate';
+    const auditContext = options.auditContext || SYSTEM_AUDIT_CONTEXT;
+    const { subscription, item, fromPlan } = await this.getPlanChangeContext(userId, priceId);
+    const toPlan = planCatalog.getPlanByPriceId(priceId)?.key || null;
+
+    try {
+      if (subscription.schedule) {
+        const scheduleId = typeof subscription.schedule === 'string' ? subscription.schedule : subscription.schedule.id;
+        await this.stripe.subscriptionSchedules.release(scheduleId);
+      }
+
+      let result: Stripe.Subscription;
+
+      if (timing === 'immediate') {
+        result = await this.stripe.subscriptions.update(subscription.id, {
+          items: [{ id: item.id, price: priceId }],
+          proration_behavior: 'always_invoice',
+          proration_date: options.prorationDate,
+          payment_behavior: 'error_if_incomplete',
+        });
+
+        await this.updateUserSubscription(userId, result, auditContext);
+      } else {
+        const schedule = await this.stripe.subscriptionSchedules.create({
+          from_subscription: subscription.id,
+        });
+        const phase = schedule.phases[0];
+        const coupon = typeof phase.coupon === 'string' ? phase.coupon : phase.coupon?.id;
+
+        // Current plan until the end of the period, then the new plan; released after that
+        await this.stripe.subscriptionSchedules.update(schedule.id, {
+          end_behavior: 'release',
+          phases: [
+            {
+              items: [{ price: item.price.id, quantity: item.quantity }],
+              start_date: phase.start_date,
+              end_date: phase.end_date,
+              trial_end: phase.trial_end || undefined,
+              coupon,
+            },
+            {
+              items: [{ price: priceId, quantity: item.quantity }],
+              iterations: 1,
+            },
+          ],
+        });
+
+        await this.applySubscriptionChange(userId, {
+          subscriptionScheduleId: schedule.id,
+          scheduledPriceId: priceId,
+          scheduledChangeAt: new Date(phase.end_date * 1000),
+        }, auditContext, { stripeSubscriptionId: subscription.id, stripeScheduleId: schedule.id });
+
+        result = await this.stripe.subscriptions.retrieve(subscription.id);
+      }
+
+      await AuditService.record(auditContext, {
+        action: AuditAction.SUBSCRIPTION_PLAN_CHANGE,
+        targetType: 'user',
+        targetId: userId,
+        metadata: { stripeSubscriptionId: subscription.id, fromPlan, toPlan, timing },
+      });
+
+      logger.info('Subscription plan changed', { subscriptionId: subscription.id, userId, fromPlan, toPlan, timing });
+      return result;
+    } catch (error) {
+      logger.error('Failed to change subscription plan', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Cancel a plan change scheduled for the end of the period
+   */
+  async cancelScheduledPlanChange(
+    userId: string,
+    auditContext: AuditContext = SYSTEM_AUDIT_CONTEXT
+  ): Promise<void> {
+    const user = await prisma.user.findUnique({
+      where: { id: userId },
+      select: { subscriptionScheduleId: true, scheduledPriceId: true },
+    });
+
+    if (!user?.subscriptionScheduleId || !user.scheduledPriceId) {
+      throw new Error('No plan change scheduled');
+    }
+
+    await this.stripe.subscriptionSchedules.release(user.subscriptionScheduleId);
+
+    await this.applySubscriptionChange(userId, {
+      subscriptionScheduleId: null,
+      scheduledPriceId: null,
+      scheduledChangeAt: null,
+    }, auditContext, { stripeScheduleId: user.subscriptionScheduleId });
+
+    logger.info('Scheduled plan change canceled', { userId, scheduleId: user.subscriptionScheduleId });
+  }
+
+  /**
+   * Refund a payment in full or in part (amount in cents, defaults to what's left to refund)
+   */
+  async refundPayment(
+    paymentId: string,
+    options: { amount?: number; reason?: Stripe.RefundCreateParams.Reason } = {},
+    auditContext: AuditContext = SYSTEM_AUDIT_CONTEXT
+  ): Promise<Stripe.Refund> {
+    const payment = await prisma.payment.findUnique({
+      where: { id: paymentId },
+    });
+
+    if (!payment) {
+      throw new Error('Payment not found');
+    }
+
+    if (payment.status === 'disputed' || payment.status === 'chargeback') {
+      throw new Error('Disputed payments cannot be refunded');
+    }
+
+    const refundable = payment.amount - payment.refundedAmount;
+    const amount = options.amount ?? refundable;
+    if (amount <= 0 || amount > refundable) {
+      throw new Error(`Refund amount must be between 1 and ${refundable}`);
+    }
+
+    try {
+      const refund = await this.stripe.refunds.create({
+        payment_intent: payment.stripePaymentId,
+        amount,
+        reason: options.reason,
+        metadata: { paymentId },
+      });
+
+      await this.applyRefund(payment, payment.refundedAmount + refund.amount, auditContext, {
+        stripeRefundId: refund.id,
+        reason: options.reason,
+      });
+
+      logger.info('Payment refunded', { paymentId, refundId: refund.id, amount });
+      return refund;
+    } catch (error) {
+      logger.error('Failed to refund payment', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Record the total refunded amount of a payment and report the difference to Keitaro.
+   * The update is conditional on the previous amount, so a refund made through the API
+   * and its charge.refunded webhook are only applied (and reported) once.
+   */
+  private async applyRefund(
+    payment: Payment,
+    refundedAmount: number,
+    auditContext: AuditContext,
+    metadata?: any
+  ): Promise<void> {
+    const difference = refundedAmount - payment.refundedAmount;
+    if (difference <= 0) {
+      return;
+    }
+
+    const fullRefund = refundedAmount >= payment.amount;
+    const status = payment.status === 'disputed' || payment.status === 'chargeback'
+      ? payment.status
+      : fullRefund ? 'refunded' : 'partially_refunded';
+
+    const result = await prisma.payment.updateMany({
+      where: { id: payment.id, refundedAmount: payment.refundedAmount },
+      data: { refundedAmount, status },
+    });
+
+    if (result.count === 0) {
+      return;
+    }
+
+    await AuditService.record(auditContext, {
+      action: AuditAction.PAYMENT_REFUND,
+      targetType: 'payment',
+      targetId: payment.id,
+      changes: AuditService.diff(payment, { ...payment, refundedAmount, status }, ['refundedAmount', 'status']),
+      metadata: { ...metadata, userId: payment.userId, stripePaymentId: payment.stripePaymentId },
+    });
+
+    await keitaroService.trackRefund(payment.userId, difference, payment.currency, {
+      fullRefund,
+      clickId: payment.keitaroSubId || undefined,
+      metadata: { paymentId: payment.id },
+    });
+
+    if (fullRefund) {
+      await this.revokePurchase(payment, auditContext);
+    }
+  }
+
+  /**
+   * Take back what a fully refunded or charged back payment bought: a product order,
+   * or a lifetime plan bought through plan checkout
+   */
+  private async revokePurchase(payment: Payment, auditContext: AuditContext): Promise<void> {
+    await orderService.revokeOrder(payment.id, auditContext);
+
+    // Plan checkout puts the plan key in the payment intent metadata
+    const paymentIntent = await this.stripe.paymentIntents.retrieve(payment.stripePaymentId);
+    const planKey = paymentIntent.metadata?.planKey;
+    const plan = planKey ? planCatalog.getPlan(planKey) : undefined;
+
+    if (plan?.interval === 'lifetime') {
+      await this.revokeLifetimePlan(payment.userId, plan.key, auditContext, { paymentId: payment.id });
+    }
+  }
+
+  /**
+   * User subscription fields for a Stripe subscription
+   */
+  getSubscriptionState(subscription: Stripe.Subscription): {
+    subscriptionId: string;
+    subscriptionStatus: string;
+    subscriptionPlan: string | null;
+    subscriptionPriceId: string | null;
+    subscriptionEndDate: Date;
+    cancelAtPeriodEnd: boolean;
+    pausedUntil: Date | null;
+  } {
+    const priceId = subscription.items.data[0]?.price.id;
+    const plan = priceId ? planCatalog.getPlanByPriceId(priceId) : undefined;
+    const resumesAt = subscription.pause_collection?.resumes_at;
+
+    // Stripe keeps paused subscriptions active; they're paused here once the paid period is over
+    const paused = subscription.status === 'active' && this.isPauseInEffect(subscription);
+
+    return {
+      subscriptionId: subscription.id,
+      subscriptionStatus: paused ? 'paused' : subscription.status,
+      subscriptionPlan: plan?.key || null,
+      subscriptionPriceId: priceId || null,
+      subscriptionEndDate: new Date(subscription.current_period_end * 1000),
+      cancelAtPeriodEnd: subscription.cancel_at_period_end,
+      pausedUntil: resumesAt ? new Date(resumesAt * 1000) : null,
+    };
+  }
+
+  /**
+   * Update user subscription status in database. With eventAt (the Stripe event time),
+   * the update is skipped if newer subscription state was already written.
+   */
+  async updateUserSubscription(
+    userId: string,
+    subscription: Stripe.Subscription,
+    auditContext: AuditContext = SYSTEM_AUDIT_CONTEXT,
+    eventAt?: Date,
+    current: boolean = false
+  ): Promise<void> {
+    const state = this.getSubscriptionState(subscription);
+    const priceId = state.subscriptionPriceId;
+    const plan = state.subscriptionPlan ? planCatalog.getPlan(state.subscriptionPlan) : undefined;
+    const endDate = state.subscriptionEndDate;
+    const paused = state.subscriptionStatus === 'paused';
+    const resumesAt = subscription.pause_collection?.resumes_at;
+
+    if (!plan) {
+      logger.error('Subscription price is not in the plan catalog', {
+        subscriptionId: subscription.id,
+        priceId,
+      });
+    }
+
+    const { before, applied, tie } = await this.applySubscriptionChange(userId, {
+      ...state,
+      // Released schedules (finished, or canceled in the portal) leave nothing scheduled
+      ...(!subscription.schedule && {
+        subscriptionScheduleId: null,
+        scheduledPriceId: null,
+        scheduledChangeAt: null,
+      }),
+    }, auditContext, { stripeSubscriptionId: subscription.id }, eventAt, current);
+
+    if (tie && !current) {
+      await this.syncSubscriptionTie(userId, subscription.id, eventAt!);
+      return;
+    }
+
+    if (!applied) {
+      return;
+    }
+
+    // A scheduled plan change took effect
+    if (before?.scheduledPriceId && before.scheduledPriceId === priceId) {
+      await prisma.user.update({
+        where: { id: userId },
+        data: { scheduledPriceId: null, scheduledChangeAt: null },
+      });
+    }
+
+    // Moved to a plan that costs more per billing cycle (here, or in the customer portal)
+    if (before?.subscriptionPriceId && priceId && before.subscriptionPriceId !== priceId) {
+      const previousPrice = planCatalog.getPrice(before.subscriptionPriceId);
+      const item = subscription.items.data[0];
+      const amount = (item?.price.unit_amount || 0) * (item?.quantity || 1);
+
+      if (previousPrice && previousPrice.currency.toLowerCase() === item?.price.currency && amount > previousPrice.amount) {
+        await keitaroService.trackUpsell(userId, amount - previousPrice.amount, item.price.currency, {
+          stripeSubscriptionId: subscription.id,
+          fromPlan: before.subscriptionPlan,
+          toPlan: plan?.key,
+        });
+      }
+    }
+
+    // Cancellation and pause transitions (from this API, the customer portal or the dashboard)
+    if (before) {
+      const metadata = { stripeSubscriptionId: subscription.id, plan: plan?.key };
+      const wasPaused = !!before.pausedUntil || before.subscriptionStatus === 'paused';
+      const isPaused = !!subscription.pause_collection && (!!resumesAt || paused);
+
+      if (!before.cancelAtPeriodEnd && subscription.cancel_at_period_end) {
+        await keitaroService.trackSubscriptionEvent(userId, TrackingEventType.SUBSCRIPTION_CANCEL, {
+          ...metadata,
+          endDate,
+        });
+      } else if (before.cancelAtPeriodEnd && !subscription.cancel_at_period_end && subscription.status !== 'canceled') {
+        await keitaroService.trackSubscriptionEvent(userId, TrackingEventType.SUBSCRIPTION_REACTIVATE, metadata);
+      }
+
+      if (!wasPaused && isPaused) {
+        await keitaroService.trackSubscriptionEvent(userId, TrackingEventType.SUBSCRIPTION_PAUSE, {
+          ...metadata,
+          pausedUntil: resumesAt ? new Date(resumesAt * 1000) : null,
+        });
+      } else if (wasPaused && !isPaused) {
+        await keitaroService.trackSubscriptionEvent(userId, TrackingEventType.SUBSCRIPTION_RESUME, metadata);
+      }
+    }
+
+    // First successful payment after a free trial
+    if (before?.subscriptionStatus === 'trialing' && subscription.status === 'active') {
+      const item = subscription.items.data[0];
+      await keitaroService.trackTrialConversion(
+        userId,
+        (item?.price.unit_amount || 0) * (item?.quantity || 1),
+        item?.price.currency,
+        { stripeSubscriptionId: subscription.id, plan: plan?.key }
+      );
+
+      logger.info('Trial converted', { subscriptionId: subscription.id, userId });
+    }
+  }
+
+  /**
+   * Another event of the same second was already applied. Event times are in whole
+   * seconds and don't tell which of the two is newer, so apply the subscription as
+   * Stripe has it now.
+   */
+  private async syncSubscriptionTie(userId: string, subscriptionId: string, eventAt: Date): Promise<void> {
+    logger.info('Subscription events in the same second, fetching the subscription', { userId, subscriptionId });
+
+    const subscription = await this.stripe.subscriptions.retrieve(subscriptionId);
+    await this.updateUserSubscription(userId, subscription, SYSTEM_AUDIT_CONTEXT, eventAt, true);
+  }
+
+  /**
+   * Write subscription fields of a user and record the change in the audit log.
+   * Returns the user as it was before the change.
+   *
+   * Stripe delivers events out of order and in parallel. With eventAt (the Stripe event
+   * time), the write is conditional: it's skipped (applied: false) unless the event is
+   * newer than the last one written, or if it would bring a canceled subscription back,
+   * or if it would cancel a subscription the user has since replaced. An event from the
+   * same second as the last one is skipped with tie: true. With current, the data was just
+   * fetched from Stripe and is written on a tie.
+   */
+  private async applySubscriptionChange(
+    userId: string,
+    data: {
+      subscriptionId?: string | null;
+      subscriptionStatus?: string;
+      subscriptionPlan?: string | null;
+      subscriptionPriceId?: string | null;
+      subscriptionEndDate?: Date | null;
+      cancelAtPeriodEnd?: boolean;
+      pausedUntil?: Date | null;
+      subscriptionScheduleId?: string | null;
+      scheduledPriceId?: string | null;
+      scheduledChangeAt?: Date | null;
+    },
+    auditContext: AuditContext,
+    metadata?: any,
+    eventAt?: Date,
+    current: boolean = false
+  ): Promise<{ before: User | null; applied: boolean; tie: boolean }> {
+    const fields = [
+      'subscriptionId',
+      'subscriptionStatus',
+      'subscriptionPlan',
+      'subscriptionPriceId',
+      'subscriptionEndDate',
+      'cancelAtPeriodEnd',
+      'pausedUntil',
+      'scheduledPriceId',
+      'scheduledChangeAt',
+    ];
+    const before = await prisma.user.findUnique({
+      where: { id: userId },
+    });
+
+    // The past_due grace period starts at the first failed payment, not at each retry
+    const pastDueSince = data.subscriptionStatus === undefined
+      ? undefined
+      : data.subscriptionStatus === 'past_due' ? before?.pastDueSince || new Date() : null;
+
+    // Only one free trial per user
+    const trialUsedAt = data.subscriptionStatus === 'trialing' && !before?.trialUsedAt ? new Date() : undefined;
+
+    // Only Stripe event times are saved. State from API calls is current, so it's always
+    // written; the event Stripe sends for the change records its time.
+    const subscriptionSyncedAt = data.subscriptionStatus === undefined ? undefined : eventAt;
+    const update = { ...data, pastDueSince, trialUsedAt, subscriptionSyncedAt };
+
+    if (eventAt) {
+      const result = await prisma.user.updateMany({
+        where: { id: userId, AND: this.eventGuard(data, eventAt, current) },
+        data: update,
+      });
+
+      if (result.count === 0) {
+        const saved = await prisma.user.findUnique({
+          where: { id: userId },
+          select: { subscriptionSyncedAt: true },
+        });
+        const tie = saved?.subscriptionSyncedAt?.getTime() === eventAt.getTime();
+
+        logger.info('Ignoring stale subscription event', { userId, eventAt, tie, ...metadata });
+        return { before, applied: false, tie };
+      }
+    }
+
+    const after = eventAt
+      ? await prisma.user.findUnique({ where: { id: userId } })
+      : await prisma.user.update({ where: { id: userId }, data: update });
+
+    const changes = AuditService.diff(before, after, fields);
+    if (changes) {
+      await AuditService.record(auditContext, {
+        action: AuditAction.SUBSCRIPTION_UPDATE,
+        targetType: 'user',
+        targetId: userId,
+        changes,
+        metadata,
+      });
+    }
+
+    return { before, applied: true, tie: false };
+  }
+
+  /**
+   * Conditions under which subscription state from a webhook event can be written
+   * (current: fetched from Stripe, so it can also be written on a tie)
+   */
+  private eventGuard(
+    data: { subscriptionId?: string | null; subscriptionStatus?: string },
+    eventAt: Date,
+    current: boolean
+  ): Prisma.UserWhereInput[] {
+    const conditions: Prisma.UserWhereInput[] = [
+      { OR: [{ subscriptionSyncedAt: null }, { subscriptionSyncedAt: current ? { lte: eventAt } : { lt: eventAt } }] },
+    ];
+
+    if (!data.subscriptionId) {
+      return conditions;
+    }
+
+    if (data.subscriptionStatus && TERMINAL_SUBSCRIPTION_STATUSES.includes(data.subscriptionStatus)) {
+      // Ending an old subscription doesn't end the one that replaced it
+      conditions.push({ OR: [{ subscriptionId: null }, { subscriptionId: data.subscriptionId }] });
+    } else {
+      // Canceled subscriptions stay canceled
+      conditions.push({
+        NOT: { subscriptionId: data.subscriptionId, subscriptionStatus: { in: TERMINAL_SUBSCRIPTION_STATUSES } },
+      });
+    }
+
+    return conditions;
+  }
+
+  /**
+   * Verify a webhook from Stripe and store the event for processing.
+   * Events are processed by the webhook queue, so a failing handler is retried
+   * instead of failing the delivery. Redeliveries of a stored event are ignored.
+   */
+  async handleWebhook(signature: string, payload: string): Promise<void> {
+    let event: Stripe.Event;
+
+    try {
+      event = this.stripe.webhooks.constructEvent(
+        payload,
+        signature,
+        config.stripe.webhookSecret
+      );
+    } catch (error) {
+      logger.error('Webhook signature verification failed', error);
+      throw new Error('Invalid webhook signature');
+    }
+
+    // Log the event
+    logStripeEvent(event);
+
+    try {
+      await prisma.webhookEvent.create({
+        data: {
+          source: 'stripe',
+          eventId: event.id,
+          eventType: event.type,
+          payload: event as any,
+        },
+      });
+    } catch (error: any) {
+      // Already stored: the queue processes (or retries) it
+      if (error.code === 'P2002') {
+        logger.info('Webhook event already received', { eventId: event.id });
+        return;
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Process a stored Stripe event (called by the webhook queue).
+   * Handlers can run more than once for an event (retries and replays).
+   */
+  async processWebhookEvent(event: Stripe.Event): Promise<void> {
+    switch (event.type) {
+      case 'checkout.session.completed':
+        await this.handleCheckoutSessionCompleted(event.data.object as Stripe.Checkout.Session);
+        break;
+
+      case 'customer.subscription.created':
+      case 'customer.subscription.updated':
+        await this.handleSubscriptionUpdate(event.data.object as Stripe.Subscription, new Date(event.created * 1000));
+        break;
+
+      case 'customer.subscription.trial_will_end':
+        await this.handleTrialWillEnd(event.data.object as Stripe.Subscription);
+        break;
+
+      case 'customer.subscription.deleted':
+        await this.handleSubscriptionDeleted(event.data.object as Stripe.Subscription, new Date(event.created * 1000));
+        break;
+
+      case 'invoice.payment_succeeded':
+        await this.handleInvoicePaymentSucceeded(event.data.object as Stripe.Invoice);
+        break;
+
+      case 'invoice.payment_failed':
+        await this.handleInvoicePaymentFailed(event.data.object as Stripe.Invoice);
+        break;
+
+      case 'invoice.marked_uncollectible':
+      case 'invoice.voided':
+        await dunningService.recordLoss({ invoiceId: (event.data.object as Stripe.Invoice).id });
+        break;
+
+      case 'charge.refunded':
+        await this.handleChargeRefunded(event.data.object as Stripe.Charge);
+        break;
+
+      case 'charge.dispute.created':
+        await this.handleDisputeCreated(event.data.object as Stripe.Dispute);
+        break;
+
+      case 'charge.dispute.closed':
+        await this.handleDisputeClosed(event.data.object as Stripe.Dispute);
+        break;
+
+      case 'payment_intent.succeeded':
+        await this.handlePaymentIntentSucceeded(event.data.object as Stripe.PaymentIntent);
+        break;
+
+      case 'payment_intent.payment_failed':
+        await this.handlePaymentIntentFailed(event.data.object as Stripe.PaymentIntent);
+        break;
+
+      default:
+        logger.info('Unhandled webhook event type', { type: event.type });
+    }
+  }
+
+  /**
+   * Handle checkout session completed
+   */
+  private async handleCheckoutSessionCompleted(session: Stripe.Checkout.Session): Promise<void> {
+    const userId = session.metadata?.userId;
+    if (!userId) {
+      logger.error('No userId in checkout session metadata');
+      return;
+    }
+
+    if (session.mode === 'payment') {
+      // Lifetime plan: active with no end date
+      const plan = session.metadata?.planKey ? planCatalog.getPlan(session.metadata.planKey) : undefined;
+      if (plan?.interval === 'lifetime') {
+        await this.grantLifetimePlan(userId, plan.key, SYSTEM_AUDIT_CONTEXT, {
+          checkoutSessionId: session.id,
+          currency: session.currency,
+        });
+      }
+    } else {
+      // Retrieve the subscription
+      const subscription = await this.stripe.subscriptions.retrieve(session.subscription as string);
+      await this.updateUserSubscription(userId, subscription);
+    }
+
+    // Record payment (once, the event can be processed again)
+    if (session.payment_intent) {
+      await prisma.payment.upsert({
+        where: { stripePaymentId: session.payment_intent as string },
+        update: {},
+        create: {
+          userId,
+          stripePaymentId: session.payment_intent as string,
+          amount: session.amount_total || 0,
+          currency: session.currency || 'usd',
+          status: 'succeeded',
+          discountAmount: session.total_details?.amount_discount || 0,
+          promoCode: session.total_details?.amount_discount ? session.metadata?.promoCode || null : null,
+          paymentMethod: 'card', // Will be updated when we get more info
+          keitaroSubId: session.metadata?.keitaroSubId || null,
+        },
+      });
+    }
+  }
+
+  /**
+   * Handle a succeeded payment intent (product orders; subscription and checkout
+   * payments are recorded by their own events)
+   */
+  private async handlePaymentIntentSucceeded(paymentIntent: Stripe.PaymentIntent): Promise<void> {
+    if (!paymentIntent.metadata?.orderId) {
+      return;
+    }
+
+    await orderService.fulfillOrder(paymentIntent);
+  }
+
+  /**
+   * Handle a failed payment intent of a product order
+   */
+  private async handlePaymentIntentFailed(paymentIntent: Stripe.PaymentIntent): Promise<void> {
+    if (!paymentIntent.metadata?.orderId) {
+      return;
+    }
+
+    await orderService.failOrder(paymentIntent);
+  }
+
+  /**
+   * Give a user a lifetime plan: active with no end date
+   */
+  async grantLifetimePlan(
+    userId: string,
+    planKey: string,
+    auditContext: AuditContext = SYSTEM_AUDIT_CONTEXT,
+    metadata: { currency?: string | null; [key: string]: any } = {}
+  ): Promise<void> {
+    const plan = planCatalog.getPlan(planKey);
+    if (!plan) {
+      logger.error('Lifetime plan is not in the plan catalog', { userId, plan: planKey });
+      return;
+    }
+
+    const { currency, ...rest } = metadata;
+    await this.applySubscriptionChange(userId, {
+      subscriptionId: null,
+      subscriptionStatus: 'active',
+      subscriptionPlan: plan.key,
+      subscriptionPriceId: (currency && plan.prices.find(p => p.currency === currency)?.priceId) || null,
+      subscriptionEndDate: null,
+    }, auditContext, rest);
+  }
+
+  /**
+   * Take back a lifetime plan (refunded or charged back purchase). Users who moved to a subscription keep it.
+   */
+  async revokeLifetimePlan(
+    userId: string,
+    planKey: string,
+    auditContext: AuditContext = SYSTEM_AUDIT_CONTEXT,
+    metadata?: any
+  ): Promise<void> {
+    const user = await prisma.user.findUnique({
+      where: { id: userId },
+      select: { subscriptionId: true, subscriptionPlan: true },
+    });
+
+    if (!user || user.subscriptionId || user.subscriptionPlan !== planKey) {
+      return;
+    }
+
+    await this.applySubscriptionChange(userId, {
+      subscriptionStatus: 'canceled',
+      subscriptionEndDate: new Date(),
+    }, auditContext, metadata);
+  }
+
+  /**
+   * Handle subscription update
+   */
+  private async handleSubscriptionUpdate(subscription: Stripe.Subscription, eventAt: Date): Promise<void> {
+    const userId = subscription.metadata?.userId;
+    if (!userId) {
+      logger.error('No userId in subscription metadata');
+      return;
+    }
+
+    await this.updateUserSubscription(userId, subscription, SYSTEM_AUDIT_CONTEXT, eventAt);
+  }
+
+  /**
+   * Handle trial ending soon (sent by Stripe three days before): remind the user,
+   * and ask for a payment method if there is none
+   */
+  private async handleTrialWillEnd(subscription: Stripe.Subscription): Promise<void> {
+    const userId = subscription.metadata?.userId;
+    if (!userId || !subscription.trial_end) {
+      return;
+    }
+
+    const user = await prisma.user.findUnique({
+      where: { id: userId },
+      select: { email: true },
+    });
+
+    if (!user) {
+      return;
+    }
+
+    let hasPaymentMethod = !!subscription.default_payment_method;
+    if (!hasPaymentMethod) {
+      const customer = await this.stripe.customers.retrieve(subscription.customer as string);
+      hasPaymentMethod = !customer.deleted && !!customer.invoice_settings.default_payment_method;
+    }
+
+    const trialEnd = new Date(subscription.trial_end * 1000).toDateString();
+
+    await mailer.send({
+      to: user.email,
+      subject: `Your ${config.app.name} trial ends soon`,
+      text: hasPaymentMethod
+        ? `Your free trial ends on ${trialEnd}. Your subscription will continue and your card will be charged then.`
+        : `Your free trial ends on ${trialEnd}. Add a payment method before then to keep your subscription:\n\n${config.app.url}`,
+    });
+
+    logger.info('Trial ending reminder sent', { subscriptionId: subscription.id, userId, hasPaymentMethod });
+  }
+
+  /**
+   * Handle subscription deleted
+   */
+  private async handleSubscriptionDeleted(subscription: Stripe.Subscription, eventAt: Date): Promise<void> {
+    const userId = subscription.metadata?.userId;
+    if (!userId) {
+      logger.error('No userId in subscription metadata');
+      return;
+    }
+
+    const { tie } = await this.applySubscriptionChange(userId, {
+      subscriptionId: subscription.id,
+      subscriptionStatus: 'canceled',
+      subscriptionEndDate: new Date(subscription.current_period_end * 1000),
+      cancelAtPeriodEnd: false,
+      pausedUntil: null,
+    }, SYSTEM_AUDIT_CONTEXT, { stripeSubscriptionId: subscription.id }, eventAt);
+
+    if (tie) {
+      await this.syncSubscriptionTie(userId, subscription.id, eventAt);
+    }
+
+    // Failed renewals of an ended subscription won't be paid anymore
+    await dunningService.recordLoss({ subscriptionId: subscription.id });
+  }
+
+  /**
+   * Handle invoice payment succeeded
+   */
+  private async handleInvoicePaymentSucceeded(invoice: Stripe.Invoice): Promise<void> {
+    if (!invoice.subscription) {
+      return;
+    }
+
+    await dunningService.recordRecovery(invoice);
+
+    if (!invoice.payment_intent) {
+      return;
+    }
+
+    const subscription = await this.stripe.subscriptions.retrieve(invoice.subscription as string);
+    await this.recordInvoicePayment(invoice, subscription);
+  }
+
+  /**
+   * Record the payment of a paid subscription invoice (once)
+   */
+  async recordInvoicePayment(invoice: Stripe.Invoice, subscription: Stripe.Subscription): Promise<void> {
+    const userId = subscription.metadata?.userId;
+    if (!userId || !invoice.payment_intent) {
+      return;
+    }
+
+    // Repeating discounts apply to several invoices, then stop
+    const discountAmount = (invoice.total_discount_amounts || [])
+      .reduce((sum, discount) => sum + discount.amount, 0);
+
+    // Record payment (once, the event can be processed again)
+    const stripePaymentId = typeof invoice.payment_intent === 'string' ? invoice.payment_intent : invoice.payment_intent.id;
+    await prisma.payment.upsert({
+      where: { stripePaymentId },
+      update: {},
+      create: {
+        userId,
+        stripePaymentId,
+        amount: invoice.amount_paid,
+        currency: invoice.currency,
+        status: 'succeeded',
+        discountAmount,
+        promoCode: discountAmount > 0 ? subscription.metadata?.promoCode || null : null,
+        paymentMethod: 'card',
+        keitaroSubId: subscription.metadata?.keitaroSubId || null,
+      },
+    });
+  }
+
+  /**
+   * Handle invoice payment failed
+   */
+  private async handleInvoicePaymentFailed(invoice: Stripe.Invoice): Promise<void> {
+    if (!invoice.subscription) {
+      return;
+    }
+
+    const subscription = await this.stripe.subscriptions.retrieve(invoice.subscription as string);
+    const userId = subscription.metadata?.userId;
+    
+    if (!userId) {
+      return;
+    }
+
+    // Sync the current state rather than assuming past_due: the event may be late
+    await this.updateUserSubscription(userId, subscription);
+
+    const paymentIntent = typeof invoice.payment_intent === 'string'
+      ? await this.stripe.paymentIntents.retrieve(invoice.payment_intent)
+      : invoice.payment_intent;
+    const error = paymentIntent?.last_payment_error;
+
+    await dunningService.recordFailure(invoice, userId, error?.decline_code || error?.code || null);
+  }
+
+  /**
+   * Find the payment recorded for a payment intent
+   */
+  private async findPayment(
+    paymentIntent: string | Stripe.PaymentIntent | null
+  ): Promise<Payment | null> {
+    if (!paymentIntent) {
+      return null;
+    }
+
+    const stripePaymentId = typeof paymentIntent === 'string' ? paymentIntent : paymentIntent.id;
+    const payment = await prisma.payment.findUnique({
+      where: { stripePaymentId },
+    });
+
+    if (!payment) {
+      logger.warn('No payment recorded for payment intent', { stripePaymentId });
+    }
+
+    return payment;
+  }
+
+  /**
+   * Handle charge refunded (refunds made in the dashboard, or through refundPayment)
+   */
+  private async handleChargeRefunded(charge: Stripe.Charge): Promise<void> {
+    const payment = await this.findPayment(charge.payment_intent);
+    if (!payment) {
+      return;
+    }
+
+    await this.applyRefund(payment, charge.amount_refunded, SYSTEM_AUDIT_CONTEXT, {
+      stripeChargeId: charge.id,
+    });
+  }
+
+  /**
+   * Apply the refunds of a charge to its payment
+   */
+  async syncRefunds(charge: Stripe.Charge): Promise<void> {
+    await this.handleChargeRefunded(charge);
+  }
+
+  /**
+   * Apply the status of a dispute to its payment
+   */
+  async syncDispute(dispute: Stripe.Dispute): Promise<void> {
+    if (['won', 'lost', 'warning_closed'].includes(dispute.status)) {
+      await this.handleDisputeClosed(dispute);
+    } else {
+      await this.handleDisputeCreated(dispute);
+    }
+  }
+
+  /**
+   * Handle dispute opened: the disputed amount is held by Stripe until the dispute closes
+   */
+  private async handleDisputeCreated(dispute: Stripe.Dispute): Promise<void> {
+    const payment = await this.findPayment(dispute.payment_intent);
+    if (!payment) {
+      return;
+    }
+
+    // A late or replayed event doesn't reopen a dispute that was closed, or a refunded payment
+    const result = await prisma.payment.updateMany({
+      where: {
+        id: payment.id,
+        status: { notIn: ['chargeback', 'refunded'] },
+        OR: [{ disputeStatus: null }, { disputeStatus: { notIn: ['won', 'lost'] } }],
+      },
+      data: { status: 'disputed', disputeStatus: dispute.status },
+    });
+
+    if (result.count === 0) {
+      return;
+    }
+
+    await AuditService.record(SYSTEM_AUDIT_CONTEXT, {
+      action: AuditAction.PAYMENT_DISPUTE,
+      targetType: 'payment',
+      targetId: payment.id,
+      changes: AuditService.diff(payment, { ...payment, status: 'disputed', disputeStatus: dispute.status }, [
+        'status',
+        'disputeStatus',
+      ]),
+      metadata: { userId: payment.userId, stripeDisputeId: dispute.id, reason: dispute.reason, amount: dispute.amount },
+    });
+
+    logger.warn('Payment disputed', { paymentId: payment.id, disputeId: dispute.id, reason: dispute.reason });
+  }
+
+  /**
+   * Handle dispute closed: a lost dispute is a chargeback, reported to Keitaro like a refund
+   */
+  private async handleDisputeClosed(dispute: Stripe.Dispute): Promise<void> {
+    const payment = await this.findPayment(dispute.payment_intent);
+    if (!payment) {
+      return;
+    }
+
+    const lost = dispute.status === 'lost';
+    const status = lost
+      ? 'chargeback'
+      : payment.refundedAmount >= payment.amount
+        ? 'refunded'
+        : payment.refundedAmount > 0 ? 'partially_refunded' : 'succeeded';
+
+    // Conditional on the status so a redelivered event isn't reported twice
+    const result = await prisma.payment.updateMany({
+      where: { id: payment.id, status: { not: 'chargeback' } },
+      data: { status, disputeStatus: dispute.status },
+    });
+
+    if (result.count === 0) {
+      return;
+    }
+
+    await AuditService.record(SYSTEM_AUDIT_CONTEXT, {
+      action: AuditAction.PAYMENT_DISPUTE,
+      targetType: 'payment',
+      targetId: payment.id,
+      changes: AuditService.diff(payment, { ...payment, status, disputeStatus: dispute.status }, [
+        'status',
+        'disputeStatus',
+      ]),
+      metadata: { userId: payment.userId, stripeDisputeId: dispute.id, amount: dispute.amount },
+    });
+
+    if (lost) {
+      const fullRefund = dispute.amount + payment.refundedAmount >= payment.amount;
+
+      await keitaroService.trackRefund(payment.userId, dispute.amount, payment.currency, {
+        fullRefund,
+        clickId: payment.keitaroSubId || undefined,
+        metadata: { paymentId: payment.id, stripeDisputeId: dispute.id },
+      });
+
+      // Like refunds, only losing all of the payment takes back what it bought
+      if (fullRefund) {
+        await this.revokePurchase(payment, SYSTEM_AUDIT_CONTEXT);
+      }
+    }
+
+    logger.info('Payment dispute closed', { paymentId: payment.id, disputeId: dispute.id, status: dispute.status });
+  }
+
+  /**
+   * Create a promo code: a Stripe coupon with a customer-facing promotion code
+   */
+  async createPromoCode(data: {
+    code: string;
+    percentOff?: number;
+    amountOff?: number; // In cents
+    currency?: string;
+    duration: 'once' | 'repeating' | 'forever';
+    durationInMonths?: number;
+    plans?: string[];
+    maxRedemptions?: number;
+    firstTimeOnly?: boolean;
+    expiresAt?: Date;
+    createdBy?: string;
+  }): Promise<PromoCode> {
+    const code = data.code.trim().toUpperCase();
+    if (!/^[A-Z0-9_-]{3,40}$/.test(code)) {
+      throw new Error('Code must be 3-40 letters, digits, dashes or underscores');
+    }
+
+    if (!data.percentOff === !data.amountOff) {
+      throw new Error('Set either percentOff or amountOff');
+    }
+
+    if (data.percentOff !== undefined && (data.percentOff <= 0 || data.percentOff > 100)) {
+      throw new Error('percentOff must be between 0 and 100');
+    }
+
+    if (data.amountOff && !data.currency) {
+      throw new Error('currency is required with amountOff');
+    }
+
+    if (data.duration === 'repeating' && !data.durationInMonths) {
+      throw new Error('durationInMonths is required for repeating discounts');
+    }
+
+    const unknownPlans = (data.plans || []).filter(key => !planCatalog.getPlan(key));
+    if (unknownPlans.length > 0) {
+      throw new Error(`Unknown plans: ${unknownPlans.join(', ')}`);
+    }
+
+    if (await prisma.promoCode.findUnique({ where: { code } })) {
+      throw new Error('Promo code already exists');
+    }
+
+    try {
+      const coupon = await this.stripe.coupons.create({
+        name: code,
+        percent_off: data.percentOff,
+        amount_off: data.amountOff,
+        currency: data.currency?.toLowerCase(),
+        duration: data.duration,
+        duration_in_months: data.duration === 'repeating' ? data.durationInMonths : undefined,
+        metadata: { promoCode: code },
+      });
+
+      const promotionCode = await this.stripe.promotionCodes.create({
+        coupon: coupon.id,
+        code,
+        max_redemptions: data.maxRedemptions,
+        expires_at: data.expiresAt ? Math.floor(data.expiresAt.getTime() / 1000) : undefined,
+        restrictions: { first_time_transaction: data.firstTimeOnly || false },
+        metadata: { promoCode: code },
+      });
+
+      const promoCode = await prisma.promoCode.create({
+        data: {
+          code,
+          stripeCouponId: coupon.id,
+          stripePromotionCodeId: promotionCode.id,
+          percentOff: data.percentOff,
+          amountOff: data.amountOff,
+          currency: data.currency?.toLowerCase(),
+          duration: data.duration,
+          durationInMonths: data.duration === 'repeating' ? data.durationInMonths : null,
+          plans: data.plans || [],
+          maxRedemptions: data.maxRedemptions,
+          firstTimeOnly: data.firstTimeOnly || false,
+          expiresAt: data.expiresAt,
+          createdBy: data.createdBy,
+        },
+      });
+
+      logger.info('Promo code created', { code, couponId: coupon.id });
+      return promoCode;
+    } catch (error) {
+      logger.error('Failed to create promo code', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Update a promo code. Stripe only allows (de)activating a promotion code;
+   * the discount itself can't change, so create a new code for a different discount.
+   */
+  async updatePromoCode(id: string, data: { active?: boolean; plans?: string[] }): Promise<PromoCode> {
+    const promoCode = await prisma.promoCode.findUnique({ where: { id } });
+    if (!promoCode) {
+      throw new Error('Promo code not found');
+    }
+
+    const unknownPlans = (data.plans || []).filter(key => !planCatalog.getPlan(key));
+    if (unknownPlans.length > 0) {
+      throw new Error(`Unknown plans: ${unknownPlans.join(', ')}`);
+    }
+
+    if (data.active !== undefined && data.active !== promoCode.active) {
+      await this.stripe.promotionCodes.update(promoCode.stripePromotionCodeId, { active: data.active });
+    }
+
+    return prisma.promoCode.update({
+      where: { id },
+      data: {
+        active: data.active,
+        plans: data.plans,
+      },
+    });
+  }
+
+  /**
+   * Delete a promo code: the Stripe promotion code is deactivated and the coupon deleted.
+   * Subscriptions that already have the discount keep it; the local record stays for payment history.
+   */
+  async deletePromoCode(id: string): Promise<PromoCode> {
+    const promoCode = await prisma.promoCode.findUnique({ where: { id } });
+    if (!promoCode) {
+      throw new Error('Promo code not found');
+    }
+
+    await this.stripe.promotionCodes.update(promoCode.stripePromotionCodeId, { active: false });
+    try {
+      await this.stripe.coupons.del(promoCode.stripeCouponId);
+    } catch (error) {
+      logger.warn('Failed to delete Stripe coupon', { couponId: promoCode.stripeCouponId, error });
+    }
+
+    logger.info('Promo code deleted', { code: promoCode.code });
+    return prisma.promoCode.update({
+      where: { id },
+      data: { active: false },
+    });
+  }
+
+  /**
+   * Check a promo code for a price (and user) and work out the discount on the first payment.
+   * Errors start with "Promo code" so routes can return them to the customer.
+   */
+  async validatePromoCode(
+    code: string,
+    options: { priceId: string; userId?: string }
+  ): Promise<{ promoCode: PromoCode; amount: number; discountAmount: number; currency: string }> {
+    const promoCode = await prisma.promoCode.findUnique({
+      where: { code: code.trim().toUpperCase() },
+    });
+
+    if (!promoCode || !promoCode.active) {
+      throw new Error('Promo code is not valid');
+    }
+
+    if (promoCode.expiresAt && promoCode.expiresAt < new Date()) {
+      throw new Error('Promo code has expired');
+    }
+
+    const plan = planCatalog.getPlanByPriceId(options.priceId);
+    const price = planCatalog.getPrice(options.priceId);
+    if (!plan || !price || (promoCode.plans.length > 0 && !promoCode.plans.includes(plan.key))) {
+      throw new Error('Promo code does not apply to this plan');
+    }
+
+    if (promoCode.amountOff && promoCode.currency !== price.currency.toLowerCase()) {
+      throw new Error('Promo code does not apply to this currency');
+    }
+
+    if (promoCode.firstTimeOnly && options.userId) {
+      const payments = await prisma.payment.count({ where: { userId: options.userId } });
+      if (payments > 0) {
+        throw new Error('Promo code is only valid on a first purchase');
+      }
+    }
+
+    // Stripe has the redemption count, and the code may have been changed in the dashboard
+    const promotionCode = await this.stripe.promotionCodes.retrieve(promoCode.stripePromotionCodeId);
+    if (!promotionCode.active) {
+      throw new Error('Promo code is not valid');
+    }
+
+    if (promoCode.maxRedemptions && promotionCode.times_redeemed >= promoCode.maxRedemptions) {
+      throw new Error('Promo code has reached its redemption limit');
+    }
+
+    const discountAmount = promoCode.percentOff
+      ? Math.round(price.amount * promoCode.percentOff / 100)
+      : Math.min(promoCode.amountOff || 0, price.amount);
+
+    return { promoCode, amount: price.amount, discountAmount, currency: price.currency };
+  }
+
+  /**
+   * Check the plan catalog against Stripe: prices must exist, be active and match
+   * the catalog's currency, amount and interval. Amounts missing from the catalog
+   * (plans built from STRIPE_MONTHLY_PRICE_ID/STRIPE_ANNUAL_PRICE_ID) are filled in.
+   * Returns a list of problems.
+   */
+  async validatePlanCatalog(): Promise<string[]> {
+    const problems: string[] = [];
+
+    for (const plan of planCatalog.getPlans({ includeHidden: true })) {
+      for (const entry of plan.prices) {
+        let price: Stripe.Price;
+        try {
+          price = await this.stripe.prices.retrieve(entry.priceId);
+        } catch (error) {
+          problems.push(`${plan.key}: price ${entry.priceId} not found in Stripe`);
+          continue;
+        }
+
+        if (!price.active && !plan.hidden) {
+          problems.push(`${plan.key}: price ${entry.priceId} is archived in Stripe`);
+        }
+
+        if (price.currency !== entry.currency.toLowerCase()) {
+          problems.push(`${plan.key}: price ${entry.priceId} currency is ${price.currency}, catalog says ${entry.currency}`);
+        }
+
+        if (!entry.amount) {
+          entry.amount = price.unit_amount || 0;
+        } else if (price.unit_amount !== entry.amount) {
+          problems.push(`${plan.key}: price ${entry.priceId} amount is ${price.unit_amount}, catalog says ${entry.amount}`);
+        }
+
+        if (plan.interval === 'lifetime') {
+          if (price.type !== 'one_time') {
+            problems.push(`${plan.key}: lifetime plan price ${entry.priceId} must be a one-time price`);
+          }
+        } else if (
+          price.recurring?.interval !== plan.interval ||
+          price.recurring?.interval_count !== plan.intervalCount
+        ) {
+          problems.push(
+            `${plan.key}: price ${entry.priceId} bills every ${price.recurring?.interval_count} ` +
+            `${price.recurring?.interval}, catalog says every ${plan.intervalCount} ${plan.interval}`
+          );
+        }
+      }
+    }
+
+    return problems;
+  }
+
+  /**
+   * Get customer portal session (optionally straight to one flow, like updating the payment method)
+   */
+  async createPortalSession(
+    userId: string,
+    returnUrl: string,
+    options: { flow?: Stripe.BillingPortal.SessionCreateParams.FlowData.Type } = {}
+  ): Promise<Stripe.BillingPortal.Session> {
     const user = await prisma.user.findUnique({
       where: { id: userId },
     });
@@ -455,6 +2007,7 @@ export class StripeService {
     const session = await this.stripe.billingPortal.sessions.create({
       customer: user.stripeCustomerId,
       return_url: returnUrl,
+      ...(options.flow && { flow_data: { type: options.flow } }),
     });
 
     return session;
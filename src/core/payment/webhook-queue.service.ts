@@ -0,0 +1,284 @@
+import Stripe from 'stripe';
+import { prisma, WebhookEvent } from '../database';
+import { config } from '../config';
+import { stripeService } from './stripe.service';
+import logger from '../../utils/logger';
+
+/**
+ * Webhook event processing status
+ */
+export enum WebhookEventStatus {
+  PENDING = 'pending',
+  PROCESSING = 'processing',
+  PROCESSED = 'processed',
+  FAILED = 'failed', // Failed attempt, retried at nextAttemptAt
+  DEAD = 'dead', // Out of attempts; only replayed by an admin
+}
+
+/**
+ * Filters for replaying a batch of events
+ */
+export interface WebhookReplayFilters {
+  status?: WebhookEventStatus;
+  eventType?: string;
+  from?: Date;
+  to?: Date;
+  limit?: number;
+}
+
+// Longest delay between retries
+const MAX_RETRY_DELAY_MS = 6 * 60 * 60 * 1000;
+
+// How long a worker holds an event before another worker can pick it up
+const LEASE_MS = 5 * 60 * 1000;
+
+/**
+ * Durable processing of stored webhook events. The webhook route only stores events;
+ * the worker processes them, retries failures with exponential backoff and dead-letters
+ * events that keep failing. Several app instances can run the worker side by side.
+ */
+export class WebhookQueueService {
+  private timer: NodeJS.Timeout | null = null;
+  private running = false;
+
+  /**
+   * Start the worker (WEBHOOK_WORKER_INTERVAL_SECONDS=0 leaves it off)
+   */
+  start(): void {
+    if (this.timer || config.webhooks.workerIntervalSeconds <= 0) {
+      return;
+    }
+
+    this.timer = setInterval(() => this.wake(), config.webhooks.workerIntervalSeconds * 1000);
+    logger.info('Webhook worker started', { intervalSeconds: config.webhooks.workerIntervalSeconds });
+  }
+
+  /**
+   * Stop the worker
+   */
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  /**
+   * Process due events now, unless a run is already in progress
+   */
+  wake(): void {
+    if (this.running) {
+      return;
+    }
+
+    this.running = true;
+    this.processDue()
+      .catch(error => logger.error('Webhook worker error', error))
+      .finally(() => {
+        this.running = false;
+      });
+  }
+
+  /**
+   * Process events that are due, oldest first. Returns how many were processed.
+   */
+  async processDue(limit: number = 50): Promise<number> {
+    const now = new Date();
+    const events = await prisma.webhookEvent.findMany({
+      where: {
+        OR: [
+          { status: { in: [WebhookEventStatus.PENDING, WebhookEventStatus.FAILED] }, nextAttemptAt: { lte: now } },
+          // Held by a worker that stopped before finishing
+          { status: WebhookEventStatus.PROCESSING, lockedUntil: { lt: now } },
+        ],
+      },
+      orderBy: { createdAt: 'asc' },
+      take: limit,
+    });
+
+    let processed = 0;
+    for (const event of events) {
+      if (await this.claim(event)) {
+        await this.process(event);
+        processed++;
+      }
+    }
+
+    return processed;
+  }
+
+  /**
+   * Replay one event now, whatever its status. Returns the event after processing.
+   */
+  async replay(id: string): Promise<WebhookEvent> {
+    const event = await prisma.webhookEvent.findUnique({ where: { id } });
+    if (!event) {
+      throw new Error('Webhook event not found');
+    }
+
+    const claimed = await prisma.webhookEvent.updateMany({
+      where: { id, status: { not: WebhookEventStatus.PROCESSING } },
+      data: {
+        status: WebhookEventStatus.PROCESSING,
+        attempts: 0,
+        lockedUntil: new Date(Date.now() + LEASE_MS),
+      },
+    });
+
+    if (claimed.count === 0) {
+      throw new Error('Webhook event is being processed');
+    }
+
+    await this.process({ ...event, attempts: 0 });
+    return (await prisma.webhookEvent.findUnique({ where: { id } }))!;
+  }
+
+  /**
+   * Queue a batch of events for replay by the worker (dead events by default).
+   * Returns how many were queued.
+   */
+  async replayBatch(filters: WebhookReplayFilters): Promise<number> {
+    const events = await prisma.webhookEvent.findMany({
+      where: {
+        status: filters.status || WebhookEventStatus.DEAD,
+        ...(filters.eventType && { eventType: filters.eventType }),
+        ...((filters.from || filters.to) && {
+          createdAt: {
+            ...(filters.from && { gte: filters.from }),
+            ...(filters.to && { lte: filters.to }),
+          },
+        }),
+      },
+      select: { id: true },
+      orderBy: { createdAt: 'asc' },
+      take: Math.min(filters.limit || 100, 1000),
+    });
+
+    const result = await prisma.webhookEvent.updateMany({
+      where: {
+        id: { in: events.map(event => event.id) },
+        status: { not: WebhookEventStatus.PROCESSING },
+      },
+      data: { status: WebhookEventStatus.PENDING, attempts: 0, nextAttemptAt: new Date() },
+    });
+
+    logger.info('Webhook events queued for replay', { count: result.count, filters });
+    this.wake();
+    return result.count;
+  }
+
+  /**
+   * List events, newest first
+   */
+  async list(filters: {
+    status?: string;
+    eventType?: string;
+    page: number;
+    limit: number;
+  }): Promise<{ events: WebhookEvent[]; total: number; counts: Record<string, number> }> {
+    const where = {
+      ...(filters.status && { status: filters.status }),
+      ...(filters.eventType && { eventType: filters.eventType }),
+    };
+
+    const [events, total, groups] = await Promise.all([
+      prisma.webhookEvent.findMany({
+        where,
+        skip: (filters.page - 1) * filters.limit,
+        take: filters.limit,
+        orderBy: { createdAt: 'desc' },
+      }),
+      prisma.webhookEvent.count({ where }),
+      prisma.webhookEvent.groupBy({ by: ['status'], _count: true }),
+    ]);
+
+    const counts: Record<string, number> = {};
+    for (const group of groups) {
+      counts[group.status] = group._count;
+    }
+
+    return { events, total, counts };
+  }
+
+  /**
+   * Take an event for processing, unless another worker got it first
+   */
+  private async claim(event: WebhookEvent): Promise<boolean> {
+    const claimed = await prisma.webhookEvent.updateMany({
+      where: { id: event.id, status: event.status, lockedUntil: event.lockedUntil },
+      data: {
+        status: WebhookEventStatus.PROCESSING,
+        lockedUntil: new Date(Date.now() + LEASE_MS),
+      },
+    });
+
+    return claimed.count > 0;
+  }
+
+  /**
+   * Run the handler of a claimed event and record the outcome
+   */
+  private async process(event: WebhookEvent): Promise<void> {
+    const attempts = event.attempts + 1;
+
+    try {
+      await this.dispatch(event);
+
+      await prisma.webhookEvent.update({
+        where: { id: event.id },
+        data: {
+          status: WebhookEventStatus.PROCESSED,
+          processed: true,
+          processedAt: new Date(),
+          attempts,
+          error: null,
+          nextAttemptAt: null,
+          lockedUntil: null,
+        },
+      });
+    } catch (error) {
+      const dead = attempts >= config.webhooks.maxAttempts;
+      const delay = Math.min(config.webhooks.retryBaseSeconds * 1000 * 2 ** (attempts - 1), MAX_RETRY_DELAY_MS);
+
+      await prisma.webhookEvent.update({
+        where: { id: event.id },
+        data: {
+          status: dead ? WebhookEventStatus.DEAD : WebhookEventStatus.FAILED,
+          attempts,
+          error: (error as Error).message,
+          nextAttemptAt: dead ? null : new Date(Date.now() + delay),
+          lockedUntil: null,
+        },
+      });
+
+      if (dead) {
+        logger.error('Webhook event dead-lettered', { eventId: event.eventId, type: event.eventType, attempts, error });
+      } else {
+        logger.warn('Webhook event failed, will retry', {
+          eventId: event.eventId,
+          type: event.eventType,
+          attempts,
+          retryInSeconds: delay / 1000,
+          error: (error as Error).message,
+        });
+      }
+    }
+  }
+
+  /**
+   * Hand the event to the handler of its source
+   */
+  private async dispatch(event: WebhookEvent): Promise<void> {
+    switch (event.source) {
+      case 'stripe':
+        await stripeService.processWebhookEvent(event.payload as unknown as Stripe.Event);
+        break;
+
+      default:
+        throw new Error(`Unknown webhook source: ${event.source}`);
+    }
+  }
+}
+
+// Export singleton instance
+export const webhookQueue = new WebhookQueueService();
@@ -3,6 +3,8 @@ import { createServer } from 'http';
 import { config } from './core/config';
 import { prisma, checkDatabaseConnection } from './core/database';
 import { setupApi } from './core/api';
+import { RbacService } from './core/auth';
+import { planCatalog, stripeService, webhookQueue, reconciliationService, dunningService } from './core/payment';
 import {
   securityMiddleware,
   rateLimitMiddleware,
@@ -40,6 +42,12 @@ export class TrafficWorkApp {
         throw new Error('Failed to connect to database');
       }
 
+      // Make sure built-in admin roles exist
+      await RbacService.ensureDefaultRoles();
+
+      // Load plans and check them against Stripe
+      await this.loadPlanCatalog();
+
       // Setup middleware
       this.setupMiddleware();
 
@@ -59,6 +67,30 @@ export class TrafficWorkApp {
     }
   }
 
+  /**
+   * Load the plan catalog and validate it against Stripe.
+   * Mismatches stop the app in production and are logged in development.
+   */
+  private async loadPlanCatalog(): Promise<void> {
+    planCatalog.load();
+
+    if (!config.stripe.secretKey) {
+      logger.warn('Stripe is not configured, skipping plan catalog validation');
+      return;
+    }
+
+    const problems = await stripeService.validatePlanCatalog();
+    if (problems.length === 0) {
+      return;
+    }
+
+    if (config.app.env === 'production') {
+      throw new Error(`Plan catalog does not match Stripe:\n${problems.join('\n')}`);
+    }
+
+    problems.forEach(problem => logger.warn(`Plan catalog: ${problem}`));
+  }
+
   /**
    * Setup middleware
    */
@@ -137,6 +169,11 @@ export class TrafficWorkApp {
         logger.info(`Server started on port ${serverPort}`);
         logger.info(`Environment: ${config.app.env}`);
         logger.info(`App URL: ${config.app.url}`);
+
+        // Process stored webhook events and check billing state against Stripe
+        webhookQueue.start();
+        reconciliationService.start();
+        dunningService.start();
         resolve();
       });
 
@@ -178,8 +215,11 @@ export class TrafficWorkApp {
   async shutdown(): Promise<void> {
     logger.info('Shutting down gracefully...');
 
-    // Stop accepting new connections
+    // Stop accepting new connections and background jobs
     await this.stop();
+    webhookQueue.stop();
+    reconciliationService.stop();
+    dunningService.stop();
 
     // Close database connection
     await prisma.$disconnect();
@@ -227,7 +267,10 @@ if (require.main === module) {
 export * from './core/config';
 export * from './core/database';
 export * from './core/auth';
+export * from './core/audit';
+export * from './core/mailer';
 export * from './core/payment';
+export * from './core/entitlements';
 export * from './core/analytics';
 export * from './core/api';
 export * from './core/admin';
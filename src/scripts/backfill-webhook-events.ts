@@ -0,0 +1,40 @@
+import { prisma } from '../core/database';
+import { WebhookEventStatus } from '../core/payment';
+import logger from '../utils/logger';
+
+/**
+ * One-off upgrade step for the webhook queue. Adding the queue columns gives every stored
+ * event status `pending` and a due `nextAttemptAt`, so the worker would run all of them again.
+ * This marks the events that were handled without an error as `processed`, and the ones whose
+ * handler failed (stored with `error`) as `dead`, so admins can replay them. Only events that
+ * were never handled stay pending.
+ *
+ *   npm run backfill:webhooks
+ *
+ * Run it after `prisma migrate deploy` and before starting the app. Running it again is safe.
+ */
+async function main(): Promise<void> {
+  // Only rows the migration left pending; later runs don't touch events the queue has handled
+  const processed = await prisma.webhookEvent.updateMany({
+    where: { processed: true, error: null, status: WebhookEventStatus.PENDING },
+    data: { status: WebhookEventStatus.PROCESSED, nextAttemptAt: null },
+  });
+
+  const dead = await prisma.webhookEvent.updateMany({
+    where: { processed: true, error: { not: null }, status: WebhookEventStatus.PENDING },
+    data: { status: WebhookEventStatus.DEAD, nextAttemptAt: null },
+  });
+
+  const pending = await prisma.webhookEvent.count({
+    where: { processed: false, status: WebhookEventStatus.PENDING },
+  });
+
+  console.log(JSON.stringify({ markedProcessed: processed.count, markedDead: dead.count, pending }, null, 2));
+}
+
+main()
+  .catch(error => {
+    logger.error('Webhook event backfill failed', error);
+    process.exitCode = 1;
+  })
+  .finally(() => prisma.$disconnect());
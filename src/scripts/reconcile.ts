@@ -0,0 +1,41 @@
+import { prisma } from '../core/database';
+import { reconciliationService } from '../core/payment';
+import logger from '../utils/logger';
+
+/**
+ * Stripe reconciliation command: compares Stripe with the database and prints the report.
+ *
+ *   npm run reconcile -- [--fix] [--user <userId>] [--since <date>]
+ *
+ * Without --fix it's a dry run. Exits with code 2 if mismatches are left unfixed.
+ */
+async function main(args: string[]): Promise<number> {
+  const option = (name: string) => {
+    const index = args.indexOf(name);
+    return index >= 0 ? args[index + 1] : undefined;
+  };
+
+  const since = option('--since');
+  if (since && isNaN(Date.parse(since))) {
+    throw new Error(`Invalid --since date: ${since}`);
+  }
+
+  const report = await reconciliationService.run({
+    dryRun: !args.includes('--fix'),
+    userId: option('--user'),
+    since: since ? new Date(since) : undefined,
+  });
+
+  console.log(JSON.stringify(report, null, 2));
+  return report.mismatches.some(mismatch => !mismatch.fixed) ? 2 : 0;
+}
+
+main(process.argv.slice(2))
+  .then(code => {
+    process.exitCode = code;
+  })
+  .catch(error => {
+    logger.error('Reconciliation failed', error);
+    process.exitCode = 1;
+  })
+  .finally(() => prisma.$disconnect());
@@ -8,13 +8,29 @@
 export interface User {
   id: string;
   email: string;
-  password: string;
+  password?: string | null;
   name?: string | null;
+  emailVerifiedAt?: Date | null;
+  twoFactorSecret?: string | null;
+  twoFactorEnabledAt?: Date | null;
+  twoFactorRecoveryCodes: string[];
+  twoFactorLastStep?: number | null;
+  failedLoginCount: number;
+  lastFailedLoginAt?: Date | null;
+  lockedUntil?: Date | null;
   stripeCustomerId?: string | null;
   subscriptionId?: string | null;
   subscriptionStatus?: string | null;
   subscriptionPlan?: string | null;
+  subscriptionPriceId?: string | null;
   subscriptionEndDate?: Date | null;
+  cancelAtPeriodEnd?: boolean;
+  pausedUntil?: Date | null;
+  subscriptionScheduleId?: string | null;
+  scheduledPriceId?: string | null;
+  scheduledChangeAt?: Date | null;
+  pastDueSince?: Date | null;
+  trialUsedAt?: Date | null;
   keitaroSubId?: string | null;
   registrationSource?: string | null;
   createdAt: Date;
@@ -25,7 +41,13 @@ export interface User {
 /**
  * User without password (for API responses)
  */
-export type UserResponse = Omit<User, 'password'>;
+export type UserResponse = Omit<
+  User,
+  'password' | 'twoFactorSecret' | 'twoFactorRecoveryCodes' | 'twoFactorLastStep'
+> & {
+  hasPassword: boolean;
+  twoFactorEnabled: boolean;
+};
 
 /**
  * Session type
@@ -33,11 +55,30 @@ export type UserResponse = Omit<User, 'password'>;
 export interface Session {
   id: string;
   userId: string;
-  token: string;
+  userAgent?: string | null;
+  ipAddress?: string | null;
+  twoFactorVerified: boolean;
+  impersonatorId?: string | null;
   expiresAt: Date;
+  lastUsedAt: Date;
+  revokedAt?: Date | null;
+  revokedReason?: string | null;
   createdAt: Date;
 }
 
+/**
+ * Linked social login account
+ */
+export interface Account {
+  id: string;
+  userId: string;
+  provider: string;
+  providerAccountId: string;
+  email?: string | null;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
 /**
  * Payment type
  */
@@ -48,11 +89,55 @@ export interface Payment {
   amount: number;
   currency: string;
   status: string;
+  refundedAmount: number;
+  discountAmount: number;
+  promoCode?: string | null;
+  disputeStatus?: string | null;
   paymentMethod?: string | null;
   keitaroSubId?: string | null;
   createdAt: Date;
 }
 
+/**
+ * Order type (one-time product purchase)
+ */
+export interface Order {
+  id: string;
+  userId: string;
+  productKey: string;
+  amount: number;
+  currency: string;
+  status: string;
+  upsell: boolean;
+  stripePaymentIntentId?: string | null;
+  paymentId?: string | null;
+  keitaroSubId?: string | null;
+  fulfilledAt?: Date | null;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+/**
+ * Dunning case type (failed renewal invoice)
+ */
+export interface DunningCase {
+  id: string;
+  userId: string;
+  subscriptionId: string;
+  invoiceId: string;
+  amount: number;
+  currency: string;
+  status: string;
+  attempts: number;
+  nextRetryAt?: Date | null;
+  failureCode?: string | null;
+  remindersSent: number;
+  lastReminderAt?: Date | null;
+  resolvedAt?: Date | null;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
 /**
  * Tracking event type
  */
@@ -108,6 +193,9 @@ export interface PaginatedResponse<T = any> {
 export interface AuthResponse {
   user: UserResponse;
   token: string;
+  expiresAt: Date;
+  refreshToken: string;
+  refreshExpiresAt: Date;
 }
 
 /**
@@ -118,6 +206,13 @@ export interface SubscriptionStatus {
   status: string;
   plan?: string | null;
   endDate?: Date | null;
+  cancelAtPeriodEnd?: boolean;
+  pausedUntil?: Date | null;
+  scheduledChange?: {
+    plan: string | null;
+    priceId: string;
+    at: Date | null;
+  } | null;
 }
 
 /**
@@ -151,8 +246,16 @@ export enum StripeWebhookEvent {
   CUSTOMER_SUBSCRIPTION_CREATED = 'customer.subscription.created',
   CUSTOMER_SUBSCRIPTION_UPDATED = 'customer.subscription.updated',
   CUSTOMER_SUBSCRIPTION_DELETED = 'customer.subscription.deleted',
+  CUSTOMER_SUBSCRIPTION_TRIAL_WILL_END = 'customer.subscription.trial_will_end',
+  CHARGE_REFUNDED = 'charge.refunded',
+  CHARGE_DISPUTE_CREATED = 'charge.dispute.created',
+  CHARGE_DISPUTE_CLOSED = 'charge.dispute.closed',
+  PAYMENT_INTENT_SUCCEEDED = 'payment_intent.succeeded',
+  PAYMENT_INTENT_FAILED = 'payment_intent.payment_failed',
   INVOICE_PAYMENT_SUCCEEDED = 'invoice.payment_succeeded',
   INVOICE_PAYMENT_FAILED = 'invoice.payment_failed',
+  INVOICE_MARKED_UNCOLLECTIBLE = 'invoice.marked_uncollectible',
+  INVOICE_VOIDED = 'invoice.voided',
 }
 
 /**
@@ -0,0 +1,104 @@
+import axios from 'axios';
+import { createServer, Server } from 'http';
+
+// Needs a migrated database (DATABASE_URL); skipped without one. The app is loaded in
+// beforeAll: loading the database module connects right away.
+const describeWithDatabase = process.env.DATABASE_URL ? describe : describe.skip;
+
+describeWithDatabase('Checkout through the Stripe emulator', () => {
+  let prisma: typeof import('../src/core/database').prisma;
+  let stripeEmulator: typeof import('../src/core/payment').stripeEmulator;
+  let stripeService: typeof import('../src/core/payment').stripeService;
+  let webhookQueue: typeof import('../src/core/payment').webhookQueue;
+  let server: Server;
+  let userId: string;
+
+  beforeAll(async () => {
+    ({ prisma } = await import('../src/core/database'));
+    ({ stripeEmulator, stripeService, webhookQueue } = await import('../src/core/payment'));
+
+    const { createApp } = await import('../src');
+    const app = await createApp();
+    server = createServer(app.getApp());
+    await new Promise<void>(resolve => server.listen(3999, resolve));
+  });
+
+  afterAll(async () => {
+    await new Promise(resolve => server.close(resolve));
+    await prisma.$disconnect();
+  });
+
+  beforeEach(async () => {
+    stripeEmulator.reset();
+    const user = await prisma.user.create({ data: { email: `checkout-${Date.now()}@example.com` } });
+    userId = user.id;
+  });
+
+  afterEach(async () => {
+    await prisma.webhookEvent.deleteMany({});
+    await prisma.user.deleteMany({ where: { id: userId } });
+  });
+
+  /**
+   * Wait until the webhooks are delivered and processed
+   */
+  async function processWebhooks(): Promise<void> {
+    await stripeEmulator.flushWebhooks();
+
+    for (let i = 0; i < 50; i++) {
+      await webhookQueue.processDue();
+      const left = await prisma.webhookEvent.count({ where: { status: { not: 'processed' } } });
+      if (left === 0) {
+        return;
+      }
+      await new Promise(resolve => setTimeout(resolve, 100));
+    }
+
+    throw new Error('Webhook events were not processed');
+  }
+
+  it('activates the subscription after paying on the checkout page', async () => {
+    const session = await stripeService.createCheckoutSession(
+      userId,
+      'price_weekly_usd',
+      'http://localhost:3999/subscription/success',
+      'http://localhost:3999/subscription/cancel'
+    );
+
+    // The checkout page pays the session and sends the customer to success_url
+    const response = await axios.get(session.url!, { maxRedirects: 0, validateStatus: null });
+    expect(response.status).toBe(302);
+    expect(response.headers.location).toBe('http://localhost:3999/subscription/success');
+
+    await processWebhooks();
+
+    const user = await prisma.user.findUniqueOrThrow({ where: { id: userId } });
+    expect(user.subscriptionStatus).toBe('active');
+    expect(user.subscriptionPlan).toBe('weekly');
+    expect(user.subscriptionId).toMatch(/^sub_/);
+
+    const payments = await prisma.payment.findMany({ where: { userId } });
+    expect(payments).toHaveLength(1);
+    expect(payments[0].amount).toBe(499);
+  });
+
+  it('sends the customer to cancel_url when the card is declined', async () => {
+    const session = await stripeService.createCheckoutSession(
+      userId,
+      'price_weekly_usd',
+      'http://localhost:3999/subscription/success',
+      'http://localhost:3999/subscription/cancel'
+    );
+
+    const response = await axios.get(`${session.url}?paymentMethod=pm_card_chargeDeclined`, {
+      maxRedirects: 0,
+      validateStatus: null,
+    });
+    expect(response.headers.location).toBe('http://localhost:3999/subscription/cancel');
+
+    await processWebhooks();
+
+    const user = await prisma.user.findUniqueOrThrow({ where: { id: userId } });
+    expect(user.subscriptionStatus).not.toBe('active');
+  });
+});
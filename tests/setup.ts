@@ -0,0 +1,10 @@
+// Tests run against the Stripe emulator, which delivers its webhooks to the test server
+process.env.NODE_ENV = 'test';
+process.env.STRIPE_EMULATOR = 'true';
+process.env.STRIPE_WEBHOOK_SECRET = 'whsec_test';
+process.env.APP_URL = 'http://localhost:3999';
+process.env.PLAN_CATALOG_PATH = './plans.example.json';
+process.env.WEBHOOK_WORKER_INTERVAL_SECONDS = '0';
+process.env.RECONCILIATION_INTERVAL_HOURS = '0';
+process.env.DUNNING_CHECK_INTERVAL_MINUTES = '0';
+process.env.LOG_LEVEL = process.env.LOG_LEVEL || 'error';
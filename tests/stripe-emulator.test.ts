@@ -0,0 +1,59 @@
+import { StripeEmulator, EMULATOR_PAYMENT_METHODS } from '../src/core/payment/stripe-emulator.service';
+
+describe('StripeEmulator checkout', () => {
+  const emulator = new StripeEmulator();
+  const stripe = emulator.client;
+
+  beforeAll(() => {
+    // Keep events in memory; there is no server to deliver them to
+    emulator.webhookUrl = null;
+  });
+
+  beforeEach(() => emulator.reset());
+
+  async function createSession() {
+    const customer = await stripe.customers.create({ email: 'buyer@example.com' });
+
+    return stripe.checkout.sessions.create({
+      customer: customer.id,
+      mode: 'subscription',
+      line_items: [{ price: 'price_weekly_usd', quantity: 1 }],
+      success_url: 'http://localhost:3999/subscription/success',
+      cancel_url: 'http://localhost:3999/subscription/cancel',
+      subscription_data: { metadata: { userId: 'user_1' } },
+    });
+  }
+
+  it('starts a paid subscription when the session is paid', async () => {
+    const session = await createSession();
+    expect(session.url).toBe(`http://localhost:3999/stripe-emulator/checkout/${session.id}`);
+
+    const completed = await emulator.completeCheckoutSession(session.id);
+    expect(completed.status).toBe('complete');
+
+    const subscription = await stripe.subscriptions.retrieve(completed.subscription as string);
+    expect(subscription.status).toBe('active');
+    expect(subscription.metadata.userId).toBe('user_1');
+
+    expect(emulator.events.map(event => event.type)).toEqual(expect.arrayContaining([
+      'customer.subscription.created',
+      'invoice.payment_succeeded',
+      'checkout.session.completed',
+    ]));
+  });
+
+  it('leaves the session open when the card is declined', async () => {
+    const session = await createSession();
+
+    const result = await emulator.completeCheckoutSession(session.id, EMULATOR_PAYMENT_METHODS.DECLINED);
+    expect(result.status).toBe('open');
+    expect(emulator.events.map(event => event.type)).not.toContain('checkout.session.completed');
+  });
+
+  it('refuses to pay a session twice', async () => {
+    const session = await createSession();
+    await emulator.completeCheckoutSession(session.id);
+
+    await expect(emulator.completeCheckoutSession(session.id)).rejects.toThrow('is complete');
+  });
+});